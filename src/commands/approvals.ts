@@ -0,0 +1,154 @@
+import type { Command } from 'commander';
+import KeystoreManager from '../utils/keystore-manager.js';
+import { renderOutput, formatDid, formatDate } from '../utils/output-formatter.js';
+import { normalizeError, formatError, MissingKeyError, NotFoundError } from '../utils/error-handler.js';
+import { getSigningKeyPair } from '../utils/signing.js';
+import { appendAuditEntry, auditDigest } from '../utils/audit-log.js';
+import {
+  listApprovalRequests,
+  getApprovalRequest,
+  decideApprovalRequest,
+  type ApprovalRequest,
+} from '../utils/approvals.js';
+
+/**
+ * List approval requests command
+ */
+export function listCommand(parent: Command): void {
+  parent.command('list')
+    .description('List approval requests made by agent tools')
+    .option('--all', 'Include approved, denied, consumed and expired requests')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const storePath = KeystoreManager.getStorePath(options.store);
+        const now = Date.now();
+        const requests = listApprovalRequests(storePath).filter(
+          (request) =>
+            options.all || (request.status === 'pending' && Date.parse(request.expiresAt) >= now)
+        );
+
+        if (options.json) {
+          console.log(renderOutput(requests));
+        } else {
+          if (requests.length === 0) {
+            console.log(options.all ? 'No approval requests found.' : 'No pending approval requests.');
+            return;
+          }
+
+          console.log(`\nFound ${requests.length} approval request(s):\n`);
+
+          for (const request of requests) {
+            printApprovalRequest(request);
+            console.log();
+          }
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Approve a pending request command
+ */
+export function approveCommand(parent: Command): void {
+  parent.command('approve')
+    .description('Approve a pending agent tool request (signed with the owner key)')
+    .requiredOption('--id <id>', 'Approval request ID')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Use unencrypted keystore (NOT RECOMMENDED)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const request = await signDecision(options, true);
+
+        if (options.json) {
+          console.log(renderOutput(request));
+        } else {
+          console.log(`✓ Approved: ${request.id}\n`);
+          printApprovalRequest(request);
+          console.log('\nThe agent can now call the tool again with this approvalId (single use).');
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Deny a pending request command
+ */
+export function denyCommand(parent: Command): void {
+  parent.command('deny')
+    .description('Deny a pending agent tool request (signed with the owner key)')
+    .requiredOption('--id <id>', 'Approval request ID')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Use unencrypted keystore (NOT RECOMMENDED)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const request = await signDecision(options, false);
+
+        if (options.json) {
+          console.log(renderOutput(request));
+        } else {
+          console.log(`✓ Denied: ${request.id}`);
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Helper: Record the owner's decision on a request, signed with the owner's key
+ */
+async function signDecision(
+  options: { id: string; store?: string; encryption?: boolean },
+  approve: boolean
+): Promise<ApprovalRequest> {
+  const storePath = KeystoreManager.getStorePath(options.store);
+  const pending = getApprovalRequest(storePath, options.id);
+  if (!pending) {
+    throw new NotFoundError(`Approval request not found: ${options.id}`);
+  }
+
+  const keystore = await KeystoreManager.getKeystore(options.store, options.encryption === false);
+  const keyPair = await getSigningKeyPair(keystore, pending.owner);
+  if (!keyPair) {
+    throw new MissingKeyError(pending.owner);
+  }
+
+  const request = decideApprovalRequest(storePath, options.id, approve, keyPair);
+  appendAuditEntry(storePath, {
+    operation: approve ? 'approval.approve' : 'approval.deny',
+    did: request.owner,
+    target: request.id,
+    digest: request.decisionJwt && auditDigest(request.decisionJwt),
+  });
+  return request;
+}
+
+/**
+ * Helper: Print an approval request for review
+ */
+function printApprovalRequest(request: ApprovalRequest): void {
+  console.log(`${request.action.toUpperCase()}  ${request.id}`);
+  console.log(`  Status   : ${request.status}`);
+  console.log(`  Owner    : ${formatDid(request.owner)}`);
+  console.log(`  Requested: ${formatDate(request.requestedAt)}`);
+  console.log(`  Expires  : ${formatDate(request.expiresAt)}`);
+  for (const [key, value] of Object.entries(request.params)) {
+    if (value !== undefined) {
+      console.log(`  ${key.padEnd(9)}: ${Array.isArray(value) ? value.join(', ') : String(value)}`);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import type { Command } from 'commander';
+import { renderOutput, formatDid, formatDate } from '../utils/output-formatter.js';
+import { normalizeError, formatError, EXIT_CODES } from '../utils/error-handler.js';
+import { AUDIT_OPERATIONS } from '../utils/audit-log.js';
+import { listAuditEntries, verifyAuditLog } from '../services/audit.js';
+
+/**
+ * List audit log entries command
+ */
+export function listCommand(parent: Command): void {
+  parent.command('list')
+    .description('List recorded private-key operations, oldest first')
+    .option('--did <did>', 'Only entries for this DID (as signer or target)')
+    .option('--operation <operation>', `Only this operation or prefix (${AUDIT_OPERATIONS.join(', ')})`)
+    .option('--since <date>', 'Only entries at or after this date')
+    .option('--until <date>', 'Only entries before this date')
+    .option('--limit <n>', 'Only the most recent n entries')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const entries = await listAuditEntries(
+          {
+            did: options.did,
+            operation: options.operation,
+            since: options.since,
+            until: options.until,
+            limit: options.limit !== undefined ? Number(options.limit) : undefined,
+          },
+          { store: options.store }
+        );
+
+        if (options.json) {
+          console.log(renderOutput(entries));
+          return;
+        }
+
+        if (entries.length === 0) {
+          console.log('No audit entries found.');
+          return;
+        }
+
+        console.log(`\nFound ${entries.length} audit entr${entries.length === 1 ? 'y' : 'ies'}:\n`);
+        for (const entry of entries) {
+          console.log(`#${entry.seq}  ${formatDate(entry.timestamp)}  ${entry.operation}`);
+          console.log(`  DID:    ${formatDid(entry.did)}`);
+          if (entry.target) console.log(`  Target: ${entry.target}`);
+          if (entry.digest) console.log(`  Digest: sha256:${entry.digest}`);
+          console.log('');
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Verify the audit log hash chain command
+ */
+export function verifyCommand(parent: Command): void {
+  parent.command('verify')
+    .description('Check that the audit log has not been edited, reordered or truncated')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted (the head has no MAC to check)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const result = await verifyAuditLog({
+          store: options.store,
+          noEncryption: options.encryption === false,
+        });
+
+        if (options.json) {
+          console.log(renderOutput(result));
+        } else if (result.valid) {
+          console.log(`✓ Audit log intact (${result.entries} entr${result.entries === 1 ? 'y' : 'ies'})`);
+          console.log(`  Log:  ${result.path}`);
+          if (result.head) console.log(`  Head: ${result.head}`);
+          if (!result.anchored) console.log('  Head MAC not checked (unencrypted keystore)');
+        } else {
+          console.error(`✗ Audit log is not intact: ${result.reason}`);
+          if (result.line) console.error(`  Line: ${result.line}`);
+          console.error(`  Log:  ${result.path}`);
+        }
+
+        if (!result.valid) {
+          process.exit(EXIT_CODES.VERIFICATION_FAILED);
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
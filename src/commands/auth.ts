@@ -1,8 +1,10 @@
 import type { Command } from 'commander';
-import { signAuthChallenge, verifyAuthChallenge } from 'agent-did';
 import KeystoreManager from '../utils/keystore-manager.js';
-import { outputJson } from '../utils/output-formatter.js';
-import { normalizeError, formatError } from '../utils/error-handler.js';
+import { renderOutput } from '../utils/output-formatter.js';
+import { normalizeError, formatError, exitCodeFor } from '../utils/error-handler.js';
+import { signChallenge, verifyChallenge, purgeReplays } from '../services/auth.js';
+import { registerWithService } from '../services/registration.js';
+import { getSignerSocketFor, signChallengeWithSigner } from '../services/signer-client.js';
 
 /**
  * Sign authentication challenge command
@@ -15,44 +17,32 @@ export function signCommand(parent: Command): void {
     .option('--audience <audience>', 'Audience (server identifier)')
     .option('--domain <domain>', 'Domain (server domain)')
     .option('--expires-in <seconds>', 'Expiration time in seconds (default: 120)', '120')
+    .option('--no-signer', 'Sign locally even when AGENT_DID_SIGNER_SOCK is set')
     .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
     .option('--no-encryption', 'Keystore is not encrypted')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        const keystore = await KeystoreManager.getKeystore(
-          options.store,
-          options.encryption === false
-        );
-        await keystore.init();
-
-        // Validate identity exists
-        const identity = await keystore.getIdentity(options.did);
-        if (!identity) {
-          throw new Error(`Identity not found: ${options.did}`);
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
         }
 
-        // Get key pair
-        const keyPair = await keystore.getKeyPair(options.did);
-        if (!keyPair) {
-          throw new Error(`Private key not found for: ${options.did}`);
-        }
+        const input = {
+          did: options.did,
+          challenge: options.challenge,
+          audience: options.audience,
+          domain: options.domain,
+          expiresIn: parseInt(options.expiresIn, 10),
+        };
 
-        // Sign the challenge
-        const result = await signAuthChallenge(
-          options.did,
-          keyPair.privateKey,
-          keyPair.publicKey,
-          options.challenge,
-          {
-            audience: options.audience,
-            domain: options.domain,
-            expiresIn: parseInt(options.expiresIn, 10),
-          }
-        );
+        // Use the signer daemon when AGENT_DID_SIGNER_SOCK is set
+        const signer = await getSignerSocketFor(options);
+        const result = signer
+          ? await signChallengeWithSigner(signer, input)
+          : await signChallenge(input, { store: options.store, noEncryption: options.encryption === false });
 
         if (options.json) {
-          console.log(outputJson(result));
+          console.log(renderOutput(result));
         } else {
           console.log('\n✓ Challenge signed successfully');
           console.log('\n=== Signature Result ===\n');
@@ -66,12 +56,12 @@ export function signCommand(parent: Command): void {
           console.log(`\n=== Signature (base64url) ===`);
           console.log(result.signature);
           console.log(`\n=== Full Response (for server) ===\n`);
-          console.log(outputJson(result));
+          console.log(renderOutput(result));
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -88,24 +78,29 @@ export function verifyCommand(parent: Command): void {
     .option('--nonce <nonce>', 'Expected nonce (challenge)')
     .option('--audience <audience>', 'Expected audience')
     .option('--domain <domain>', 'Expected domain')
+    .option('--resolver-url <url>', 'Base URL for resolving did:web documents')
+    .option('--replay-store <path>', 'Reject reused nonces recorded in this file (default: AGENT_DID_REPLAY_STORE)')
+    .option('--clock-skew <seconds>', 'Tolerated clock difference for expiry checks (default: 0)')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        const result = await verifyAuthChallenge(
-          options.did,
-          options.payload,
-          options.signature,
-          {
-            expectedNonce: options.nonce,
-            expectedAudience: options.audience,
-            expectedDomain: options.domain,
-          }
-        );
+        const clockSkew = options.clockSkew !== undefined ? Number(options.clockSkew) : undefined;
+        const result = await verifyChallenge({
+          did: options.did,
+          payload: options.payload,
+          signature: options.signature,
+          nonce: options.nonce,
+          audience: options.audience,
+          domain: options.domain,
+          resolverUrl: options.resolverUrl,
+          clockSkew,
+          replayStore: options.replayStore,
+        });
 
         if (options.json) {
-          console.log(outputJson(result));
+          console.log(renderOutput(result));
           if (!result.valid) {
-            process.exit(1);
+            process.exit(exitCodeFor(result.code));
           }
           return;
         }
@@ -129,12 +124,98 @@ export function verifyCommand(parent: Command): void {
           if (result.reason) {
             console.error(`Reason: ${result.reason}`);
           }
-          process.exit(1);
+          process.exit(exitCodeFor(result.code));
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Purge expired entries from the replay store command
+ */
+export function purgeReplaysCommand(parent: Command): void {
+  parent.command('purge-replays')
+    .description('Remove expired nonces from a replay store')
+    .option('--replay-store <path>', 'Replay store file (default: AGENT_DID_REPLAY_STORE)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const result = await purgeReplays(options.replayStore);
+
+        if (options.json) {
+          console.log(renderOutput(result));
+          return;
+        }
+
+        console.log(`\n✓ Purged ${result.removed} expired nonce(s)`);
+        console.log(`\nReplay store: ${result.path}`);
+        console.log(`Remaining:    ${result.remaining}`);
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Register an identity with a service command
+ */
+export function registerCommand(parent: Command): void {
+  parent.command('register')
+    .description('Register an agent with a service (init -> sign challenge -> complete)')
+    .requiredOption('--did <did>', 'Agent DID to register')
+    .option('--service <baseUrl>', 'Service base URL (default: AGENT_DID_REGISTRATION_URL or https://agent-did.xyz)')
+    .option('--attach-ownership', 'Attach the stored ownership credential for the agent')
+    .option('--ownership-file <file>', 'Attach this ownership credential (JWT file)')
+    .option('--audience <audience>', 'Audience to sign (default: service origin)')
+    .option('--domain <domain>', 'Domain to sign (default: service host name)')
+    .option('--expires-in <seconds>', 'Signed response lifetime in seconds (default: 300)', '300')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        const result = await registerWithService(
+          {
+            did: options.did,
+            service: options.service,
+            attachOwnership: options.attachOwnership,
+            ownershipFile: options.ownershipFile,
+            audience: options.audience,
+            domain: options.domain,
+            expiresIn: parseInt(options.expiresIn, 10),
+          },
+          { store: options.store, noEncryption: options.encryption === false }
+        );
+
+        if (options.json) {
+          console.log(renderOutput(result));
+        } else {
+          const { registration } = result;
+          console.log(`✓ Registered with ${registration.service}\n`);
+          console.log(`DID:          ${options.did}`);
+          if (registration.serviceId) {
+            console.log(`Service ID:   ${registration.serviceId}`);
+          }
+          console.log(`Registered:   ${registration.registeredAt}`);
+          if (registration.ownershipCredentialId) {
+            console.log(`Ownership VC: ${registration.ownershipCredentialId}`);
+          }
+          console.log('\nRegistration saved on the identity (see `inspect --did`).');
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -1,8 +1,12 @@
 import type { Command } from 'commander';
-import { generateKeyPair, publicKeyToDidKey } from 'agent-did';
+import * as fs from 'fs';
+import * as path from 'path';
 import KeystoreManager from '../utils/keystore-manager.js';
 import { formatOutput } from '../utils/output-formatter.js';
 import { normalizeError, formatError } from '../utils/error-handler.js';
+import { didWebToUrl } from '../utils/did-resolver.js';
+import { parseLabels, formatLabels } from '../utils/identity-labels.js';
+import { createOwner, createAgent, type CreatedIdentity } from '../services/identity.js';
 
 /**
  * Create owner identity command
@@ -11,53 +15,50 @@ export function createOwnerCommand(parent: Command): void {
   parent.command('owner')
     .description('Create a new owner identity')
     .requiredOption('-n, --name <name>', 'Name for the owner identity')
+    .option('--method <method>', 'DID method: key or web (default: key)', 'key')
+    .option('--domain <domain>', 'Domain (and optional path) for did:web, e.g. example.com:agents')
+    .option('--did-document <file>', 'Write the did:web DID Document (did.json) to this file')
+    .option('--key-type <type>', 'Key type: ed25519, p256 or secp256k1 (default: ed25519)', 'ed25519')
+    .option('--label <labels...>', 'Labels as key=value (repeatable), e.g. team=billing env=prod')
+    .option('--description <text>', 'Free-form description')
     .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
     .option('--no-encryption', 'Store keys unencrypted (NOT RECOMMENDED)')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        // Get keystore instance
-        const keystore = await KeystoreManager.getNewKeystore(
-          options.store,
-          options.encryption === false
-        );
-        await keystore.init();
-
-        // Generate key pair
-        const keyPair = await generateKeyPair();
-        const did = publicKeyToDidKey(keyPair.publicKey);
-
-        // Create metadata
-        const metadata = {
-          did,
-          type: 'owner' as const,
-          name: options.name,
-          createdAt: new Date().toISOString(),
-        };
-
-        // Store identity
-        await keystore.storeIdentity(metadata, keyPair);
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
 
-        const output = {
-          did,
-          kid: `${did}#${did.split(':')[2]}`,
-          name: options.name,
-          type: 'owner',
-          createdAt: metadata.createdAt,
-        };
+        const identity = await createOwner(
+          {
+            name: options.name,
+            method: options.method,
+            domain: options.domain,
+            keyType: options.keyType,
+            labels: parseLabels(options.label),
+            description: options.description,
+          },
+          { store: options.store, noEncryption: options.encryption === false }
+        );
+        writeDidDocument(identity, options.didDocument);
 
-        console.log(formatOutput(output, options.json));
+        const { didDocument, ...output } = identity;
+        console.log(
+          formatOutput(options.json ? { ...output, didDocument } : textOutput(output), options.json)
+        );
 
         if (!options.json) {
           console.log('\n✓ Owner identity created successfully');
+          printDidDocumentHint(identity.did, options.didDocument);
           if (options.encryption !== false) {
             console.log('IMPORTANT: Store your passphrase securely. It cannot be recovered.');
           }
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -69,65 +70,82 @@ export function createAgentCommand(parent: Command): void {
   parent.command('agent')
     .description('Create a new agent identity')
     .requiredOption('-n, --name <name>', 'Name for the agent identity')
-    .requiredOption('--owner <did>', 'DID of the owner')
+    .option('--owner <did>', 'DID of the owner (default: configured default owner)')
+    .option('--method <method>', 'DID method: key or web (default: key)', 'key')
+    .option('--domain <domain>', 'Domain (and optional path) for did:web, e.g. example.com:agents')
+    .option('--did-document <file>', 'Write the did:web DID Document (did.json) to this file')
+    .option('--key-type <type>', 'Key type: ed25519, p256 or secp256k1 (default: ed25519)', 'ed25519')
+    .option('--label <labels...>', 'Labels as key=value (repeatable), e.g. team=billing env=prod')
+    .option('--description <text>', 'Free-form description')
     .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
     .option('--no-encryption', 'Store keys unencrypted (NOT RECOMMENDED)')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        // Get keystore instance
-        const keystore = await KeystoreManager.getNewKeystore(
-          options.store,
-          options.encryption === false
-        );
-        await keystore.init();
-
-        // Verify owner exists
-        const ownerIdentity = await keystore.getIdentity(options.owner);
-        if (!ownerIdentity) {
-          throw new Error(`Owner identity not found: ${options.owner}`);
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
         }
-        if (ownerIdentity.type !== 'owner') {
-          throw new Error(`Specified DID is not an owner: ${options.owner}`);
-        }
-
-        // Generate key pair
-        const keyPair = await generateKeyPair();
-        const did = publicKeyToDidKey(keyPair.publicKey);
 
-        // Create metadata with owner reference
-        const metadata = {
-          did,
-          type: 'agent' as const,
-          name: options.name,
-          createdAt: new Date().toISOString(),
-          ownerDid: options.owner,
-        };
-
-        // Store identity
-        await keystore.storeIdentity(metadata, keyPair);
-
-        const output = {
-          did,
-          kid: `${did}#${did.split(':')[2]}`,
-          name: options.name,
-          type: 'agent',
-          ownerDid: options.owner,
-          createdAt: metadata.createdAt,
-        };
+        const identity = await createAgent(
+          {
+            name: options.name,
+            owner: options.owner,
+            method: options.method,
+            domain: options.domain,
+            keyType: options.keyType,
+            labels: parseLabels(options.label),
+            description: options.description,
+          },
+          { store: options.store, noEncryption: options.encryption === false }
+        );
+        writeDidDocument(identity, options.didDocument);
 
-        console.log(formatOutput(output, options.json));
+        const { didDocument, ...output } = identity;
+        console.log(
+          formatOutput(options.json ? { ...output, didDocument } : textOutput(output), options.json)
+        );
 
         if (!options.json) {
           console.log('\n✓ Agent identity created successfully');
+          printDidDocumentHint(identity.did, options.didDocument);
           if (options.encryption !== false) {
             console.log('IMPORTANT: Store your passphrase securely. It cannot be recovered.');
           }
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
+
+/**
+ * Helper: Flatten labels for the text table
+ */
+function textOutput(output: Omit<CreatedIdentity, 'didDocument'>): object {
+  return output.labels ? { ...output, labels: formatLabels(output.labels) } : output;
+}
+
+/**
+ * Helper: Write the did:web DID Document (did.json) to a file if requested
+ */
+function writeDidDocument(identity: CreatedIdentity, outFile?: string): void {
+  if (identity.didDocument && outFile) {
+    fs.writeFileSync(path.resolve(outFile), JSON.stringify(identity.didDocument, null, 2), 'utf8');
+  }
+}
+
+/**
+ * Helper: Tell the user where to publish a did:web DID Document
+ */
+function printDidDocumentHint(did: string, outFile?: string): void {
+  if (!did.startsWith('did:web:')) return;
+
+  if (outFile) {
+    console.log(`DID Document written to: ${path.resolve(outFile)}`);
+  } else {
+    console.log('Use --did-document <file> to write the DID Document (did.json).');
+  }
+  console.log(`Publish it at: ${didWebToUrl(did)}`);
+}
@@ -1,7 +1,27 @@
 import type { Command } from 'commander';
 import KeystoreManager from '../utils/keystore-manager.js';
-import { outputJson, formatDid, formatDate } from '../utils/output-formatter.js';
-import { normalizeError, formatError } from '../utils/error-handler.js';
+import { renderOutput, formatDid, formatDate } from '../utils/output-formatter.js';
+import { normalizeError, formatError, InvalidArgumentError } from '../utils/error-handler.js';
+import { keyIdFor } from '../utils/did-resolver.js';
+import { keyTypeOf } from '../utils/key-types.js';
+import { parseLabels, labelsOf, descriptionOf, formatLabels } from '../utils/identity-labels.js';
+import { archiveOf, isArchiveExpired, type IdentityArchive } from '../utils/identity-archive.js';
+import {
+  listIdentities,
+  getIdentity,
+  updateIdentity,
+  deleteIdentity,
+  restoreIdentity,
+  purgeArchivedIdentities,
+} from '../services/identity.js';
+import {
+  getIdentityTree,
+  type AgentNode,
+  type ExpiryState,
+  type HeldCredential,
+  type IdentityTree,
+} from '../services/identity-tree.js';
+import type { ServiceRegistration } from '../services/registration.js';
 
 /**
  * List all identities command
@@ -9,24 +29,49 @@ import { normalizeError, formatError } from '../utils/error-handler.js';
 export function listCommand(parent: Command): void {
   parent.command('list')
     .description('List all identities in the keystore')
+    .option('--type <type>', 'Only owners or agents (owner, agent)')
+    .option('--owner <did>', 'Only agents of this owner')
+    .option('--label <selectors...>', 'Only identities matching all selectors: key=value, key!=value or key')
+    .option('--sort <field>', 'Sort by name, created or type (default: keystore order)')
+    .option('--tree', 'Group agents under their owners with the credentials held for each agent')
+    .option('--archived', 'List archived identities instead of active ones')
     .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
     .option('--no-encryption', 'Keystore is not encrypted')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        const keystore = await KeystoreManager.getKeystore(
-          options.store,
-          options.encryption === false
-        );
-        await keystore.init();
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        if (options.tree) {
+          if (options.type || options.archived) {
+            throw new InvalidArgumentError(`${options.type ? '--type' : '--archived'} cannot be combined with --tree`);
+          }
+          const tree = await getIdentityTree(
+            { owner: options.owner, labels: options.label, sort: options.sort },
+            { store: options.store, noEncryption: options.encryption === false }
+          );
+          console.log(options.json ? renderOutput(tree) : formatIdentityTree(tree));
+          return;
+        }
 
-        const identities = await keystore.listIdentities();
+        const identities = await listIdentities(
+          {
+            type: options.type,
+            owner: options.owner,
+            labels: options.label,
+            sort: options.sort,
+            archived: options.archived,
+          },
+          { store: options.store, noEncryption: options.encryption === false }
+        );
 
         if (options.json) {
-          console.log(outputJson(identities));
+          console.log(renderOutput(identities));
         } else {
           if (identities.length === 0) {
-            console.log('No identities found.');
+            console.log(options.archived ? 'No archived identities found.' : 'No identities found.');
             return;
           }
 
@@ -35,17 +80,31 @@ export function listCommand(parent: Command): void {
           for (const identity of identities) {
             console.log(`${identity.type.toUpperCase().padEnd(7)} ${identity.name}`);
             console.log(`         DID: ${formatDid(identity.did)}`);
+            console.log(`         Key Type: ${keyTypeOf(identity)}`);
             console.log(`         Created: ${formatDate(identity.createdAt)}`);
             if (identity.ownerDid) {
               console.log(`         Owner: ${formatDid(identity.ownerDid)}`);
             }
+            const labels = labelsOf(identity);
+            if (Object.keys(labels).length > 0) {
+              console.log(`         Labels: ${formatLabels(labels)}`);
+            }
+            const description = descriptionOf(identity);
+            if (description) {
+              console.log(`         Description: ${description}`);
+            }
+            const archive = archiveOf(identity);
+            if (archive) {
+              console.log(`         Archived: ${formatDate(archive.archivedAt)}`);
+              console.log(`         ${formatRestoreDeadline(archive)}`);
+            }
             console.log();
           }
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -62,29 +121,38 @@ export function inspectCommand(parent: Command): void {
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        const keystore = await KeystoreManager.getKeystore(
-          options.store,
-          options.encryption === false
-        );
-        await keystore.init();
-
-        const identity = await keystore.getIdentity(options.did);
-
-        if (!identity) {
-          throw new Error(`Identity not found: ${options.did}`);
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
         }
 
+        const identity = await getIdentity(options.did, {
+          store: options.store,
+          noEncryption: options.encryption === false,
+        });
+
+        const registrations =
+          (identity as { registrations?: ServiceRegistration[] }).registrations || [];
+        const labels = labelsOf(identity);
+        const description = descriptionOf(identity);
+        const updatedAt = (identity as { updatedAt?: string }).updatedAt;
+        const archived = archiveOf(identity);
         const output = {
           did: identity.did,
-          kid: `${identity.did}#${identity.did.split(':')[2]}`,
+          kid: keyIdFor(identity.did),
           name: identity.name,
           type: identity.type,
+          keyType: keyTypeOf(identity),
           createdAt: identity.createdAt,
+          ...(updatedAt && { updatedAt }),
           ...(identity.ownerDid && { ownerDid: identity.ownerDid }),
+          ...(Object.keys(labels).length > 0 && { labels }),
+          ...(description && { description }),
+          ...(registrations.length > 0 && { registrations }),
+          ...(archived && { archived }),
         };
 
         if (options.json) {
-          console.log(outputJson(output));
+          console.log(renderOutput(output));
         } else {
           console.log('\nIdentity Details:');
           console.log('─'.repeat(60));
@@ -92,56 +160,344 @@ export function inspectCommand(parent: Command): void {
           console.log(`Type       : ${output.type}`);
           console.log(`DID        : ${output.did}`);
           console.log(`Key ID     : ${output.kid}`);
+          console.log(`Key Type   : ${output.keyType}`);
           console.log(`Created    : ${formatDate(output.createdAt)}`);
+          if (output.updatedAt) {
+            console.log(`Updated    : ${formatDate(output.updatedAt)}`);
+          }
           if (output.ownerDid) {
             console.log(`Owner DID  : ${output.ownerDid}`);
           }
+          if (output.labels) {
+            console.log(`Labels     : ${formatLabels(output.labels)}`);
+          }
+          if (output.description) {
+            console.log(`Description: ${output.description}`);
+          }
+          if (output.archived) {
+            console.log(`Archived   : ${formatDate(output.archived.archivedAt)}`);
+            console.log(`             ${formatRestoreDeadline(output.archived)}`);
+          }
+          for (const registration of registrations) {
+            const serviceId = registration.serviceId ? ` (${registration.serviceId})` : '';
+            console.log(`Registered : ${registration.service}${serviceId} on ${formatDate(registration.registeredAt)}`);
+          }
           console.log('─'.repeat(60) + '\n');
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
 
 /**
- * Delete an identity command
+ * Update an identity's name, labels or description command
+ */
+export function updateCommand(parent: Command): void {
+  parent.command('update')
+    .description("Rename, relabel or re-describe an identity (its DID and keys don't change)")
+    .requiredOption('--did <did>', 'DID to update')
+    .option('-n, --name <name>', 'New name')
+    .option('--description <text>', 'New description ("" removes it)')
+    .option('--label <labels...>', 'Labels to add or change as key=value')
+    .option('--remove-label <keys...>', 'Label keys to remove')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        const identity = await updateIdentity(
+          {
+            did: options.did,
+            name: options.name,
+            description: options.description,
+            labels: parseLabels(options.label),
+            removeLabels: options.removeLabel,
+          },
+          { store: options.store, noEncryption: options.encryption === false }
+        );
+
+        if (options.json) {
+          console.log(renderOutput(identity));
+        } else {
+          const labels = labelsOf(identity);
+          const description = descriptionOf(identity);
+          console.log(`✓ Identity updated: ${identity.name} (${formatDid(identity.did)})`);
+          const labelText = Object.keys(labels).length > 0 ? formatLabels(labels) : '(none)';
+          console.log(`  Labels:      ${labelText}`);
+          console.log(`  Description: ${description ?? '(none)'}`);
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Delete (or archive) an identity command
  */
 export function deleteCommand(parent: Command): void {
   parent.command('delete')
-    .description('Delete an identity from the keystore')
+    .description('Delete an identity from the keystore, or archive it for later restore')
     .requiredOption('--did <did>', 'DID to delete')
+    .option('--cascade', "Also delete the owner's agents and credentials issued by or to deleted DIDs")
+    .option('--orphan', 'Delete the owner but keep its agents (they become orphans)')
+    .option('--archive', 'Archive instead of deleting (restorable with agent-did restore)')
+    .option('--grace-days <days>', 'Days an archived identity can be restored (default: 30)')
     .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
     .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--yes', 'Confirm deletion without prompt')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        const keystore = await KeystoreManager.getKeystore(
-          options.store,
-          options.encryption === false
+        if (!options.yes) {
+          throw new InvalidArgumentError('Deletion requires --yes flag to confirm');
+        }
+
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        const result = await deleteIdentity(
+          {
+            did: options.did,
+            cascade: options.cascade,
+            orphan: options.orphan,
+            archive: options.archive,
+            graceDays: options.graceDays !== undefined ? Number(options.graceDays) : undefined,
+          },
+          { store: options.store, noEncryption: options.encryption === false }
         );
-        await keystore.init();
 
-        // Verify identity exists
-        const identity = await keystore.getIdentity(options.did);
-        if (!identity) {
-          throw new Error(`Identity not found: ${options.did}`);
+        if (options.json) {
+          console.log(renderOutput({ success: true, did: options.did, ...result }));
+          return;
+        }
+
+        const verb = result.archived ? 'archived' : 'deleted';
+        for (const identity of result.identities) {
+          console.log(`✓ Identity ${verb}: ${identity.name} (${formatDid(identity.did)})`);
+        }
+        if (result.credentials.length > 0) {
+          console.log(`✓ ${result.credentials.length} credential(s) deleted`);
+        }
+        if (result.orphaned.length > 0) {
+          console.log(`  ${result.orphaned.length} agent(s) left without an owner:`);
+          for (const did of result.orphaned) {
+            console.log(`    ${formatDid(did)}`);
+          }
+        }
+        if (result.archived && result.purgeAfter) {
+          console.log(`  Restore with: agent-did restore --did ${options.did}`);
+          console.log(`  Restorable until ${formatDate(result.purgeAfter)}`);
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Restore an archived identity command
+ */
+export function restoreCommand(parent: Command): void {
+  parent.command('restore')
+    .description('Restore an archived identity (and agents archived with it) within its grace period')
+    .requiredOption('--did <did>', 'DID to restore')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
         }
 
-        // Delete the identity
-        await keystore.deleteIdentity(options.did);
+        const restored = await restoreIdentity(options.did, {
+          store: options.store,
+          noEncryption: options.encryption === false,
+        });
 
         if (options.json) {
-          console.log(outputJson({ success: true, did: options.did }));
+          console.log(renderOutput({ success: true, did: options.did, identities: restored }));
         } else {
-          console.log(`✓ Identity deleted: ${identity.name} (${formatDid(options.did)})`);
+          for (const identity of restored) {
+            console.log(`✓ Identity restored: ${identity.name} (${formatDid(identity.did)})`);
+          }
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Purge archived identities past their grace period command
+ */
+export function purgeCommand(parent: Command): void {
+  parent.command('purge')
+    .description('Permanently delete archived identities whose grace period has ended')
+    .option('--dry-run', 'Show what would be deleted without deleting it')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--yes', 'Confirm deletion without prompt')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (!options.yes && !options.dryRun) {
+          throw new InvalidArgumentError('Purging requires --yes flag to confirm (or --dry-run)');
         }
+
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        const result = await purgeArchivedIdentities(
+          { dryRun: options.dryRun },
+          { store: options.store, noEncryption: options.encryption === false }
+        );
+
+        if (options.json) {
+          console.log(renderOutput(result));
+          return;
+        }
+
+        if (result.identities.length === 0) {
+          console.log('No archived identities past their grace period.');
+          return;
+        }
+        const prefix = result.dryRun ? 'Would delete' : '✓ Deleted';
+        for (const identity of result.identities) {
+          console.log(`${prefix} identity: ${identity.name} (${formatDid(identity.did)})`);
+        }
+        console.log(`${prefix} ${result.credentials.length} credential(s)`);
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
+
+/**
+ * How `list --tree` describes each expiry state
+ */
+const EXPIRY_LABELS: Record<ExpiryState, string> = {
+  none: 'no expiry',
+  active: 'expires',
+  expiring: '⚠ expires',
+  expired: '✗ expired',
+};
+
+/**
+ * Helper: Render the owner/agent hierarchy as an indented tree
+ */
+function formatIdentityTree(tree: IdentityTree): string {
+  if (tree.owners.length === 0 && tree.orphans.length === 0) {
+    return 'No identities found.';
+  }
+
+  const names = new Map<string, string>(
+    [...tree.owners, ...tree.orphans, ...tree.owners.flatMap((owner) => owner.agents)].map(
+      (node) => [node.did, node.name]
+    )
+  );
+  const lines: string[] = [''];
+
+  for (const owner of tree.owners) {
+    lines.push(`OWNER   ${owner.name}${labelSuffix(owner.labels)}`);
+    lines.push(`        ${formatDid(owner.did)}`);
+    if (owner.agents.length === 0) {
+      lines.push('        (no agents)');
+    }
+    owner.agents.forEach((agent, index) => {
+      lines.push(...formatAgentNode(agent, index === owner.agents.length - 1, names));
+    });
+    lines.push('');
+  }
+
+  if (tree.orphans.length > 0) {
+    lines.push('ORPHANED AGENTS (owner missing or archived)');
+    tree.orphans.forEach((agent, index) => {
+      lines.push(...formatAgentNode(agent, index === tree.orphans.length - 1, names));
+    });
+    lines.push('');
+  }
+
+  const { summary } = tree;
+  lines.push(
+    `${summary.owners} owner(s), ${summary.agents} agent(s), ${summary.orphans} orphaned, ` +
+      `${summary.credentials} credential(s): ${summary.expired} expired, ` +
+      `${summary.expiring} expiring soon, ${summary.revoked} revoked`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Helper: Render an agent and its credentials as tree branches
+ */
+function formatAgentNode(agent: AgentNode, last: boolean, names: Map<string, string>): string[] {
+  const branch = last ? '└── ' : '├── ';
+  const indent = last ? '    ' : '│   ';
+  const lines = [
+    `${branch}AGENT ${agent.name}${labelSuffix(agent.labels)}`,
+    `${indent}      ${formatDid(agent.did)}`,
+  ];
+  if (agent.ownerDid && !names.has(agent.ownerDid)) {
+    lines.push(`${indent}      Owner: ${formatDid(agent.ownerDid)} (missing or archived)`);
+  }
+
+  if (agent.credentials.length === 0) {
+    lines.push(`${indent}└── (no credentials)`);
+  }
+  agent.credentials.forEach((credential, index) => {
+    const credentialBranch = index === agent.credentials.length - 1 ? '└── ' : '├── ';
+    lines.push(`${indent}${credentialBranch}${formatHeldCredential(credential, names)}`);
+  });
+  return lines;
+}
+
+/**
+ * Helper: One-line credential summary (kind, scopes, issuer, expiry state)
+ */
+function formatHeldCredential(credential: HeldCredential, names: Map<string, string>): string {
+  const issuer = credential.issuer
+    ? names.get(credential.issuer) ?? formatDid(credential.issuer, 30)
+    : 'unknown issuer';
+  const scopes = credential.scopes ? ` [${credential.scopes.join(', ')}]` : '';
+  const delegated = credential.delegated ? ' (delegated)' : '';
+  const expiry =
+    credential.expiry === 'none' || !credential.expiresAt
+      ? 'no expiry'
+      : `${EXPIRY_LABELS[credential.expiry]} ${formatDate(credential.expiresAt)}`;
+  const revoked = credential.revoked ? ', ✗ REVOKED' : '';
+  return `${credential.kind}${scopes} from ${issuer}${delegated}, ${expiry}${revoked}`;
+}
+
+/**
+ * Helper: When an archived identity can be restored until (or that it no longer can)
+ */
+function formatRestoreDeadline(archive: IdentityArchive): string {
+  return isArchiveExpired(archive)
+    ? `Grace period ended ${formatDate(archive.purgeAfter)} (purge pending)`
+    : `Restorable until ${formatDate(archive.purgeAfter)}`;
+}
+
+/**
+ * Helper: ` (key=value, ...)` for labelled identities
+ */
+function labelSuffix(labels?: Record<string, string>): string {
+  return labels ? ` (${formatLabels(labels)})` : '';
+}
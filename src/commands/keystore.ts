@@ -0,0 +1,456 @@
+import type { Command } from 'commander';
+import type { Keystore } from 'agent-did';
+import * as fs from 'fs';
+import * as path from 'path';
+import KeystoreManager from '../utils/keystore-manager.js';
+import { renderOutput } from '../utils/output-formatter.js';
+import {
+  AgentDidError,
+  normalizeError,
+  formatError,
+  AlreadyExistsError,
+  InvalidArgumentError,
+  MissingKeyError,
+  NotFoundError,
+  PassphraseError,
+} from '../utils/error-handler.js';
+import { extractJwt, summarizeCredential } from '../utils/credentials.js';
+import {
+  encryptBundle,
+  decryptBundle,
+  getBackupPassphrase,
+  type BackupContents,
+  type BackupIdentity,
+  type BackupStatusList,
+} from '../utils/backup-bundle.js';
+import { rekeyKeystore } from '../utils/keystore-rekey.js';
+import { readPassphraseFile } from '../utils/passphrase.js';
+import { replaceIdentity } from '../utils/identity-store.js';
+import { appendAuditEntry, auditDigest } from '../utils/audit-log.js';
+import { signCredentialAs, getSigningKeyPair } from '../utils/signing.js';
+import {
+  loadStatusList,
+  mergeStatusLists,
+  saveStatusList,
+  buildStatusListCredential,
+  statusListCredentialPath,
+  withStatusListLock,
+  type StatusListState,
+} from '../utils/status-list.js';
+
+const CONFLICT_POLICIES = ['skip', 'overwrite', 'fail'];
+
+/**
+ * Per-category import counters
+ */
+interface ImportCounts {
+  added: number;
+  overwritten: number;
+  skipped: number;
+}
+
+/**
+ * Status list import counters (lists with the same URL are merged)
+ */
+interface StatusListImportCounts extends ImportCounts {
+  merged: number;
+}
+
+/**
+ * Export keystore to an encrypted backup bundle command
+ */
+export function exportCommand(parent: Command): void {
+  parent.command('export')
+    .description('Export identities, keys, credentials and status lists to an encrypted backup bundle')
+    .requiredOption('--out <file>', 'Output bundle file')
+    .option('--did <dids...>', 'Only export these identities')
+    .option('--owner <did>', 'Only export this owner and its agents')
+    .option('--no-credentials', 'Do not include stored credentials')
+    .option('--backup-passphrase-file <path>', 'File containing the backup passphrase')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const backupPassphrase = getBackupPassphrase(
+          options.backupPassphraseFile ? readPassphraseFile(options.backupPassphraseFile) : undefined
+        );
+
+        const keystore = await KeystoreManager.getKeystore(
+          options.store,
+          options.encryption === false
+        );
+        await keystore.init();
+
+        // Select identities
+        const identities = await keystore.listIdentities();
+        let selected = identities;
+
+        if (options.owner) {
+          const owner = identities.find((identity) => identity.did === options.owner);
+          if (!owner) {
+            throw new NotFoundError(`Owner identity not found: ${options.owner}`);
+          }
+          if (owner.type !== 'owner') {
+            throw new AgentDidError(
+              `Specified DID is not an owner: ${options.owner}`,
+              'INVALID_IDENTITY_TYPE'
+            );
+          }
+          selected = identities.filter(
+            (identity) => identity.did === options.owner || identity.ownerDid === options.owner
+          );
+        }
+
+        if (options.did) {
+          for (const did of options.did as string[]) {
+            if (!identities.some((identity) => identity.did === did)) {
+              throw new NotFoundError(`Identity not found: ${did}`);
+            }
+          }
+          selected = selected.filter((identity) => options.did.includes(identity.did));
+        }
+
+        // Collect key pairs
+        const backupIdentities: BackupIdentity[] = [];
+        for (const identity of selected) {
+          const keyPair = await keystore.getKeyPair(identity.did);
+          if (!keyPair) {
+            throw new MissingKeyError(identity.did);
+          }
+          backupIdentities.push({
+            metadata: { ...identity },
+            publicKey: Buffer.from(keyPair.publicKey).toString('base64'),
+            privateKey: Buffer.from(keyPair.privateKey).toString('base64'),
+          });
+        }
+
+        // Collect credentials (only those involving selected identities for a subset)
+        const isSubset = selected.length !== identities.length;
+        const selectedDids = new Set(selected.map((identity) => identity.did));
+        const credentials =
+          options.credentials === false
+            ? []
+            : (await keystore.listCredentials()).filter((item) => {
+                if (!isSubset) return true;
+                const jwt = extractJwt(item.data);
+                const summary = jwt ? summarizeCredential(jwt) : {};
+                return (
+                  (summary.issuer && selectedDids.has(summary.issuer)) ||
+                  (summary.subject && selectedDids.has(summary.subject))
+                );
+              });
+
+        // Collect the status lists of selected issuers, so restored issuers keep revocations
+        // and do not hand out indices that earlier credentials already use
+        const storePath = KeystoreManager.getStorePath(options.store);
+        const statusLists: BackupStatusList[] = [];
+        for (const identity of selected) {
+          const state = loadStatusList(storePath, identity.did);
+          if (state) {
+            statusLists.push({
+              state,
+              jwt: fs.readFileSync(statusListCredentialPath(storePath, identity.did), 'utf8'),
+            });
+          }
+        }
+
+        const contents: BackupContents = {
+          createdAt: new Date().toISOString(),
+          identities: backupIdentities,
+          credentials: credentials.map((item) => ({ id: item.id, data: item.data })),
+          statusLists,
+        };
+
+        const outputPath = path.resolve(options.out);
+        fs.writeFileSync(outputPath, encryptBundle(contents, backupPassphrase), {
+          encoding: 'utf8',
+          mode: 0o600,
+        });
+
+        const output = {
+          file: outputPath,
+          identities: backupIdentities.length,
+          credentials: contents.credentials.length,
+          statusLists: statusLists.length,
+        };
+
+        if (options.json) {
+          console.log(renderOutput(output));
+        } else {
+          console.log(`✓ Keystore exported to: ${outputPath}`);
+          console.log(`  Identities  : ${output.identities}`);
+          console.log(`  Credentials : ${output.credentials}`);
+          console.log(`  Status lists: ${output.statusLists}`);
+          console.log('IMPORTANT: The bundle contains private keys. Keep the backup passphrase safe.');
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Import an encrypted backup bundle into the keystore command
+ */
+export function importCommand(parent: Command): void {
+  parent.command('import')
+    .description('Import identities, keys, credentials and status lists from an encrypted backup bundle')
+    .requiredOption('--file <file>', 'Backup bundle file')
+    .option(
+      '--on-conflict <policy>',
+      'Conflict policy: skip, overwrite or fail (default: skip)',
+      'skip'
+    )
+    .option('--backup-passphrase-file <path>', 'File containing the backup passphrase')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (!CONFLICT_POLICIES.includes(options.onConflict)) {
+          throw new InvalidArgumentError(
+            `Invalid conflict policy: ${options.onConflict} (expected ${CONFLICT_POLICIES.join(', ')})`
+          );
+        }
+
+        const filePath = path.resolve(options.file);
+        if (!fs.existsSync(filePath)) {
+          throw new NotFoundError(`File not found: ${filePath}`);
+        }
+
+        const backupPassphrase = getBackupPassphrase(
+          options.backupPassphraseFile ? readPassphraseFile(options.backupPassphraseFile) : undefined
+        );
+        const contents = decryptBundle(fs.readFileSync(filePath, 'utf8'), backupPassphrase);
+
+        const keystore = await KeystoreManager.getKeystore(
+          options.store,
+          options.encryption === false
+        );
+        await keystore.init();
+
+        const storePath = KeystoreManager.getStorePath(options.store);
+        const existingDids = new Set((await keystore.listIdentities()).map((i) => i.did));
+        const existingCredentialIds = new Set(
+          (await keystore.listCredentials()).map((item) => item.id)
+        );
+        const statusLists = contents.statusLists ?? [];
+
+        // Fail before changing anything (a status list published at the same URL is merged)
+        if (options.onConflict === 'fail') {
+          const conflicts = [
+            ...contents.identities
+              .map((identity) => identity.metadata.did)
+              .filter((did) => existingDids.has(did)),
+            ...contents.credentials
+              .map((credential) => credential.id)
+              .filter((id) => existingCredentialIds.has(id)),
+            ...statusLists
+              .filter(({ state }) => {
+                const existing = loadStatusList(storePath, state.issuer);
+                return existing && existing.url !== state.url;
+              })
+              .map(({ state }) => `status list of ${state.issuer}`),
+          ];
+          if (conflicts.length > 0) {
+            throw new AlreadyExistsError(
+              `Import conflicts with existing entries: ${conflicts.join(', ')}`
+            );
+          }
+        }
+
+        const summary = {
+          identities: { added: 0, overwritten: 0, skipped: 0 } as ImportCounts,
+          credentials: { added: 0, overwritten: 0, skipped: 0 } as ImportCounts,
+          statusLists: { added: 0, merged: 0, overwritten: 0, skipped: 0 } as StatusListImportCounts,
+          changes: [] as Array<{ kind: string; id: string; action: string }>,
+        };
+
+        for (const identity of contents.identities) {
+          const did = identity.metadata.did;
+          const keyPair = {
+            publicKey: new Uint8Array(Buffer.from(identity.publicKey, 'base64')),
+            privateKey: new Uint8Array(Buffer.from(identity.privateKey, 'base64')),
+          };
+
+          if (existingDids.has(did)) {
+            if (options.onConflict === 'skip') {
+              summary.identities.skipped++;
+              summary.changes.push({ kind: 'identity', id: did, action: 'skipped' });
+              continue;
+            }
+            await replaceIdentity(keystore, identity.metadata, keyPair);
+            recordImportedIdentity(storePath, identity);
+            summary.identities.overwritten++;
+            summary.changes.push({ kind: 'identity', id: did, action: 'overwritten' });
+          } else {
+            await keystore.storeIdentity(identity.metadata, keyPair);
+            recordImportedIdentity(storePath, identity);
+            summary.identities.added++;
+            summary.changes.push({ kind: 'identity', id: did, action: 'added' });
+          }
+        }
+
+        for (const credential of contents.credentials) {
+          if (existingCredentialIds.has(credential.id)) {
+            if (options.onConflict === 'skip') {
+              summary.credentials.skipped++;
+              summary.changes.push({ kind: 'credential', id: credential.id, action: 'skipped' });
+              continue;
+            }
+            await keystore.deleteCredential(credential.id);
+            await keystore.storeCredential(credential.id, credential.data);
+            summary.credentials.overwritten++;
+            summary.changes.push({ kind: 'credential', id: credential.id, action: 'overwritten' });
+          } else {
+            await keystore.storeCredential(credential.id, credential.data);
+            summary.credentials.added++;
+            summary.changes.push({ kind: 'credential', id: credential.id, action: 'added' });
+          }
+        }
+
+        for (const { state, jwt } of statusLists) {
+          const action = await withStatusListLock(storePath, state.issuer, async () => {
+            const existing = loadStatusList(storePath, state.issuer);
+            if (!existing) {
+              saveStatusList(storePath, state, jwt);
+              return 'added';
+            }
+            if (existing.url !== state.url) {
+              if (options.onConflict === 'skip') return 'skipped';
+              // The imported URL wins, but local revocations and used indices are kept
+              if (!mergeStatusLists(state, existing)) {
+                saveStatusList(storePath, state, jwt);
+              } else {
+                saveStatusList(storePath, state, await signStatusList(keystore, state));
+              }
+              return 'overwritten';
+            }
+            if (!mergeStatusLists(existing, state)) return 'skipped';
+
+            saveStatusList(storePath, existing, await signStatusList(keystore, existing));
+            return 'merged';
+          });
+          summary.statusLists[action]++;
+          summary.changes.push({ kind: 'status-list', id: state.issuer, action });
+        }
+
+        if (options.json) {
+          console.log(renderOutput(summary));
+        } else {
+          console.log(`✓ Backup imported from: ${filePath}\n`);
+          console.log(
+            `Identities  : ${summary.identities.added} added, ` +
+              `${summary.identities.overwritten} overwritten, ${summary.identities.skipped} skipped`
+          );
+          console.log(
+            `Credentials : ${summary.credentials.added} added, ` +
+              `${summary.credentials.overwritten} overwritten, ${summary.credentials.skipped} skipped`
+          );
+          console.log(
+            `Status lists: ${summary.statusLists.added} added, ${summary.statusLists.merged} merged, ` +
+              `${summary.statusLists.overwritten} overwritten, ${summary.statusLists.skipped} skipped`
+          );
+          if (summary.changes.length > 0) {
+            console.log('');
+            for (const change of summary.changes) {
+              console.log(`  ${change.action.padEnd(11)} ${change.kind.padEnd(11)} ${change.id}`);
+            }
+          }
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Re-encrypt the keystore under a new passphrase command
+ */
+export function rekeyCommand(parent: Command): void {
+  parent.command('rekey')
+    .description('Re-encrypt all private keys under a new passphrase (or change encryption mode)')
+    .option('--new-passphrase-file <path>', 'File containing the new passphrase')
+    .option('--remove-encryption', 'Store keys unencrypted after rekey (NOT RECOMMENDED)')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is currently not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        // Resolve new passphrase: file > AGENT_DID_NEW_PASSPHRASE > error
+        let newPassphrase: string | null = null;
+        if (!options.removeEncryption) {
+          newPassphrase =
+            (options.newPassphraseFile ? readPassphraseFile(options.newPassphraseFile) : undefined) ??
+            process.env.AGENT_DID_NEW_PASSPHRASE ??
+            null;
+          if (!newPassphrase) {
+            throw new PassphraseError(
+              'New passphrase required. Set AGENT_DID_NEW_PASSPHRASE, use --new-passphrase-file, ' +
+                'or --remove-encryption.',
+              'MISSING_PASSPHRASE'
+            );
+          }
+        }
+
+        const storePath = KeystoreManager.getStorePath(options.store);
+        const keystore = await KeystoreManager.getKeystore(
+          options.store,
+          options.encryption === false
+        );
+
+        if (!(await keystore.exists())) {
+          throw new NotFoundError(`Keystore does not exist: ${storePath}`);
+        }
+
+        const summary = await rekeyKeystore(storePath, keystore, newPassphrase);
+        KeystoreManager.clearCache();
+
+        if (options.json) {
+          console.log(renderOutput({ success: true, store: storePath, ...summary }));
+        } else {
+          console.log(`✓ Keystore re-keyed: ${storePath}`);
+          console.log(`  Identities : ${summary.identities}`);
+          console.log(`  Credentials: ${summary.credentials}`);
+          console.log(`  Encryption : ${summary.encrypted ? 'enabled' : 'DISABLED'}`);
+          if (summary.encrypted) {
+            console.log('Update AGENT_DID_PASSPHRASE to the new passphrase.');
+          } else {
+            console.log('\n⚠️  WARNING: Keys are now stored UNENCRYPTED on disk!');
+          }
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Helper: Record an imported key pair in the audit log
+ */
+function recordImportedIdentity(storePath: string, identity: BackupIdentity): void {
+  appendAuditEntry(storePath, {
+    operation: 'identity.create',
+    did: identity.metadata.did,
+    target: typeof identity.metadata.ownerDid === 'string' ? identity.metadata.ownerDid : undefined,
+    digest: auditDigest(Buffer.from(identity.publicKey, 'base64')),
+  });
+}
+
+/**
+ * Helper: Sign a status list credential with its issuer's key
+ */
+async function signStatusList(keystore: Keystore, state: StatusListState): Promise<string> {
+  const keyPair = await getSigningKeyPair(keystore, state.issuer);
+  if (!keyPair) {
+    throw new MissingKeyError(state.issuer);
+  }
+  return signCredentialAs(state.issuer, buildStatusListCredential(state), keyPair);
+}
@@ -0,0 +1,74 @@
+import type { Command } from 'commander';
+import { renderOutput } from '../utils/output-formatter.js';
+import { normalizeError, formatError, InvalidArgumentError, EXIT_CODES } from '../utils/error-handler.js';
+import {
+  resolveDidWithMetadata,
+  getResolverOptions,
+  type KeyFormat,
+} from '../utils/did-resolver.js';
+
+const KEY_FORMATS: KeyFormat[] = ['Multikey', 'Ed25519VerificationKey2020'];
+
+/**
+ * Resolve a DID to its DID Document command
+ */
+export function resolveCommand(parent: Command): void {
+  parent.command('resolve')
+    .description('Resolve a DID to its DID Document')
+    .requiredOption('--did <did>', 'DID to resolve (did:key or did:web)')
+    .option(
+      '--key-format <format>',
+      'Verification method type for did:key: Multikey or Ed25519VerificationKey2020',
+      'Multikey'
+    )
+    .option('--resolver-url <url>', 'Base URL for resolving did:web documents')
+    .option('--json', 'Output the raw DID resolution result as JSON')
+    .action(async (options) => {
+      try {
+        if (!KEY_FORMATS.includes(options.keyFormat)) {
+          throw new InvalidArgumentError(
+            `Unsupported key format: ${options.keyFormat} (expected ${KEY_FORMATS.join(' or ')})`
+          );
+        }
+
+        const result = await resolveDidWithMetadata(
+          options.did,
+          getResolverOptions(options.resolverUrl),
+          options.keyFormat
+        );
+
+        if (options.json) {
+          console.log(renderOutput(result));
+          if (!result.didDocument) {
+            process.exit(EXIT_CODES.NOT_FOUND);
+          }
+          return;
+        }
+
+        if (!result.didDocument) {
+          console.error(`✗ Could not resolve DID: ${result.didResolutionMetadata.error}`);
+          if (result.didResolutionMetadata.message) {
+            console.error(`Reason: ${result.didResolutionMetadata.message}`);
+          }
+          process.exit(EXIT_CODES.NOT_FOUND);
+        }
+
+        const document = result.didDocument;
+        console.log('\nDID Document:');
+        console.log('─'.repeat(60));
+        console.log(`DID            : ${document.id}`);
+        for (const method of document.verificationMethod) {
+          console.log(`Key            : ${method.id} (${method.type})`);
+        }
+        for (const method of document.keyAgreement || []) {
+          console.log(`Key Agreement  : ${method.id} (${method.type})`);
+        }
+        console.log('─'.repeat(60) + '\n');
+        console.log(renderOutput(document));
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
@@ -0,0 +1,85 @@
+import type { Command } from 'commander';
+import { renderEvent } from '../utils/output-formatter.js';
+import { normalizeError, formatError, InvalidArgumentError } from '../utils/error-handler.js';
+import { createAuthServer, listen } from '../services/auth-server.js';
+
+/**
+ * Run the local challenge/verify authentication server command
+ */
+export function serveCommand(parent: Command): void {
+  parent.command('serve')
+    .description('Run a local HTTP server that issues challenges and verifies agent logins')
+    .option('--port <port>', 'Port to listen on (default: 8787)', '8787')
+    .option('--host <host>', 'Interface to bind (default: 127.0.0.1)', '127.0.0.1')
+    .option('--audience <audience>', 'Required audience in signed challenges')
+    .option('--domain <domain>', 'Required domain in signed challenges')
+    .option('--challenge-ttl <seconds>', 'Nonce lifetime in seconds (default: 300)', '300')
+    .option('--session-ttl <seconds>', 'Session token lifetime in seconds (default: 900)', '900')
+    .option('--max-challenges <count>', 'Maximum outstanding challenges before answering 429 (default: 1000)', '1000')
+    .option('--allow-did <dids...>', 'Only accept logins from these DIDs')
+    .option('--resolver-url <url>', 'Base URL for resolving did:web documents')
+    .option('--json', 'Output as JSON (one event per line)')
+    .action(async (options) => {
+      try {
+        const port = parseInt(options.port, 10);
+        const challengeTtl = parseInt(options.challengeTtl, 10);
+        const sessionTtl = parseInt(options.sessionTtl, 10);
+        const maxPendingChallenges = Number(options.maxChallenges);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new InvalidArgumentError(`Invalid port: ${options.port}`);
+        }
+        if (!(challengeTtl > 0) || !(sessionTtl > 0)) {
+          throw new InvalidArgumentError('--challenge-ttl and --session-ttl must be positive numbers of seconds');
+        }
+        if (!Number.isInteger(maxPendingChallenges) || maxPendingChallenges <= 0) {
+          throw new InvalidArgumentError('--max-challenges must be a positive integer');
+        }
+
+        const server = createAuthServer({
+          audience: options.audience,
+          domain: options.domain,
+          challengeTtl,
+          sessionTtl,
+          maxPendingChallenges,
+          allowedDids: options.allowDid,
+          resolverUrl: options.resolverUrl,
+          onEvent: (event) => {
+            const at = new Date().toISOString();
+            if (options.json) {
+              console.log(renderEvent({ at, ...event }));
+            } else if (event.type === 'rejected') {
+              console.log(`${at}  ✗ rejected  ${event.did ?? '-'}  ${event.reason}`);
+            } else {
+              console.log(`${at}  ✓ ${event.type.padEnd(9)} ${event.did ?? '-'}`);
+            }
+          },
+        });
+
+        const address = await listen(server, port, options.host);
+        const url = `http://${address.address.includes(':') ? `[${address.address}]` : address.address}:${address.port}`;
+
+        if (options.json) {
+          console.log(renderEvent({ listening: url, challengeTtl, sessionTtl }));
+        } else {
+          console.log(`✓ agent-did auth server listening on ${url}\n`);
+          console.log(`  POST ${url}/challenge  {"did"?}                        -> nonce`);
+          console.log(`  POST ${url}/verify     {"did","payload","signature"}   -> session token`);
+          console.log(`  GET  ${url}/session    Authorization: Bearer <token>`);
+          console.log(`  GET  ${url}/health`);
+          console.log('\nPress Ctrl+C to stop.\n');
+        }
+
+        // Stop cleanly on Ctrl+C / SIGTERM
+        const shutdown = () => {
+          server.close(() => process.exit(0));
+          server.closeAllConnections();
+        };
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
@@ -0,0 +1,219 @@
+import type { Command } from 'commander';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import KeystoreManager from '../utils/keystore-manager.js';
+import { renderOutput, renderEvent, formatDate } from '../utils/output-formatter.js';
+import {
+  AgentDidError,
+  normalizeError,
+  formatError,
+  AlreadyExistsError,
+  InvalidArgumentError,
+} from '../utils/error-handler.js';
+import { getPassphraseOptions } from '../utils/passphrase.js';
+import { startSigner, getDefaultSignerSocket, type SignerStatus } from '../services/signer.js';
+import { getSignerSocket, getSignerStatus, lockSigner } from '../services/signer-client.js';
+
+/**
+ * How long `signer start` waits for the background signer to answer
+ */
+const STARTUP_TIMEOUT_MS = 10_000;
+
+/**
+ * Start the signer daemon command
+ */
+export function startCommand(parent: Command): void {
+  parent.command('start')
+    .description('Unlock the keystore once and serve auth sign / vc issue requests on a Unix socket')
+    .option('--socket <path>', 'Socket path (default: <tmpdir>/agent-did-<uid>/signer.sock)')
+    .option('--allow-did <dids...>', 'Only sign as these DIDs (default: every identity in the keystore)')
+    .option('--idle-timeout <seconds>', 'Lock after this many seconds without signing, 0 = never (default: 900)', '900')
+    .option('--foreground', 'Stay in the foreground and log requests instead of detaching')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        const idleTimeout = Number(options.idleTimeout);
+        if (!Number.isInteger(idleTimeout) || idleTimeout < 0) {
+          throw new InvalidArgumentError('--idle-timeout must be a non-negative number of seconds');
+        }
+        const socket = path.resolve(options.socket || getDefaultSignerSocket());
+
+        if (!options.foreground) {
+          const status = await spawnDetachedSigner(socket);
+          if (options.json) {
+            console.log(renderOutput({ socket, log: `${socket}.log`, ...status }));
+          } else {
+            // ssh-agent style: eval "$(openclaw agent-did signer start)"
+            console.log(`AGENT_DID_SIGNER_SOCK=${socket}; export AGENT_DID_SIGNER_SOCK;`);
+            console.log(`echo "✓ agent-did signer running (pid ${status.pid}) for ${status.dids.length} DID(s)";`);
+          }
+          return;
+        }
+
+        const signer = await startSigner(socket, {
+          store: options.store,
+          noEncryption: options.encryption === false,
+          allowedDids: options.allowDid,
+          idleTimeout,
+          onEvent: (event) => {
+            const at = new Date().toISOString();
+            if (options.json) {
+              console.log(renderEvent({ at, ...event }));
+            } else if (event.type === 'locked') {
+              console.log(`${at}  ✓ locked    ${event.reason}`);
+            } else if (event.type === 'rejected') {
+              console.log(`${at}  ✗ rejected  ${event.op}  ${event.did ?? '-'}  ${event.reason}`);
+            } else {
+              console.log(`${at}  ✓ signed    ${event.op}  ${event.did ?? '-'}`);
+            }
+          },
+        });
+
+        // The keystore is unlocked; the passphrase is not needed anymore
+        delete process.env.AGENT_DID_PASSPHRASE;
+
+        const status = signer.status();
+        if (options.json) {
+          console.log(renderEvent({ listening: socket, ...status }));
+        } else {
+          console.log(`✓ agent-did signer listening on ${socket} (pid ${status.pid})\n`);
+          console.log(`  export AGENT_DID_SIGNER_SOCK=${socket}`);
+          console.log(`  DIDs: ${status.dids.join(', ')}`);
+          console.log(`  Idle timeout: ${idleTimeout > 0 ? `${idleTimeout}s` : 'never'}`);
+          console.log('\nPress Ctrl+C to lock and stop.\n');
+        }
+
+        // Lock cleanly on Ctrl+C / SIGTERM
+        process.once('SIGINT', () => void signer.lock('Stopped'));
+        process.once('SIGTERM', () => void signer.lock('Stopped'));
+
+        await signer.closed;
+        process.exit(0);
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Show signer daemon status command
+ */
+export function statusCommand(parent: Command): void {
+  parent.command('status')
+    .description('Show the state of the running signer')
+    .option('--socket <path>', 'Socket path (default: AGENT_DID_SIGNER_SOCK, then the default socket)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const socket = getSignerSocket(options.socket) || getDefaultSignerSocket();
+        const status = await getSignerStatus(socket);
+
+        if (options.json) {
+          console.log(renderOutput({ socket, ...status }));
+        } else {
+          console.log('\nSigner Status:');
+          console.log('─'.repeat(60));
+          console.log(`Socket     : ${socket}`);
+          console.log(`PID        : ${status.pid}`);
+          console.log(`Keystore   : ${status.store}`);
+          console.log(`Started    : ${formatDate(status.startedAt)}`);
+          console.log(`Locks at   : ${status.locksAt ? formatDate(status.locksAt) : 'never (no idle timeout)'}`);
+          console.log(`DIDs       : ${status.dids.join('\n             ')}`);
+          console.log('─'.repeat(60) + '\n');
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Lock and stop the signer daemon command
+ */
+export function stopCommand(parent: Command): void {
+  parent.command('stop')
+    .description('Lock the running signer (it forgets the keystore and exits)')
+    .option('--socket <path>', 'Socket path (default: AGENT_DID_SIGNER_SOCK, then the default socket)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const socket = getSignerSocket(options.socket) || getDefaultSignerSocket();
+        await lockSigner(socket);
+
+        if (options.json) {
+          console.log(renderOutput({ success: true, socket }));
+        } else {
+          console.log(`✓ Signer on ${socket} locked and stopped`);
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Helper: Re-run this command in the foreground as a detached process (output
+ * goes to `<socket>.log`) and wait until the signer answers
+ */
+async function spawnDetachedSigner(socket: string): Promise<SignerStatus> {
+  // The background process does not inherit extra descriptors
+  if (getPassphraseOptions().fd !== undefined) {
+    throw new InvalidArgumentError(
+      '--passphrase-fd cannot be passed to a background signer. ' +
+        'Use --passphrase-file, the passphraseCommand plugin setting or --foreground.'
+    );
+  }
+
+  const running = await getSignerStatus(socket).catch(() => undefined);
+  if (running) {
+    throw new AlreadyExistsError(`A signer is already running on ${socket} (pid ${running.pid})`);
+  }
+
+  const logFile = `${socket}.log`;
+  const logOffset = fs.existsSync(logFile) ? fs.statSync(logFile).size : 0;
+  const logFd = fs.openSync(logFile, 'a', 0o600);
+
+  const child = spawn(
+    process.execPath,
+    [...process.execArgv, ...process.argv.slice(1), '--foreground', '--socket', socket],
+    { detached: true, stdio: ['ignore', logFd, logFd] }
+  );
+  fs.closeSync(logFd);
+
+  let exitCode: number | null | undefined;
+  child.once('exit', (code) => (exitCode = code));
+
+  try {
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      if (exitCode !== undefined) {
+        process.stderr.write(fs.readFileSync(logFile).subarray(logOffset).toString('utf8'));
+        throw new AgentDidError(`Signer exited during startup (log: ${logFile})`, 'SIGNER_UNAVAILABLE');
+      }
+      try {
+        return await getSignerStatus(socket);
+      } catch (error) {
+        if (Date.now() > deadline) {
+          child.kill();
+          throw error;
+        }
+      }
+    }
+  } finally {
+    child.unref();
+  }
+}
@@ -1,17 +1,61 @@
 import type { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import {
-  createOwnershipCredential,
-  createCapabilityCredential,
-  signCredential,
-  verifyCredential,
-  decodeCredential,
-  type JWTPayload,
-} from 'agent-did';
+import { decodeCredential, type JWTPayload } from 'agent-did';
 import KeystoreManager from '../utils/keystore-manager.js';
-import { outputJson, formatDate } from '../utils/output-formatter.js';
-import { normalizeError, formatError } from '../utils/error-handler.js';
+import { renderOutput, formatDate } from '../utils/output-formatter.js';
+import {
+  normalizeError,
+  formatError,
+  exitCodeFor,
+  EXIT_CODES,
+  InvalidArgumentError,
+  MissingKeyError,
+  NotFoundError,
+} from '../utils/error-handler.js';
+import { createPresentation } from '../utils/presentation.js';
+import { signCredentialAs, getSigningKeyPair } from '../utils/signing.js';
+import {
+  getSignerSocketFor,
+  issueOwnershipWithSigner,
+  issueCapabilityWithSigner,
+} from '../services/signer-client.js';
+import { verifyCredentialJwt } from '../utils/verification.js';
+import {
+  issueOwnership,
+  issueCapability,
+  verifyCredentialFile,
+  verifyPresentation,
+  deleteCredential,
+} from '../services/credentials.js';
+import { authorizeFile } from '../services/authorization.js';
+import { verifyTrustBundle } from '../services/trust-bundle.js';
+import {
+  credentialIdOf,
+  storeJwtCredential,
+  findStoredJwt,
+  readJwtFile,
+  extractJwt,
+  summarizeCredential,
+  type CredentialSummary,
+} from '../utils/credentials.js';
+import {
+  loadStatusList,
+  revokeStatusIndex,
+  buildStatusListCredential,
+  saveStatusList,
+  statusListCredentialPath,
+  withStatusListLock,
+  type BitstringStatusListEntry,
+} from '../utils/status-list.js';
+import { appendAuditEntry, auditDigest } from '../utils/audit-log.js';
+
+interface ImportResult {
+  file: string;
+  id?: string;
+  imported: boolean;
+  reason?: string;
+}
 
 /**
  * Issue ownership credential command
@@ -19,50 +63,33 @@ import { normalizeError, formatError } from '../utils/error-handler.js';
 export function issueOwnershipCommand(parent: Command): void {
   parent.command('ownership')
     .description('Issue an ownership credential')
-    .requiredOption('--issuer <did>', 'Issuer DID (owner)')
+    .option('--issuer <did>', 'Issuer DID (owner, default: configured default owner)')
     .requiredOption('--subject <did>', 'Subject DID (agent)')
+    .option('--status-list-url <url>', 'URL where the issuer publishes its status list credential (default: AGENT_DID_STATUS_LIST_BASE_URL/<issuer>.jwt)')
     .option('--out <file>', 'Output file (default: stdout)')
+    .option('--no-save', 'Do not store the issued credential in the keystore')
+    .option('--no-signer', 'Sign locally even when AGENT_DID_SIGNER_SOCK is set')
     .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
     .option('--no-encryption', 'Keystore is not encrypted')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        const keystore = await KeystoreManager.getKeystore(
-          options.store,
-          options.encryption === false
-        );
-        await keystore.init();
-
-        // Get issuer identity
-        const issuerIdentity = await keystore.getIdentity(options.issuer);
-        if (!issuerIdentity) {
-          throw new Error(`Issuer identity not found: ${options.issuer}`);
-        }
-        if (issuerIdentity.type !== 'owner') {
-          throw new Error(`Issuer must be an owner: ${options.issuer}`);
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
         }
 
-        // Get subject identity (optional - might not be in keystore)
-        const subjectIdentity = await keystore.getIdentity(options.subject);
+        const input = {
+          issuer: options.issuer,
+          subject: options.subject,
+          statusListUrl: options.statusListUrl,
+          save: options.save !== false,
+        };
 
-        // Create credential
-        const credential = createOwnershipCredential(
-          options.issuer,
-          options.subject,
-          {
-            name: subjectIdentity?.name,
-            createdAt: subjectIdentity?.createdAt,
-          }
-        );
-
-        // Get issuer's key pair
-        const keyPair = await keystore.getKeyPair(options.issuer);
-        if (!keyPair) {
-          throw new Error(`Private key not found for: ${options.issuer}`);
-        }
-
-        // Sign credential
-        const jwt = await signCredential(credential, keyPair.privateKey, keyPair.publicKey);
+        // Use the signer daemon when AGENT_DID_SIGNER_SOCK is set
+        const signer = await getSignerSocketFor(options);
+        const { jwt, id } = signer
+          ? await issueOwnershipWithSigner(signer, input)
+          : await issueOwnership(input, { store: options.store, noEncryption: options.encryption === false });
 
         // Output
         if (options.out) {
@@ -70,20 +97,21 @@ export function issueOwnershipCommand(parent: Command): void {
           fs.writeFileSync(outputPath, jwt, 'utf8');
           if (!options.json) {
             console.log(`✓ Ownership credential issued and saved to: ${outputPath}`);
+            if (id) console.log(`  Stored in keystore as: ${id}`);
           } else {
-            console.log(outputJson({ success: true, file: outputPath }));
+            console.log(renderOutput({ success: true, file: outputPath, id }));
           }
         } else {
           if (options.json) {
-            console.log(outputJson({ jwt }));
+            console.log(renderOutput({ jwt, id }));
           } else {
             console.log(jwt);
           }
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -94,75 +122,166 @@ export function issueOwnershipCommand(parent: Command): void {
 export function issueCapabilityCommand(parent: Command): void {
   parent.command('capability')
     .description('Issue a capability credential')
-    .requiredOption('--issuer <did>', 'Issuer DID (owner)')
+    .option('--issuer <did>', 'Issuer DID (owner, default: configured default owner; with --parent: its subject)')
     .requiredOption('--subject <did>', 'Subject DID (agent)')
     .requiredOption('--scopes <scopes>', 'Comma-separated scopes (e.g., read,write,execute)')
+    .option('--parent <file|id>', 'Delegate from this capability held by the issuer (JWT file or stored ID)')
     .option('--audience <string>', 'Intended audience')
     .option('--expires <date>', 'Expiration date (ISO 8601)')
+    .option('--status-list-url <url>', 'URL where the issuer publishes its status list credential (default: AGENT_DID_STATUS_LIST_BASE_URL/<issuer>.jwt)')
+    .option('--out <file>', 'Output file (default: stdout)')
+    .option('--no-save', 'Do not store the issued credential in the keystore')
+    .option('--no-signer', 'Sign locally even when AGENT_DID_SIGNER_SOCK is set')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        const input = {
+          issuer: options.issuer,
+          subject: options.subject,
+          scopes: options.scopes.split(','),
+          audience: options.audience,
+          expires: options.expires,
+          parent: options.parent,
+          statusListUrl: options.statusListUrl,
+          save: options.save !== false,
+        };
+
+        // Use the signer daemon when AGENT_DID_SIGNER_SOCK is set
+        const signer = await getSignerSocketFor(options);
+        const { jwt, id } = signer
+          ? await issueCapabilityWithSigner(signer, input)
+          : await issueCapability(input, { store: options.store, noEncryption: options.encryption === false });
+
+        // Output
+        if (options.out) {
+          const outputPath = path.resolve(options.out);
+          fs.writeFileSync(outputPath, jwt, 'utf8');
+          if (!options.json) {
+            console.log(`✓ Capability credential issued and saved to: ${outputPath}`);
+            if (id) console.log(`  Stored in keystore as: ${id}`);
+          } else {
+            console.log(renderOutput({ success: true, file: outputPath, id }));
+          }
+        } else {
+          if (options.json) {
+            console.log(renderOutput({ jwt, id }));
+          } else {
+            console.log(jwt);
+          }
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Create verifiable presentation command
+ */
+export function presentCommand(parent: Command): void {
+  parent.command('present')
+    .description('Wrap credentials in a Verifiable Presentation signed by the holder')
+    .requiredOption('--holder <did>', 'Holder DID (agent) signing the presentation')
+    .option('--file <files...>', 'Path(s) to JWT credential files')
+    .option('--id <ids...>', 'Stored credential ID(s)')
+    .option('--challenge <challenge>', 'Challenge (nonce) provided by the verifier')
+    .option('--domain <domain>', 'Domain (audience) of the verifier')
+    .option('--expires-in <seconds>', 'Expiration time in seconds (default: 300)', '300')
     .option('--out <file>', 'Output file (default: stdout)')
     .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
     .option('--no-encryption', 'Keystore is not encrypted')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
+        if (!options.file && !options.id) {
+          throw new InvalidArgumentError('At least one credential is required (use --file or --id)');
+        }
+        const expiresIn = Number(options.expiresIn);
+        if (!Number.isInteger(expiresIn) || expiresIn <= 0) {
+          throw new InvalidArgumentError('--expires-in must be a positive integer number of seconds');
+        }
+
         const keystore = await KeystoreManager.getKeystore(
           options.store,
           options.encryption === false
         );
         await keystore.init();
 
-        // Get issuer identity
-        const issuerIdentity = await keystore.getIdentity(options.issuer);
-        if (!issuerIdentity) {
-          throw new Error(`Issuer identity not found: ${options.issuer}`);
-        }
-        if (issuerIdentity.type !== 'owner') {
-          throw new Error(`Issuer must be an owner: ${options.issuer}`);
+        // Get holder identity
+        const holderIdentity = await keystore.getIdentity(options.holder);
+        if (!holderIdentity) {
+          throw new NotFoundError(`Holder identity not found: ${options.holder}`);
         }
 
-        // Parse scopes
-        const scopes = options.scopes.split(',').map((s: string) => s.trim());
+        // Collect credentials from files and the credential store
+        const credentials: string[] = (options.file || []).map((file: string) =>
+          readJwtFile(file)
+        );
 
-        // Create credential
-        const credential = createCapabilityCredential(
-          options.issuer,
-          options.subject,
-          scopes,
-          {
-            audience: options.audience,
-            expires: options.expires,
+        if (options.id) {
+          for (const id of options.id as string[]) {
+            const jwt = await findStoredJwt(keystore, id);
+            if (!jwt) {
+              throw new NotFoundError(`Credential not found: ${id}`);
+            }
+            credentials.push(jwt);
           }
-        );
+        }
 
-        // Get issuer's key pair
-        const keyPair = await keystore.getKeyPair(options.issuer);
+        // Get holder's key pair
+        const keyPair = await getSigningKeyPair(keystore, options.holder);
         if (!keyPair) {
-          throw new Error(`Private key not found for: ${options.issuer}`);
+          throw new MissingKeyError(options.holder);
         }
 
-        // Sign credential
-        const jwt = await signCredential(credential, keyPair.privateKey, keyPair.publicKey);
+        // Sign presentation
+        const jwt = createPresentation(
+          options.holder,
+          credentials,
+          keyPair,
+          {
+            challenge: options.challenge,
+            domain: options.domain,
+            expiresIn,
+          }
+        );
+        appendAuditEntry(KeystoreManager.getStorePath(options.store), {
+          operation: 'vc.present',
+          did: options.holder,
+          target: options.domain,
+          digest: auditDigest(jwt),
+        });
 
         // Output
         if (options.out) {
           const outputPath = path.resolve(options.out);
           fs.writeFileSync(outputPath, jwt, 'utf8');
           if (!options.json) {
-            console.log(`✓ Capability credential issued and saved to: ${outputPath}`);
+            console.log(
+              `✓ Presentation with ${credentials.length} credential${credentials.length === 1 ? '' : 's'} saved to: ${outputPath}`
+            );
           } else {
-            console.log(outputJson({ success: true, file: outputPath }));
+            console.log(renderOutput({ success: true, file: outputPath }));
           }
         } else {
           if (options.json) {
-            console.log(outputJson({ jwt }));
+            console.log(renderOutput({ jwt }));
           } else {
             console.log(jwt);
           }
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -176,25 +295,20 @@ export function verifyCommand(parent: Command): void {
     .requiredOption('--file <file>', 'Path to JWT file')
     .option('--issuer <did>', 'Expected issuer DID')
     .option('--subject <did>', 'Expected subject DID')
+    .option('--status-list <source>', 'Status list credential file or URL (overrides the credential)')
+    .option('--resolver-url <url>', 'Base URL for resolving did:web documents')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        // Read JWT from file
-        const filePath = path.resolve(options.file);
-        if (!fs.existsSync(filePath)) {
-          throw new Error(`File not found: ${filePath}`);
-        }
-
-        const jwt = fs.readFileSync(filePath, 'utf8').trim();
-
-        // Verify credential
-        const result = await verifyCredential(jwt, {
-          allowedIssuers: options.issuer ? [options.issuer] : undefined,
-          expectedSubject: options.subject,
+        const result = await verifyCredentialFile(options.file, {
+          issuer: options.issuer,
+          subject: options.subject,
+          statusList: options.statusList,
+          resolverUrl: options.resolverUrl,
         });
 
         if (options.json) {
-          console.log(outputJson(result));
+          console.log(renderOutput(result));
         } else {
           if (result.valid) {
             console.log('✓ Credential is valid\n');
@@ -223,15 +337,217 @@ export function verifyCommand(parent: Command): void {
                 }
               }
             }
+
+            if (result.chain) {
+              console.log('\nDelegation Chain (root first):');
+              result.chain.forEach((link, index) => {
+                console.log(`  ${index + 1}. ${link.issuer} -> ${link.subject}`);
+                console.log(`     Scopes: ${link.scopes.join(', ')}`);
+              });
+            }
           } else {
             console.error(`✗ Credential is invalid: ${result.reason || 'Unknown reason'}`);
-            process.exit(1);
           }
         }
+
+        if (!result.valid) {
+          process.exit(exitCodeFor(result.code));
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Verify ownership and capability credentials as one trust bundle command
+ */
+export function verifyBundleCommand(parent: Command): void {
+  parent.command('verify-bundle')
+    .description('Verify an ownership credential with capability credentials as one trust decision')
+    .requiredOption('--ownership <file|id>', 'Ownership credential (JWT file or stored ID)')
+    .requiredOption('--capability <files|ids...>', 'Capability credential(s) (JWT files or stored IDs)')
+    .option('--trusted-owner <dids...>', 'Trusted owner DIDs (default: AGENT_DID_TRUSTED_OWNERS; required)')
+    .option('--subject <did>', 'Expected agent DID')
+    .option('--resolver-url <url>', 'Base URL for resolving did:web documents')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        const result = await verifyTrustBundle(
+          {
+            ownership: options.ownership,
+            capabilities: options.capability,
+            trustedOwners: options.trustedOwner,
+            subject: options.subject,
+            resolverUrl: options.resolverUrl,
+          },
+          { store: options.store, noEncryption: options.encryption === false }
+        );
+
+        if (options.json) {
+          console.log(renderOutput(result));
+        } else {
+          console.log(result.trusted ? '✓ Bundle is trusted\n' : '✗ Bundle is not trusted\n');
+          console.log(`Owner : ${result.owner ?? '-'}`);
+          console.log(`Agent : ${result.agent ?? '-'}`);
+          console.log(`Trusted owner check: ${result.trustedOwnerCheck}`);
+
+          console.log('\nCredentials:');
+          for (const item of result.credentials) {
+            const label = `${item.role.padEnd(10)} ${item.id || item.source}`;
+            console.log(`  ${item.valid ? '✓' : '✗'} ${label}${item.valid ? '' : ` - ${item.reason}`}`);
+            if (item.scopes) {
+              console.log(`      Scopes: ${item.scopes.join(', ')}`);
+            }
+          }
+
+          if (result.reasons.length > 0) {
+            console.log('\nReasons:');
+            for (const reason of result.reasons) {
+              console.log(`  - ${reason}`);
+            }
+          }
+        }
+
+        if (!result.trusted) {
+          process.exit(EXIT_CODES.VERIFICATION_FAILED);
+        }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Authorize an action against a capability credential command
+ */
+export function authorizeCommand(parent: Command): void {
+  parent.command('authorize')
+    .description('Check whether a capability credential allows an action on a resource')
+    .requiredOption('--file <file>', 'Path to JWT file')
+    .requiredOption('--action <action>', 'Requested action (e.g., write)')
+    .option('--resource <resource>', 'Requested resource (e.g., repo:acme/web)')
+    .option('--audience <audience>', 'Verifier identity (required if the credential has an audience)')
+    .option('--issuer <did>', 'Expected issuer DID')
+    .option('--subject <did>', 'Expected subject DID')
+    .option('--at <date>', 'Evaluate at this time (ISO 8601, default: now)')
+    .option('--status-list <source>', 'Status list credential file or URL (overrides the credential)')
+    .option('--resolver-url <url>', 'Base URL for resolving did:web documents')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const decision = await authorizeFile(options.file, {
+          action: options.action,
+          resource: options.resource,
+          audience: options.audience,
+          issuer: options.issuer,
+          subject: options.subject,
+          at: options.at ? new Date(options.at) : undefined,
+          statusList: options.statusList,
+          resolverUrl: options.resolverUrl,
+        });
+
+        if (options.json) {
+          console.log(renderOutput(decision));
+        } else {
+          const allowed = decision.decision === 'allow';
+          console.log(`${allowed ? '✓ ALLOW' : '✗ DENY'}: ${decision.reason}`);
+          if (decision.subject) {
+            console.log(`\nSubject : ${decision.subject}`);
+            console.log(`Issuer  : ${decision.issuer}`);
+          }
+          for (const obligation of decision.obligations) {
+            console.log(`Enforce : ${obligation}`);
+          }
+          if (!allowed && decision.evaluated.length > 0) {
+            console.log('\nScopes:');
+            for (const item of decision.evaluated) {
+              console.log(`  ✗ ${item.scope} - ${item.reason}`);
+            }
+          }
+        }
+
+        if (decision.decision !== 'allow') {
+          process.exit(exitCodeFor(decision.code));
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Verify presentation command
+ */
+export function verifyPresentationCommand(parent: Command): void {
+  parent.command('verify-presentation')
+    .description('Verify a Verifiable Presentation and its embedded credentials')
+    .requiredOption('--file <file>', 'Path to JWT presentation file')
+    .option('--challenge <challenge>', 'Expected challenge (nonce)')
+    .option('--domain <domain>', 'Expected domain (audience)')
+    .option('--issuer <dids...>', 'Allowed credential issuer DID(s)')
+    .option('--resolver-url <url>', 'Base URL for resolving did:web documents')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const jwt = readJwtFile(options.file);
+
+        const result = await verifyPresentation(jwt, {
+          challenge: options.challenge,
+          domain: options.domain,
+          issuers: options.issuer,
+          resolverUrl: options.resolverUrl,
+        });
+
+        if (options.json) {
+          console.log(renderOutput(result));
+          if (!result.valid) {
+            process.exit(exitCodeFor(result.code));
+          }
+          return;
+        }
+
+        if (result.valid) {
+          console.log('✓ Presentation is valid\n');
+        } else {
+          console.error(`✗ Presentation is invalid: ${result.reason || 'Unknown reason'}\n`);
+        }
+
+        console.log(`Holder    : ${result.holder}`);
+        if (result.challenge) console.log(`Challenge : ${result.challenge}`);
+        if (result.domain) console.log(`Domain    : ${result.domain}`);
+        if (result.issuedAt) console.log(`Issued At : ${result.issuedAt}`);
+        if (result.expiresAt) console.log(`Expires   : ${result.expiresAt}`);
+
+        if (result.credentials.length > 0) {
+          console.log('\nCredentials:');
+          for (const credential of result.credentials) {
+            const status = credential.valid ? '✓' : '✗';
+            console.log(`  ${status} #${credential.index} ${credential.type?.join(', ') || ''}`);
+            if (credential.issuer) console.log(`      Issuer : ${credential.issuer}`);
+            if (!credential.valid) console.log(`      Reason : ${credential.reason}`);
+          }
+        }
+
+        if (!result.valid) {
+          process.exit(exitCodeFor(result.code));
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -242,6 +558,11 @@ export function verifyCommand(parent: Command): void {
 export function listCommand(parent: Command): void {
   parent.command('list')
     .description('List stored credentials in the keystore')
+    .option('--subject <did>', 'Only credentials issued to this subject')
+    .option('--issuer <did>', 'Only credentials issued by this issuer')
+    .option('--type <type>', 'Only credentials of this type (e.g., CapabilityCredential)')
+    .option('--expired', 'Only expired credentials')
+    .option('--no-expired', 'Exclude expired credentials')
     .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
     .option('--no-encryption', 'Keystore is not encrypted')
     .option('--json', 'Output as JSON')
@@ -255,17 +576,20 @@ export function listCommand(parent: Command): void {
         const exists = await keystore.exists();
         if (!exists) {
           if (options.json) {
-            console.log(outputJson([]));
+            console.log(renderOutput([]));
           } else {
             console.log('No credentials found. Keystore does not exist.');
           }
           return;
         }
 
-        const stored = await keystore.listCredentials();
+        const stored = (await keystore.listCredentials()).filter((item) => {
+          const jwt = extractJwt(item.data);
+          return matchesCredentialFilters(jwt ? summarizeCredential(jwt) : {}, options);
+        });
         if (stored.length === 0) {
           if (options.json) {
-            console.log(outputJson([]));
+            console.log(renderOutput([]));
           } else {
             console.log('No credentials found.');
           }
@@ -273,7 +597,7 @@ export function listCommand(parent: Command): void {
         }
 
         if (options.json) {
-          console.log(outputJson(stored));
+          console.log(renderOutput(stored));
           return;
         }
 
@@ -293,8 +617,84 @@ export function listCommand(parent: Command): void {
         });
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Import credentials received from other owners into the keystore
+ */
+export function importCommand(parent: Command): void {
+  parent.command('import')
+    .description('Import JWT credentials into the keystore')
+    .requiredOption('--file <files...>', 'Path(s) to JWT credential files')
+    .option('--no-verify', 'Import without verifying signatures')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const keystore = await KeystoreManager.getKeystore(
+          options.store,
+          options.encryption === false
+        );
+        await keystore.init();
+
+        const existing = new Set((await keystore.listCredentials()).map((item) => item.id));
+        const results: ImportResult[] = [];
+
+        for (const file of options.file as string[]) {
+          const jwt = readJwtFile(file);
+
+          if (options.verify !== false) {
+            const verification = await verifyCredentialJwt(jwt);
+            if (!verification.valid) {
+              results.push({
+                file,
+                imported: false,
+                reason: verification.reason || 'Invalid credential',
+              });
+              continue;
+            }
+          } else if (!decodeCredential(jwt)) {
+            results.push({ file, imported: false, reason: 'Invalid JWT format' });
+            continue;
+          }
+
+          const id = credentialIdOf(jwt);
+          if (existing.has(id)) {
+            results.push({ file, id, imported: false, reason: 'Already stored' });
+            continue;
+          }
+
+          await storeJwtCredential(keystore, jwt, 'imported');
+          existing.add(id);
+          results.push({ file, id, imported: true });
+        }
+
+        const failed = results.filter((r) => !r.imported && r.reason !== 'Already stored');
+
+        if (options.json) {
+          console.log(renderOutput(results));
+        } else {
+          for (const result of results) {
+            if (result.imported) {
+              console.log(`✓ Imported ${result.file} as ${result.id}`);
+            } else {
+              console.log(`✗ Skipped ${result.file}: ${result.reason}`);
+            }
+          }
+        }
+
+        if (failed.length > 0) {
+          process.exit(EXIT_CODES.VERIFICATION_FAILED);
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -313,30 +713,145 @@ export function deleteCommand(parent: Command): void {
     .action(async (options) => {
       try {
         if (!options.yes) {
-          throw new Error('Deletion requires --yes flag to confirm');
+          throw new InvalidArgumentError('Deletion requires --yes flag to confirm');
+        }
+
+        if (options.encryption === false) {
+          KeystoreManager.printUnencryptedWarning();
+        }
+
+        const deleted = await deleteCredential(options.id, {
+          store: options.store,
+          noEncryption: options.encryption === false,
+        });
+
+        if (options.json) {
+          console.log(renderOutput({ deleted, id: options.id }));
+        } else {
+          if (deleted) {
+            console.log(`✓ Credential deleted: ${options.id}`);
+          } else {
+            console.error(`✗ Credential not found: ${options.id}`);
+            process.exit(EXIT_CODES.NOT_FOUND);
+          }
+        }
+      } catch (error) {
+        const normalized = normalizeError(error);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
+      }
+    });
+}
+
+/**
+ * Revoke credential command
+ */
+export function revokeCommand(parent: Command): void {
+  parent.command('revoke')
+    .description('Revoke an issued credential by flipping its status list bit')
+    .option('--id <id>', 'Stored credential ID to revoke')
+    .option('--file <file>', 'Path to JWT credential file to revoke')
+    .option('--out <file>', 'Also write the updated status list credential to this file')
+    .option('-s, --store <path>', 'Keystore path (default: ~/.agent-did)')
+    .option('--no-encryption', 'Keystore is not encrypted')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        if (!options.id && !options.file) {
+          throw new InvalidArgumentError('Either --id or --file is required');
         }
 
         const keystore = await KeystoreManager.getKeystore(
           options.store,
           options.encryption === false
         );
+        await keystore.init();
 
-        const deleted = await keystore.deleteCredential(options.id);
+        // Load credential
+        let jwt: string | null;
+        if (options.file) {
+          jwt = readJwtFile(options.file);
+        } else {
+          jwt = await findStoredJwt(keystore, options.id);
+          if (!jwt) {
+            throw new NotFoundError(`Credential not found: ${options.id}`);
+          }
+        }
+
+        const decoded = decodeCredential(jwt);
+        if (!decoded?.payload) {
+          throw new InvalidArgumentError('Invalid JWT format');
+        }
+
+        const payload = decoded.payload as JWTPayload;
+        const status = (payload.vc as { credentialStatus?: BitstringStatusListEntry })
+          .credentialStatus;
+        if (!status || status.type !== 'BitstringStatusListEntry') {
+          throw new InvalidArgumentError('Credential has no revocation status entry and cannot be revoked');
+        }
+
+        // Only the issuer can update its status list
+        const storePath = KeystoreManager.getStorePath(options.store);
+        const keyPair = await getSigningKeyPair(keystore, payload.iss);
+        if (!keyPair) {
+          throw new MissingKeyError(payload.iss);
+        }
+
+        const index = parseInt(status.statusListIndex, 10);
+        const changed = await withStatusListLock(storePath, payload.iss, async () => {
+          const state = loadStatusList(storePath, payload.iss);
+          if (!state) {
+            throw new NotFoundError(`Status list not found for issuer: ${payload.iss}`);
+          }
+          if (!revokeStatusIndex(state, index)) {
+            return false;
+          }
+
+          const listJwt = await signCredentialAs(
+            payload.iss,
+            buildStatusListCredential(state),
+            keyPair
+          );
+          saveStatusList(storePath, state, listJwt);
+          appendAuditEntry(storePath, {
+            operation: 'vc.revoke',
+            did: payload.iss,
+            target: options.id || payload.jti || payload.sub,
+            digest: auditDigest(listJwt),
+          });
+          return true;
+        });
+
+        const listPath = statusListCredentialPath(storePath, payload.iss);
+        if (options.out) {
+          fs.copyFileSync(listPath, path.resolve(options.out));
+        }
+
+        const output = {
+          revoked: true,
+          alreadyRevoked: !changed,
+          issuer: payload.iss,
+          subject: payload.sub,
+          statusListIndex: index,
+          statusListCredential: status.statusListCredential,
+          file: options.out ? path.resolve(options.out) : listPath,
+        };
 
         if (options.json) {
-          console.log(outputJson({ deleted, id: options.id }));
+          console.log(renderOutput(output));
         } else {
-          if (deleted) {
-            console.log(`✓ Credential deleted: ${options.id}`);
+          if (changed) {
+            console.log(`✓ Credential revoked (status list index ${index})`);
           } else {
-            console.error(`✗ Credential not found: ${options.id}`);
-            process.exit(1);
+            console.log(`Credential was already revoked (status list index ${index})`);
           }
+          console.log(`  Status list: ${output.file}`);
+          console.log(`  Publish it at: ${status.statusListCredential}`);
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
@@ -351,81 +866,44 @@ export function inspectCommand(parent: Command): void {
     .option('--json', 'Output as JSON')
     .action(async (options) => {
       try {
-        // Read file
-        const filePath = path.resolve(options.file);
-        if (!fs.existsSync(filePath)) {
-          throw new Error(`File not found: ${filePath}`);
-        }
-
-        const fileContent = fs.readFileSync(filePath, 'utf8');
-
-        // Extract JWT (handle both raw JWT and JSON with jwt/credential field)
-        let jwt: string;
-        try {
-          const parsed = JSON.parse(fileContent);
-          jwt = parsed.credential || parsed.jwt || fileContent.trim();
-        } catch {
-          jwt = fileContent.trim();
-        }
+        // Read JWT (handle both raw JWT and JSON with jwt/credential field)
+        const jwt = readJwtFile(options.file);
 
         // Decode without verifying
         const decoded = decodeCredential(jwt);
         if (!decoded) {
-          throw new Error('Invalid JWT format');
+          throw new InvalidArgumentError('Invalid JWT format');
         }
 
         if (options.json) {
-          console.log(outputJson(decoded));
+          console.log(renderOutput(decoded));
         } else {
           console.log('\n=== Header ===\n');
-          console.log(outputJson(decoded.header || {}));
+          console.log(renderOutput(decoded.header || {}));
           console.log('\n=== Payload ===\n');
-          console.log(outputJson(decoded.payload || {}));
+          console.log(renderOutput(decoded.payload || {}));
         }
       } catch (error) {
         const normalized = normalizeError(error);
-        console.error(formatError(normalized));
-        process.exit(1);
+        console.error(formatError(normalized, options.json));
+        process.exit(normalized.exitCode);
       }
     });
 }
 
 /**
- * Helper: Extract JWT from stored credential data
+ * Helper: Check a credential summary against `vc list` filters
  */
-function extractJwt(data: unknown): string | null {
-  if (!data) return null;
-  if (typeof data === 'string') return data;
-  if (typeof data === 'object') {
-    const maybe = data as { credential?: string; jwt?: string };
-    return maybe.credential || maybe.jwt || null;
+function matchesCredentialFilters(
+  summary: CredentialSummary,
+  filters: { subject?: string; issuer?: string; type?: string; expired?: boolean }
+): boolean {
+  if (filters.subject && summary.subject !== filters.subject) return false;
+  if (filters.issuer && summary.issuer !== filters.issuer) return false;
+  if (filters.type) {
+    const wanted = filters.type.toLowerCase();
+    if (!summary.types?.some((t) => t.toLowerCase() === wanted)) return false;
   }
-  return null;
-}
-
-/**
- * Helper: Summarize credential from JWT
- */
-function summarizeCredential(jwt: string): {
-  issuer?: string;
-  subject?: string;
-  type?: string;
-  issuedAt?: string;
-  expiresAt?: string;
-} {
-  const decoded = decodeCredential(jwt);
-  if (!decoded?.payload) return {};
-
-  const payload = decoded.payload as JWTPayload;
-  const type = Array.isArray(payload.vc?.type) ? payload.vc.type.join(', ') : undefined;
-  const issuedAt = payload.iat ? new Date(payload.iat * 1000).toISOString() : undefined;
-  const expiresAt = payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined;
-
-  return {
-    issuer: payload.iss,
-    subject: payload.sub,
-    type,
-    issuedAt,
-    expiresAt,
-  };
+  if (filters.expired !== undefined && Boolean(summary.expired) !== filters.expired) return false;
+  return true;
 }
@@ -2,27 +2,89 @@ import { createOwnerCommand, createAgentCommand } from './commands/create.js';
 import {
   listCommand as identityListCommand,
   inspectCommand as identityInspectCommand,
+  updateCommand as identityUpdateCommand,
   deleteCommand as identityDeleteCommand,
+  restoreCommand as identityRestoreCommand,
+  purgeCommand as identityPurgeCommand,
 } from './commands/identity.js';
 import {
   issueOwnershipCommand,
   issueCapabilityCommand,
+  presentCommand,
   verifyCommand as vcVerifyCommand,
+  authorizeCommand,
+  verifyBundleCommand,
+  verifyPresentationCommand,
   listCommand as vcListCommand,
   deleteCommand as vcDeleteCommand,
+  importCommand as vcImportCommand,
+  revokeCommand,
   inspectCommand as vcInspectCommand,
 } from './commands/vc.js';
-import { signCommand, verifyCommand as authVerifyCommand } from './commands/auth.js';
+import {
+  signCommand,
+  verifyCommand as authVerifyCommand,
+  purgeReplaysCommand,
+  registerCommand,
+} from './commands/auth.js';
+import { resolveCommand } from './commands/resolve.js';
+import { serveCommand } from './commands/serve.js';
+import {
+  startCommand as signerStartCommand,
+  statusCommand as signerStatusCommand,
+  stopCommand as signerStopCommand,
+} from './commands/signer.js';
+import {
+  exportCommand as keystoreExportCommand,
+  importCommand as keystoreImportCommand,
+  rekeyCommand as keystoreRekeyCommand,
+} from './commands/keystore.js';
+import {
+  listCommand as auditListCommand,
+  verifyCommand as auditVerifyCommand,
+} from './commands/audit.js';
+import {
+  listCommand as approvalsListCommand,
+  approveCommand,
+  denyCommand,
+} from './commands/approvals.js';
+import { setPluginConfig, getDefaultOutputFormat } from './utils/plugin-config.js';
+import { setPassphraseOptions } from './utils/passphrase.js';
+import { setVerbose, setOutputFormat } from './utils/output-formatter.js';
+import { EXIT_CODES } from './utils/error-handler.js';
+import { createAgentTools, type AgentTool } from './tools/agent-tools.js';
+
+// Service layer (importable SDK without console output or process.exit)
+export * from './services/index.js';
+export {
+  AgentDidError,
+  NotFoundError,
+  InvalidArgumentError,
+  AlreadyExistsError,
+  PassphraseError,
+  MissingKeyError,
+  VerificationError,
+  InvalidSignatureError,
+  CredentialExpiredError,
+  WrongIssuerError,
+  ReplayError,
+  EXIT_CODES,
+  exitCodeFor,
+  type ErrorCode,
+  type VerificationFailureCode,
+} from './utils/error-handler.js';
 
 /**
  * OpenClaw API interface
  * This is provided by OpenClaw when the plugin is loaded
  */
 interface OpenClawAPI {
+  pluginConfig?: Record<string, unknown>;
   registerCli(
     callback: (context: { program: unknown }) => void,
     options: { commands: string[] }
   ): void;
+  registerTool?(tool: AgentTool): void;
 }
 
 /**
@@ -30,11 +92,51 @@ interface OpenClawAPI {
  * Called by OpenClaw when loading the plugin
  */
 export function register(api: OpenClawAPI): void {
+  // Plugin config (configSchema in openclaw.plugin.json); flags and env vars take precedence
+  setPluginConfig(api.pluginConfig);
+
   api.registerCli(
     ({ program }: { program: any }) => {
       // Create main agent-did command using program.command() (not new Command())
       const agentDidCmd = program.command('agent-did')
-        .description('Manage AI agent identities with DIDs and Verifiable Credentials');
+        .description('Manage AI agent identities with DIDs and Verifiable Credentials')
+        .option('--passphrase-file <path>', 'Read the keystore passphrase from a file (mode 0600)')
+        .option('--passphrase-fd <fd>', 'Read the keystore passphrase from an open file descriptor')
+        .option('--verbose', 'Report which passphrase source was used (on stderr)')
+        .option(
+          '--format <format>',
+          "Output format: json, yaml, table, csv, ndjson or a template such as '{{.did}}'"
+        );
+
+      // Apply the global options and the output format (--format > --json > configured default)
+      agentDidCmd.hook('preAction', (_thisCommand: any, actionCommand: any) => {
+        const globals = actionCommand.optsWithGlobals();
+        setPassphraseOptions({ file: globals.passphraseFile, fd: globals.passphraseFd });
+        setVerbose(!!globals.verbose);
+
+        const supportsJson = actionCommand.options.some(
+          (option: any) => option.attributeName() === 'json'
+        );
+        const json = supportsJson && actionCommand.getOptionValue('json');
+        const format = globals.format ?? (json ? 'json' : getDefaultOutputFormat());
+        try {
+          setOutputFormat(format);
+        } catch (error) {
+          actionCommand.error(`error: ${(error as Error).message}`, {
+            exitCode: EXIT_CODES.INVALID_ARGUMENT,
+          });
+        }
+        if (format === 'text') return;
+
+        if (!supportsJson) {
+          actionCommand.error(`error: ${actionCommand.name()} does not support --format`, {
+            exitCode: EXIT_CODES.INVALID_ARGUMENT,
+          });
+        }
+        if (!json) {
+          actionCommand.setOptionValueWithSource('json', true, globals.format ? 'cli' : 'config');
+        }
+      });
 
       // Create command group
       const createCmd = agentDidCmd.command('create')
@@ -47,7 +149,13 @@ export function register(api: OpenClawAPI): void {
       // Identity commands
       identityListCommand(agentDidCmd);
       identityInspectCommand(agentDidCmd);
+      identityUpdateCommand(agentDidCmd);
       identityDeleteCommand(agentDidCmd);
+      identityRestoreCommand(agentDidCmd);
+      identityPurgeCommand(agentDidCmd);
+
+      // DID resolution
+      resolveCommand(agentDidCmd);
 
       // VC command group
       const vcCmd = agentDidCmd.command('vc')
@@ -60,11 +168,19 @@ export function register(api: OpenClawAPI): void {
       issueOwnershipCommand(issueCmd);
       issueCapabilityCommand(issueCmd);
 
+      // VC presentation commands
+      presentCommand(vcCmd);
+      verifyPresentationCommand(vcCmd);
+
       // VC management commands
       vcVerifyCommand(vcCmd);
+      verifyBundleCommand(vcCmd);
+      authorizeCommand(vcCmd);
       vcListCommand(vcCmd);
       vcInspectCommand(vcCmd);
+      vcImportCommand(vcCmd);
       vcDeleteCommand(vcCmd);
+      revokeCommand(vcCmd);
 
       // Auth command group
       const authCmd = agentDidCmd.command('auth')
@@ -72,7 +188,50 @@ export function register(api: OpenClawAPI): void {
 
       signCommand(authCmd);
       authVerifyCommand(authCmd);
+      purgeReplaysCommand(authCmd);
+      registerCommand(authCmd);
+
+      // Keystore command group
+      const keystoreCmd = agentDidCmd.command('keystore')
+        .description('Keystore backup and maintenance');
+
+      keystoreExportCommand(keystoreCmd);
+      keystoreImportCommand(keystoreCmd);
+      keystoreRekeyCommand(keystoreCmd);
+
+      // Local challenge/verify authentication server
+      serveCommand(agentDidCmd);
+
+      // Signer daemon command group (keeps the unlocked keystore out of agent shells)
+      const signerCmd = agentDidCmd.command('signer')
+        .description('Signing daemon holding the unlocked keystore (ssh-agent style)');
+
+      signerStartCommand(signerCmd);
+      signerStatusCommand(signerCmd);
+      signerStopCommand(signerCmd);
+
+      // Audit log command group (hash-chained record of private-key operations)
+      const auditCmd = agentDidCmd.command('audit')
+        .description('Inspect and verify the audit log of key usage');
+
+      auditListCommand(auditCmd);
+      auditVerifyCommand(auditCmd);
+
+      // Approval command group (owner decisions on agent tool requests)
+      const approvalsCmd = agentDidCmd.command('approvals')
+        .description('Review and approve agent tool requests');
+
+      approvalsListCommand(approvalsCmd);
+      approveCommand(approvalsCmd);
+      denyCommand(approvalsCmd);
     },
     { commands: ['agent-did'] }
   );
+
+  // Agent tools (typed alternatives to shelling out to the CLI)
+  if (api.registerTool) {
+    for (const tool of createAgentTools()) {
+      api.registerTool(tool);
+    }
+  }
 }
@@ -0,0 +1,78 @@
+import KeystoreManager from '../utils/keystore-manager.js';
+import { InvalidArgumentError } from '../utils/error-handler.js';
+import {
+  auditLogPath,
+  readAuditEntries,
+  verifyAuditChain,
+  type AuditEntry,
+  type AuditVerification,
+} from '../utils/audit-log.js';
+import { runService, type ServiceOptions } from './context.js';
+
+/**
+ * Filters for listing audit entries
+ */
+export interface AuditFilter {
+  did?: string;
+  /** Operation or operation prefix (e.g. `vc.issue` matches both issue operations) */
+  operation?: string;
+  /** ISO date: only entries at or after it */
+  since?: string;
+  /** ISO date: only entries before it */
+  until?: string;
+  /** Only the most recent entries */
+  limit?: number;
+}
+
+/**
+ * List audit log entries, oldest first. Reading the log needs no passphrase.
+ */
+export async function listAuditEntries(
+  filter: AuditFilter = {},
+  options: ServiceOptions = {}
+): Promise<AuditEntry[]> {
+  return runService(async () => {
+    const since = parseDate(filter.since, '--since');
+    const until = parseDate(filter.until, '--until');
+    if (filter.limit !== undefined && !(Number.isInteger(filter.limit) && filter.limit > 0)) {
+      throw new InvalidArgumentError('--limit must be a positive integer');
+    }
+
+    const entries = readAuditEntries(KeystoreManager.getStorePath(options.store)).filter(
+      (entry) =>
+        (!filter.did || entry.did === filter.did || entry.target === filter.did) &&
+        (!filter.operation ||
+          entry.operation === filter.operation ||
+          entry.operation.startsWith(`${filter.operation}.`)) &&
+        (since === undefined || Date.parse(entry.timestamp) >= since) &&
+        (until === undefined || Date.parse(entry.timestamp) < until)
+    );
+    return filter.limit ? entries.slice(-filter.limit) : entries;
+  });
+}
+
+/**
+ * Check the audit log's hash chain. A broken chain is a result (`valid: false`), not an error.
+ * The head's MAC is checked with the keystore passphrase (not for unencrypted stores).
+ */
+export async function verifyAuditLog(
+  options: ServiceOptions = {}
+): Promise<AuditVerification & { path: string }> {
+  return runService(async () => {
+    const storePath = KeystoreManager.getStorePath(options.store);
+    await KeystoreManager.getKeystore(options.store, options.noEncryption, false);
+    return { path: auditLogPath(storePath), ...verifyAuditChain(storePath) };
+  });
+}
+
+/**
+ * Helper: Parse an optional date filter
+ */
+function parseDate(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InvalidArgumentError(`${flag} must be a date (e.g. 2025-01-31 or an ISO timestamp)`);
+  }
+  return time;
+}
@@ -0,0 +1,260 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import { decodeAuthPayload } from '../utils/verification.js';
+import { verifyChallenge } from './auth.js';
+
+/**
+ * Maximum accepted request body size
+ */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Default cap on outstanding challenges (further requests get 429 until some expire or are used)
+ */
+const DEFAULT_MAX_PENDING_CHALLENGES = 1000;
+
+/**
+ * Options for the challenge/verify authentication server
+ */
+export interface AuthServerOptions {
+  audience?: string;
+  domain?: string;
+  challengeTtl?: number;
+  sessionTtl?: number;
+  maxPendingChallenges?: number;
+  allowedDids?: string[];
+  resolverUrl?: string;
+  onEvent?: (event: AuthServerEvent) => void;
+}
+
+/**
+ * Event emitted for every challenge, login and rejected login
+ */
+export interface AuthServerEvent {
+  type: 'challenge' | 'login' | 'rejected';
+  did?: string;
+  reason?: string;
+}
+
+/**
+ * Outstanding challenge (single use)
+ */
+interface PendingChallenge {
+  did?: string;
+  expiresAt: number;
+}
+
+/**
+ * Session created after a successful login
+ */
+interface Session {
+  did: string;
+  expiresAt: number;
+}
+
+/**
+ * Error answered with a JSON body and HTTP status
+ */
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Create an HTTP server that plays the verifier role of the challenge-response flow:
+ *
+ * - `POST /challenge` `{ did? }` issues a single-use nonce
+ * - `POST /verify` `{ did, payload, signature }` checks a `signAuthChallenge` response
+ *   (same logic as `auth verify`) and returns a short-lived bearer session token
+ * - `GET /session` validates a bearer token
+ * - `GET /health` liveness check
+ *
+ * Nonces and sessions are kept in memory; unknown, replayed or expired nonces are rejected.
+ * At most `maxPendingChallenges` nonces are outstanding at once; beyond that `/challenge` answers 429.
+ */
+export function createAuthServer(options: AuthServerOptions = {}): http.Server {
+  const challengeTtl = options.challengeTtl ?? 300;
+  const sessionTtl = options.sessionTtl ?? 900;
+  const maxPendingChallenges = options.maxPendingChallenges ?? DEFAULT_MAX_PENDING_CHALLENGES;
+  const challenges = new Map<string, PendingChallenge>();
+  const sessions = new Map<string, Session>();
+  const emit = (event: AuthServerEvent) => options.onEvent?.(event);
+
+  const purgeExpired = () => {
+    const now = Date.now();
+    for (const [nonce, challenge] of challenges) {
+      if (challenge.expiresAt < now) challenges.delete(nonce);
+    }
+    for (const [token, session] of sessions) {
+      if (session.expiresAt < now) sessions.delete(token);
+    }
+  };
+
+  const issueChallenge = (body: Record<string, unknown>) => {
+    const did = typeof body.did === 'string' ? body.did : undefined;
+    if (did && options.allowedDids && !options.allowedDids.includes(did)) {
+      throw new HttpError(403, `DID not allowed: ${did}`);
+    }
+
+    // Expired challenges are purged per request, so a full map means live ones
+    if (challenges.size >= maxPendingChallenges) {
+      throw new HttpError(429, 'Too many pending challenges, try again later');
+    }
+
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = Date.now() + challengeTtl * 1000;
+    challenges.set(nonce, { did, expiresAt });
+    emit({ type: 'challenge', did });
+
+    return {
+      nonce,
+      audience: options.audience,
+      domain: options.domain,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  };
+
+  const verifyLogin = async (body: Record<string, unknown>) => {
+    const did = body.did;
+    const payload = body.payload ?? body.payloadEncoded;
+    const signature = body.signature;
+    if (typeof did !== 'string' || typeof payload !== 'string' || typeof signature !== 'string') {
+      throw new HttpError(400, 'Request must contain did, payload and signature');
+    }
+
+    const reject = (reason: string): never => {
+      emit({ type: 'rejected', did, reason });
+      throw new HttpError(401, reason);
+    };
+
+    // Each nonce can be presented exactly once, whatever the outcome
+    const nonce = decodeAuthPayload(payload)?.nonce;
+    const challenge = typeof nonce === 'string' ? challenges.get(nonce) : undefined;
+    if (!nonce || !challenge) {
+      return reject('Unknown or already used nonce');
+    }
+    challenges.delete(nonce);
+
+    if (challenge.expiresAt < Date.now()) {
+      return reject('Challenge has expired');
+    }
+    if (challenge.did && challenge.did !== did) {
+      return reject('Challenge was issued for a different DID');
+    }
+    if (options.allowedDids && !options.allowedDids.includes(did)) {
+      return reject(`DID not allowed: ${did}`);
+    }
+
+    const result = await verifyChallenge({
+      did,
+      payload,
+      signature,
+      nonce,
+      audience: options.audience,
+      domain: options.domain,
+      resolverUrl: options.resolverUrl,
+    });
+    if (!result.valid) {
+      return reject(result.reason || 'Invalid signature');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = Date.now() + sessionTtl * 1000;
+    sessions.set(token, { did, expiresAt });
+    emit({ type: 'login', did });
+
+    return {
+      valid: true,
+      did,
+      token,
+      tokenType: 'Bearer',
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  };
+
+  const checkSession = (req: http.IncomingMessage) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+    const session = match ? sessions.get(match[1]) : undefined;
+    if (!session || session.expiresAt < Date.now()) {
+      throw new HttpError(401, 'Invalid or expired session token');
+    }
+    return { valid: true, did: session.did, expiresAt: new Date(session.expiresAt).toISOString() };
+  };
+
+  return http.createServer(async (req, res) => {
+    try {
+      purgeExpired();
+      const route = `${req.method} ${new URL(req.url || '/', 'http://localhost').pathname}`;
+
+      switch (route) {
+        case 'GET /health':
+          return sendJson(res, 200, { status: 'ok' });
+        case 'POST /challenge':
+          return sendJson(res, 201, issueChallenge(await readJsonBody(req)));
+        case 'POST /verify':
+          return sendJson(res, 200, await verifyLogin(await readJsonBody(req)));
+        case 'GET /session':
+          return sendJson(res, 200, checkSession(req));
+        default:
+          throw new HttpError(404, `Not found: ${route}`);
+      }
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      sendJson(res, status, { valid: false, error: message });
+    }
+  });
+}
+
+/**
+ * Start listening and resolve with the bound address
+ */
+export async function listen(server: http.Server, port: number, host: string): Promise<AddressInfo> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve(server.address() as AddressInfo);
+    });
+  });
+}
+
+/**
+ * Helper: Read and parse a JSON request body (empty body is `{}`)
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    return parsed as Record<string, unknown>;
+  } catch {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+}
+
+/**
+ * Helper: Send a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,132 @@
+import { InvalidArgumentError, MissingKeyError, NotFoundError } from '../utils/error-handler.js';
+import { getSigningKeyPair, signAuthChallengeAs, type SignedChallenge } from '../utils/signing.js';
+import { getResolverOptions } from '../utils/did-resolver.js';
+import { verifyAuthResponse, type AuthVerificationResult } from '../utils/verification.js';
+import {
+  getReplayStorePath,
+  recordNonce,
+  purgeReplayStore,
+  type ReplayPurgeResult,
+} from '../utils/replay-store.js';
+import { auditDigest } from '../utils/audit-log.js';
+import {
+  openKeystore,
+  assertSignerAllowed,
+  recordAudit,
+  runService,
+  type ServiceOptions,
+} from './context.js';
+
+/**
+ * Input for signing an authentication challenge
+ */
+export interface SignChallengeInput {
+  did: string;
+  challenge: string;
+  audience?: string;
+  domain?: string;
+  expiresIn?: number;
+}
+
+export type { SignedChallenge };
+
+/**
+ * Input for verifying a signed challenge response
+ */
+export interface VerifyChallengeInput {
+  did: string;
+  payload: string;
+  signature: string;
+  nonce?: string;
+  audience?: string;
+  domain?: string;
+  resolverUrl?: string;
+  /** Tolerated clock difference in seconds for expiry checks */
+  clockSkew?: number;
+  /** Replay cache file (default: AGENT_DID_REPLAY_STORE); reuse is rejected as `REPLAYED` */
+  replayStore?: string;
+}
+
+/**
+ * Sign an authentication challenge with an identity's key
+ */
+export async function signChallenge(
+  input: SignChallengeInput,
+  options: ServiceOptions = {}
+): Promise<SignedChallenge> {
+  return runService(async () => {
+    assertSignerAllowed(options, input.did);
+    const keystore = await openKeystore(options);
+
+    const identity = await keystore.getIdentity(input.did);
+    if (!identity) {
+      throw new NotFoundError(`Identity not found: ${input.did}`);
+    }
+
+    const keyPair = await getSigningKeyPair(keystore, input.did);
+    if (!keyPair) {
+      throw new MissingKeyError(input.did);
+    }
+
+    const signed = await signAuthChallengeAs(input.did, keyPair, input.challenge, {
+      audience: input.audience,
+      domain: input.domain,
+      expiresIn: input.expiresIn ?? 120,
+    });
+    recordAudit(options, {
+      operation: 'auth.sign',
+      did: input.did,
+      target: input.audience || input.domain,
+      digest: auditDigest(Buffer.from(signed.payloadEncoded, 'base64url')),
+    });
+    return signed;
+  });
+}
+
+/**
+ * Verify a signed challenge response.
+ * An invalid signature is a result (`valid: false`), not an error.
+ * With a replay store, each valid nonce (or `jti`) is accepted once until it expires.
+ */
+export async function verifyChallenge(input: VerifyChallengeInput): Promise<AuthVerificationResult> {
+  return runService(async () => {
+    if (input.clockSkew !== undefined && !(input.clockSkew >= 0)) {
+      throw new InvalidArgumentError('Clock skew must be a non-negative number of seconds');
+    }
+
+    const result = await verifyAuthResponse(input.did, input.payload, input.signature, {
+      expectedNonce: input.nonce,
+      expectedAudience: input.audience,
+      expectedDomain: input.domain,
+      clockSkew: input.clockSkew,
+      resolver: getResolverOptions(input.resolverUrl),
+    });
+
+    const replayStore = getReplayStorePath(input.replayStore);
+    if (!result.valid || !result.payload || !replayStore) {
+      return result;
+    }
+
+    const { payload } = result;
+    const key = `${payload.did}\n${payload.jti ?? payload.nonce}`;
+    if (!recordNonce(replayStore, key, payload.exp + (input.clockSkew ?? 0))) {
+      return { valid: false, reason: 'REPLAYED', code: 'REPLAYED', payload };
+    }
+    return result;
+  });
+}
+
+/**
+ * Drop expired entries from a replay cache
+ */
+export async function purgeReplays(replayStore?: string): Promise<ReplayPurgeResult & { path: string }> {
+  return runService(async () => {
+    const path = getReplayStorePath(replayStore);
+    if (!path) {
+      throw new InvalidArgumentError(
+        'No replay store given. Pass --replay-store or set AGENT_DID_REPLAY_STORE.'
+      );
+    }
+    return { path, ...purgeReplayStore(path) };
+  });
+}
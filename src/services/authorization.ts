@@ -0,0 +1,132 @@
+import type { JWTPayload } from 'agent-did';
+import { InvalidArgumentError, type VerificationFailureCode } from '../utils/error-handler.js';
+import { readJwtFile } from '../utils/credentials.js';
+import { evaluateScopes, type ScopeEvaluation } from '../utils/scopes.js';
+import { capabilityLinkOf, type CapabilityLink } from '../utils/delegation.js';
+import { runService } from './context.js';
+import { verifyCredential, type VerifyCredentialInput } from './credentials.js';
+
+/**
+ * Request to authorize against a capability credential
+ */
+export interface AuthorizeInput extends VerifyCredentialInput {
+  action: string;
+  resource?: string;
+  /** Verifier identity; required when the credential is restricted to an audience */
+  audience?: string;
+  /** Evaluation time (default: now) */
+  at?: Date;
+}
+
+/**
+ * Allow/deny decision with its explanation
+ */
+export interface AuthorizationDecision {
+  decision: 'allow' | 'deny';
+  reason: string;
+  /** Why access was denied: the credential's verification failure, or PERMISSION_DENIED */
+  code?: VerificationFailureCode | 'PERMISSION_DENIED';
+  action: string;
+  resource?: string;
+  issuer?: string;
+  subject?: string;
+  scopes: string[];
+  credentialAudience?: string;
+  /** Delegation chain (root first) for delegated capabilities */
+  chain?: CapabilityLink[];
+  matchedScope?: string;
+  obligations: string[];
+  evaluated: ScopeEvaluation[];
+}
+
+/**
+ * Decide whether a capability credential allows `action` on `resource`.
+ * The credential is verified first (signature, expiry, issuer/subject, revocation),
+ * then its audience and scopes are evaluated. A denial is a result, not an error.
+ */
+export async function authorize(jwt: string, input: AuthorizeInput): Promise<AuthorizationDecision> {
+  return runService(async () => {
+    if (!input.action) {
+      throw new InvalidArgumentError('Action is required');
+    }
+    const at = input.at || new Date();
+    if (Number.isNaN(at.getTime())) {
+      throw new InvalidArgumentError('Invalid evaluation time');
+    }
+
+    const base = {
+      action: input.action,
+      resource: input.resource,
+      scopes: [] as string[],
+      obligations: [],
+      evaluated: [],
+    };
+    const deny = (reason: string, extra: Partial<AuthorizationDecision> = {}): AuthorizationDecision => ({
+      ...base,
+      ...extra,
+      decision: 'deny',
+      reason,
+      code: extra.code ?? 'PERMISSION_DENIED',
+    });
+
+    const verification = await verifyCredential(jwt, {
+      issuer: input.issuer,
+      subject: input.subject,
+      statusList: input.statusList,
+      resolverUrl: input.resolverUrl,
+    });
+    if (!verification.valid || !verification.payload) {
+      return deny(`Credential is invalid: ${verification.reason || 'Unknown reason'}`, {
+        code: verification.code ?? 'VERIFICATION_FAILED',
+      });
+    }
+
+    const payload = verification.payload as JWTPayload;
+    const { scopes, audience: credentialAudience } = capabilityLinkOf(payload);
+    const details = {
+      issuer: payload.iss,
+      subject: payload.sub,
+      scopes,
+      credentialAudience,
+      chain: verification.chain,
+    };
+
+    if (scopes.length === 0) {
+      return deny('Credential grants no scopes (not a capability credential)', details);
+    }
+    if (credentialAudience) {
+      if (!input.audience) {
+        return deny(
+          `Credential is restricted to audience "${credentialAudience}"; no audience given`,
+          details
+        );
+      }
+      if (input.audience !== credentialAudience) {
+        return deny(`Audience mismatch: credential is for "${credentialAudience}"`, details);
+      }
+    }
+
+    const result = evaluateScopes(scopes, { action: input.action, resource: input.resource, at });
+    const target = input.resource ? `"${input.action}" on "${input.resource}"` : `"${input.action}"`;
+    if (!result.allowed) {
+      return deny(`No scope grants ${target}`, { ...details, evaluated: result.evaluated });
+    }
+
+    return {
+      ...base,
+      ...details,
+      decision: 'allow',
+      reason: `Scope "${result.matchedScope}" grants ${target}`,
+      matchedScope: result.matchedScope,
+      obligations: result.obligations,
+      evaluated: result.evaluated,
+    };
+  });
+}
+
+/**
+ * Authorize against a credential stored in a file (raw JWT or JSON with a jwt/credential field)
+ */
+export async function authorizeFile(file: string, input: AuthorizeInput): Promise<AuthorizationDecision> {
+  return runService(async () => authorize(readJwtFile(file), input));
+}
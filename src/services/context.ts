@@ -0,0 +1,65 @@
+import type { Keystore } from 'agent-did';
+import KeystoreManager from '../utils/keystore-manager.js';
+import { AgentDidError, normalizeError } from '../utils/error-handler.js';
+import { appendAuditEntry, type AuditRecord } from '../utils/audit-log.js';
+
+/**
+ * Keystore selection shared by all service functions
+ * (same fallbacks as the CLI: store > AGENT_DID_HOME > plugin config > ~/.agent-did)
+ */
+export interface ServiceOptions {
+  store?: string;
+  noEncryption?: boolean;
+  /** Only these DIDs may sign (set by the signer daemon for its allow-list) */
+  allowedSigners?: string[];
+}
+
+/**
+ * Identity metadata as stored in the keystore
+ */
+export type StoredIdentity = NonNullable<Awaited<ReturnType<Keystore['getIdentity']>>>;
+
+/**
+ * Open the keystore for reading and updating existing identities
+ */
+export async function openKeystore(options: ServiceOptions = {}): Promise<Keystore> {
+  const keystore = await KeystoreManager.getKeystore(options.store, options.noEncryption, false);
+  await keystore.init();
+  return keystore;
+}
+
+/**
+ * Open the keystore for creating identities (validates the passphrase)
+ */
+export async function openNewKeystore(options: ServiceOptions = {}): Promise<Keystore> {
+  const keystore = await KeystoreManager.getNewKeystore(options.store, options.noEncryption, false);
+  await keystore.init();
+  return keystore;
+}
+
+/**
+ * Throw unless `did` may sign under these options
+ */
+export function assertSignerAllowed(options: ServiceOptions, did: string): void {
+  if (options.allowedSigners && !options.allowedSigners.includes(did)) {
+    throw new AgentDidError(`Signing as ${did} is not allowed by this signer`, 'SIGNER_NOT_ALLOWED');
+  }
+}
+
+/**
+ * Append a private-key operation to the keystore's audit log
+ */
+export function recordAudit(options: ServiceOptions, record: AuditRecord): void {
+  appendAuditEntry(KeystoreManager.getStorePath(options.store), record);
+}
+
+/**
+ * Run a service body so that every failure surfaces as an AgentDidError
+ */
+export async function runService<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    throw normalizeError(error);
+  }
+}
@@ -0,0 +1,418 @@
+import {
+  createOwnershipCredential,
+  createCapabilityCredential,
+  decodeCredential,
+  type JWTPayload,
+  type Keystore,
+} from 'agent-did';
+import {
+  AgentDidError,
+  InvalidArgumentError,
+  MissingKeyError,
+  NotFoundError,
+} from '../utils/error-handler.js';
+import { getDefaultOwnerDid } from '../utils/plugin-config.js';
+import { getResolverOptions } from '../utils/did-resolver.js';
+import { signCredentialAs, getSigningKeyPair } from '../utils/signing.js';
+import { verifyCredentialJwt, type CredentialVerificationResult } from '../utils/verification.js';
+import {
+  verifyPresentationJwt,
+  type PresentationVerificationResult,
+} from '../utils/presentation.js';
+import {
+  storeJwtCredential,
+  readJwtFile,
+  loadJwtReference,
+  findStoredJwt,
+} from '../utils/credentials.js';
+import { auditDigest, type AuditOperation } from '../utils/audit-log.js';
+import { validateScopes } from '../utils/scopes.js';
+import {
+  MAX_DELEGATION_DEPTH,
+  attachDelegation,
+  capabilityLinkOf,
+  checkAttenuation,
+  getParentCredential,
+  type CapabilityLink,
+} from '../utils/delegation.js';
+import {
+  attachCredentialStatus,
+  checkCredentialStatus,
+  type StatusCheckResult,
+} from '../utils/status-list.js';
+import KeystoreManager from '../utils/keystore-manager.js';
+import {
+  openKeystore,
+  assertSignerAllowed,
+  recordAudit,
+  runService,
+  type ServiceOptions,
+  type StoredIdentity,
+} from './context.js';
+
+/**
+ * Input for issuing an ownership credential (issuer defaults to the configured owner)
+ */
+export interface IssueOwnershipInput {
+  issuer?: string;
+  subject: string;
+  statusListUrl?: string;
+  save?: boolean;
+}
+
+/**
+ * Input for issuing a capability credential
+ */
+export interface IssueCapabilityInput extends IssueOwnershipInput {
+  scopes: string[];
+  audience?: string;
+  expires?: string;
+  /** Parent capability (JWT file or stored credential ID) to delegate from */
+  parent?: string;
+}
+
+/**
+ * An issued, signed credential
+ */
+export interface IssuedCredential {
+  jwt: string;
+  id?: string;
+  issuer: string;
+  subject: string;
+}
+
+/**
+ * Expectations for verifying a credential
+ */
+export interface VerifyCredentialInput {
+  issuer?: string;
+  subject?: string;
+  statusList?: string;
+  resolverUrl?: string;
+}
+
+/**
+ * Input for verifying a presentation
+ */
+export interface VerifyPresentationInput {
+  challenge?: string;
+  domain?: string;
+  /** Allowed issuers of the embedded credentials (of the root, for delegated capabilities) */
+  issuers?: string[];
+  resolverUrl?: string;
+}
+
+/**
+ * Credential verification result including revocation status and, for delegated
+ * capabilities, the validated chain from the root (owner-issued) credential to this one
+ */
+export type CredentialVerification = CredentialVerificationResult & {
+  status?: StatusCheckResult;
+  chain?: CapabilityLink[];
+};
+
+/**
+ * Issue an ownership credential from an owner to one of its agents.
+ * The subject's name and creation date are looked up when it is in the keystore.
+ */
+export async function issueOwnership(
+  input: IssueOwnershipInput,
+  options: ServiceOptions = {}
+): Promise<IssuedCredential> {
+  return runService(async () => {
+    const keystore = await openKeystore(options);
+    const issuer = await requireOwnerIssuer(keystore, input.issuer);
+
+    // Subject identity is optional - it might not be in the keystore
+    const subjectIdentity = await keystore.getIdentity(input.subject);
+    const credential = createOwnershipCredential(issuer.did, input.subject, {
+      name: subjectIdentity?.name,
+      createdAt: subjectIdentity?.createdAt,
+    });
+
+    return signAndStore(keystore, issuer.did, input, credential, options, 'vc.issue.ownership');
+  });
+}
+
+/**
+ * Issue a capability credential granting scopes to a subject.
+ * With a parent capability, the holder of the parent (an agent) re-delegates a
+ * strict attenuation of it; audience and expiry default to the parent's.
+ */
+export async function issueCapability(
+  input: IssueCapabilityInput,
+  options: ServiceOptions = {}
+): Promise<IssuedCredential> {
+  return runService(async () => {
+    let scopes: string[];
+    try {
+      scopes = validateScopes(input.scopes);
+    } catch (error) {
+      throw new InvalidArgumentError((error as Error).message);
+    }
+    if (scopes.length === 0) {
+      throw new InvalidArgumentError('At least one scope is required');
+    }
+
+    const keystore = await openKeystore(options);
+    if (!input.parent) {
+      const issuer = await requireOwnerIssuer(keystore, input.issuer);
+      const credential = createCapabilityCredential(issuer.did, input.subject, scopes, {
+        audience: input.audience,
+        expires: input.expires,
+      });
+      return signAndStore(keystore, issuer.did, input, credential, options, 'vc.issue.capability');
+    }
+
+    // Delegation: the issuer must hold a valid parent capability
+    const parentJwt = await loadJwtReference(input.parent, async () => keystore);
+    if (!parentJwt) {
+      throw new NotFoundError(`Parent credential not found (file or stored ID): ${input.parent}`);
+    }
+    const parentPayload = decodeCredential(parentJwt)?.payload as JWTPayload | undefined;
+    const issuerDid = input.issuer || parentPayload?.sub;
+    if (!issuerDid) {
+      throw new AgentDidError('Parent credential has no subject', 'INVALID_PARENT');
+    }
+    if (!(await keystore.getIdentity(issuerDid))) {
+      throw new NotFoundError(`Issuer identity not found: ${issuerDid}`);
+    }
+
+    const parent = await verifyCredential(parentJwt, { subject: issuerDid });
+    if (!parent.valid || !parent.payload) {
+      throw new AgentDidError(`Parent credential is invalid: ${parent.reason}`, 'INVALID_PARENT');
+    }
+    if ((parent.chain?.length ?? 1) >= MAX_DELEGATION_DEPTH) {
+      throw new AgentDidError(
+        `Delegation chain would exceed ${MAX_DELEGATION_DEPTH} credentials`,
+        'INVALID_PARENT'
+      );
+    }
+
+    const parentLink = capabilityLinkOf(parent.payload);
+    const expires =
+      input.expires ||
+      (parentLink.expiresAt ? new Date(parentLink.expiresAt * 1000).toISOString() : undefined);
+    const audience = input.audience || parentLink.audience;
+    const violation = checkAttenuation(
+      {
+        issuer: issuerDid,
+        subject: input.subject,
+        scopes,
+        audience,
+        expiresAt: expires ? Math.floor(new Date(expires).getTime() / 1000) : undefined,
+      },
+      parentLink
+    );
+    if (violation) {
+      throw new AgentDidError(
+        `Not an attenuation of the parent credential: ${violation}`,
+        'INVALID_DELEGATION'
+      );
+    }
+
+    const credential = createCapabilityCredential(issuerDid, input.subject, scopes, {
+      audience,
+      expires,
+    });
+    attachDelegation(credential, parentJwt, parentLink.id);
+    return signAndStore(keystore, issuerDid, input, credential, options, 'vc.issue.capability');
+  });
+}
+
+/**
+ * Verify a JWT credential: signature, expiry, expected issuer/subject and revocation status.
+ * Delegated capabilities are verified link by link back to the root credential; the
+ * expected issuer then applies to the root (the owner).
+ * An invalid credential is a result (`valid: false`), not an error.
+ */
+export async function verifyCredential(
+  jwt: string,
+  input: VerifyCredentialInput = {}
+): Promise<CredentialVerification> {
+  return runService(async () => verifyChainLink(jwt.trim(), input, 1));
+}
+
+/**
+ * Verify a credential stored in a file (raw JWT or JSON with a jwt/credential field)
+ */
+export async function verifyCredentialFile(
+  file: string,
+  input: VerifyCredentialInput = {}
+): Promise<CredentialVerification> {
+  return runService(async () => verifyCredential(readJwtFile(file), input));
+}
+
+/**
+ * Verify a JWT-VP. Every embedded credential gets the same checks as `verifyCredential`
+ * (revocation status and delegation chain included).
+ */
+export async function verifyPresentation(
+  jwt: string,
+  input: VerifyPresentationInput = {}
+): Promise<PresentationVerificationResult> {
+  return runService(async () =>
+    verifyPresentationJwt(jwt.trim(), {
+      challenge: input.challenge,
+      domain: input.domain,
+      resolver: getResolverOptions(input.resolverUrl),
+      verifyCredential: (credential) =>
+        verifyChainLink(credential, { resolverUrl: input.resolverUrl }, 1, input.issuers),
+    })
+  );
+}
+
+/**
+ * Delete a stored credential; returns false if it was not found
+ */
+export async function deleteCredential(id: string, options: ServiceOptions = {}): Promise<boolean> {
+  return runService(async () => {
+    const keystore = await openKeystore(options);
+    const jwt = await findStoredJwt(keystore, id);
+    const deleted = await keystore.deleteCredential(id);
+    if (deleted) {
+      const payload = jwt ? (decodeCredential(jwt)?.payload as JWTPayload | undefined) : undefined;
+      recordAudit(options, {
+        operation: 'vc.delete',
+        did: payload?.iss ?? 'unknown',
+        target: id,
+        digest: jwt ? auditDigest(jwt) : undefined,
+      });
+    }
+    return deleted;
+  });
+}
+
+/**
+ * Helper: Verify one credential (and, recursively, its parents) at chain position `depth`.
+ * `allowedIssuers` (default: `input.issuer`) applies to the root credential.
+ */
+async function verifyChainLink(
+  jwt: string,
+  input: VerifyCredentialInput,
+  depth: number,
+  allowedIssuers: string[] | undefined = input.issuer ? [input.issuer] : undefined
+): Promise<CredentialVerification> {
+  const resolver = getResolverOptions(input.resolverUrl);
+  const parentJwt = getParentCredential(decodeCredential(jwt)?.payload as JWTPayload | undefined);
+  const result: CredentialVerification = await verifyCredentialJwt(jwt, {
+    allowedIssuers: parentJwt ? undefined : allowedIssuers,
+    expectedSubject: input.subject,
+    resolver,
+  });
+  if (!result.valid || !result.payload) {
+    return result;
+  }
+
+  // Check revocation status (the status list override only applies to the presented credential)
+  const status = await checkCredentialStatus(
+    result.payload,
+    depth === 1 ? input.statusList : undefined,
+    resolver
+  );
+  if (status.revoked) {
+    return { ...result, valid: false, reason: 'revoked', code: 'CREDENTIAL_REVOKED', status };
+  }
+  if (status.reason) {
+    return { ...result, valid: false, reason: status.reason, code: 'VERIFICATION_FAILED', status };
+  }
+  const checked: CredentialVerification = status.checked ? { ...result, status } : result;
+  if (!parentJwt) {
+    return checked;
+  }
+
+  // Walk the delegation chain
+  if (depth >= MAX_DELEGATION_DEPTH) {
+    return {
+      ...checked,
+      valid: false,
+      reason: `Delegation chain exceeds ${MAX_DELEGATION_DEPTH} credentials`,
+      code: 'VERIFICATION_FAILED',
+    };
+  }
+  const parent = await verifyChainLink(
+    parentJwt,
+    { resolverUrl: input.resolverUrl },
+    depth + 1,
+    allowedIssuers
+  );
+  if (!parent.valid || !parent.payload) {
+    return {
+      ...checked,
+      valid: false,
+      reason: `Parent credential is invalid: ${parent.reason}`,
+      code: parent.code ?? 'VERIFICATION_FAILED',
+    };
+  }
+
+  const link = capabilityLinkOf(result.payload);
+  const parentLink = capabilityLinkOf(parent.payload);
+  const violation = checkAttenuation(link, parentLink);
+  if (violation) {
+    return {
+      ...checked,
+      valid: false,
+      reason: `Invalid delegation: ${violation}`,
+      code: 'VERIFICATION_FAILED',
+    };
+  }
+  return { ...checked, chain: [...(parent.chain || [parentLink]), link] };
+}
+
+/**
+ * Helper: Resolve the issuer (default owner) and check it is an owner in the keystore
+ */
+async function requireOwnerIssuer(keystore: Keystore, explicit?: string): Promise<StoredIdentity> {
+  const did = getDefaultOwnerDid(explicit);
+  if (!did) {
+    throw new InvalidArgumentError(
+      'Issuer DID required. Use --issuer or configure a default owner DID.'
+    );
+  }
+
+  const identity = await keystore.getIdentity(did);
+  if (!identity) {
+    throw new NotFoundError(`Issuer identity not found: ${did}`);
+  }
+  if (identity.type !== 'owner') {
+    throw new AgentDidError(
+      `Issuer must be an owner: ${did}. Agents can only delegate capabilities they hold (--parent).`,
+      'INVALID_IDENTITY_TYPE'
+    );
+  }
+  return identity;
+}
+
+/**
+ * Helper: Attach a status entry, sign as the issuer, record the signature in the
+ * audit log and store the credential
+ */
+async function signAndStore(
+  keystore: Keystore,
+  issuer: string,
+  input: IssueOwnershipInput,
+  credential: object,
+  options: ServiceOptions,
+  operation: AuditOperation
+): Promise<IssuedCredential> {
+  assertSignerAllowed(options, issuer);
+  const keyPair = await getSigningKeyPair(keystore, issuer);
+  if (!keyPair) {
+    throw new MissingKeyError(issuer);
+  }
+
+  // Add revocation status entry
+  await attachCredentialStatus(
+    KeystoreManager.getStorePath(options.store),
+    credential,
+    issuer,
+    keyPair,
+    input.statusListUrl
+  );
+
+  const jwt = await signCredentialAs(issuer, credential, keyPair);
+  recordAudit(options, { operation, did: issuer, target: input.subject, digest: auditDigest(jwt) });
+  const id = input.save !== false ? await storeJwtCredential(keystore, jwt) : undefined;
+
+  return { jwt, id, issuer, subject: input.subject };
+}
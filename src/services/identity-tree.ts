@@ -0,0 +1,228 @@
+import { decodeCredential, type JWTPayload } from 'agent-did';
+import KeystoreManager from '../utils/keystore-manager.js';
+import { NotFoundError } from '../utils/error-handler.js';
+import { extractJwt, summarizeCredential } from '../utils/credentials.js';
+import { capabilityLinkOf } from '../utils/delegation.js';
+import { localRevocationStatus } from '../utils/status-list.js';
+import { keyTypeOf, type KeyType } from '../utils/key-types.js';
+import {
+  labelsOf,
+  descriptionOf,
+  matchesLabelSelectors,
+  type IdentityLabels,
+} from '../utils/identity-labels.js';
+import { listIdentities, type IdentityFilter } from './identity.js';
+import { openKeystore, runService, type ServiceOptions, type StoredIdentity } from './context.js';
+
+/**
+ * Credentials expiring within this window are reported as `expiring`
+ */
+export const EXPIRING_SOON_SECONDS = 7 * 24 * 3600;
+
+/**
+ * Expiry state of a credential: no expiry, valid, valid but expiring soon, or expired
+ */
+export type ExpiryState = 'none' | 'active' | 'expiring' | 'expired';
+
+/**
+ * An ownership or capability credential held by an agent in the local store
+ */
+export interface HeldCredential {
+  id: string;
+  kind: 'ownership' | 'capability';
+  issuer?: string;
+  scopes?: string[];
+  audience?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  expiry: ExpiryState;
+  /** Only known when the issuer's status list is in this keystore */
+  revoked?: boolean;
+  /** Capability re-delegated from a parent credential */
+  delegated?: boolean;
+}
+
+/**
+ * Identity fields shown in the tree
+ */
+export interface IdentityNode {
+  did: string;
+  name: string;
+  keyType: KeyType;
+  labels?: IdentityLabels;
+  description?: string;
+  createdAt: string;
+}
+
+/**
+ * An agent and the credentials held for it
+ */
+export interface AgentNode extends IdentityNode {
+  ownerDid?: string;
+  credentials: HeldCredential[];
+}
+
+/**
+ * An owner and its agents
+ */
+export interface OwnerNode extends IdentityNode {
+  agents: AgentNode[];
+}
+
+/**
+ * Owner/agent hierarchy of a keystore's active identities. Agents whose owner is
+ * not in the keystore, is archived or is missing are listed as orphans.
+ */
+export interface IdentityTree {
+  owners: OwnerNode[];
+  orphans: AgentNode[];
+  summary: {
+    owners: number;
+    agents: number;
+    orphans: number;
+    credentials: number;
+    expired: number;
+    expiring: number;
+    revoked: number;
+  };
+}
+
+/**
+ * Build the owner/agent hierarchy with each agent's stored credentials.
+ * `owner` limits the tree to one owner; label selectors apply to agents;
+ * `sort` orders owners and agents.
+ */
+export async function getIdentityTree(
+  filter: Omit<IdentityFilter, 'type' | 'archived'> = {},
+  options: ServiceOptions = {}
+): Promise<IdentityTree> {
+  return runService(async () => {
+    const identities = await listIdentities({ sort: filter.sort }, options);
+    if (filter.owner && !identities.some((identity) => identity.did === filter.owner)) {
+      throw new NotFoundError(`Owner identity not found: ${filter.owner}`);
+    }
+
+    const keystore = await openKeystore(options);
+    const storePath = KeystoreManager.getStorePath(options.store);
+    const credentialsBySubject = new Map<string, HeldCredential[]>();
+    for (const item of await keystore.listCredentials()) {
+      const jwt = extractJwt(item.data);
+      const held = jwt ? describeHeldCredential(item.id, jwt, storePath) : undefined;
+      if (held) {
+        const list = credentialsBySubject.get(held.subject) ?? [];
+        list.push(held.credential);
+        credentialsBySubject.set(held.subject, list);
+      }
+    }
+
+    const ownerDids = new Set(
+      identities.filter((identity) => identity.type === 'owner').map((identity) => identity.did)
+    );
+    const agents = identities
+      .filter(
+        (identity) =>
+          identity.type === 'agent' && matchesLabelSelectors(labelsOf(identity), filter.labels)
+      )
+      .map(
+        (identity): AgentNode => ({
+          ...nodeOf(identity),
+          ...(identity.ownerDid && { ownerDid: identity.ownerDid }),
+          credentials: credentialsBySubject.get(identity.did) ?? [],
+        })
+      );
+
+    const owners = identities
+      .filter(
+        (identity) =>
+          identity.type === 'owner' && (!filter.owner || identity.did === filter.owner)
+      )
+      .map(
+        (identity): OwnerNode => ({
+          ...nodeOf(identity),
+          agents: agents.filter((agent) => agent.ownerDid === identity.did),
+        })
+      );
+    const orphans = filter.owner
+      ? []
+      : agents.filter((agent) => !agent.ownerDid || !ownerDids.has(agent.ownerDid));
+
+    const shown = [...owners.flatMap((owner) => owner.agents), ...orphans];
+    const credentials = shown.flatMap((agent) => agent.credentials);
+    return {
+      owners,
+      orphans,
+      summary: {
+        owners: owners.length,
+        agents: shown.length,
+        orphans: orphans.length,
+        credentials: credentials.length,
+        expired: credentials.filter((credential) => credential.expiry === 'expired').length,
+        expiring: credentials.filter((credential) => credential.expiry === 'expiring').length,
+        revoked: credentials.filter((credential) => credential.revoked).length,
+      },
+    };
+  });
+}
+
+/**
+ * Helper: Identity fields shown in the tree
+ */
+function nodeOf(identity: StoredIdentity): IdentityNode {
+  const labels = labelsOf(identity);
+  const description = descriptionOf(identity);
+  return {
+    did: identity.did,
+    name: identity.name,
+    keyType: keyTypeOf(identity),
+    ...(Object.keys(labels).length > 0 && { labels }),
+    ...(description && { description }),
+    createdAt: identity.createdAt,
+  };
+}
+
+/**
+ * Helper: Summarize a stored ownership or capability credential (undefined for other types)
+ */
+function describeHeldCredential(
+  id: string,
+  jwt: string,
+  storePath: string
+): { subject: string; credential: HeldCredential } | undefined {
+  const summary = summarizeCredential(jwt);
+  const payload = decodeCredential(jwt)?.payload as JWTPayload | undefined;
+  const kind = summary.types?.some((type) => /capability/i.test(type))
+    ? 'capability'
+    : summary.types?.some((type) => /ownership/i.test(type))
+      ? 'ownership'
+      : undefined;
+  if (!payload || !summary.subject || !kind) return undefined;
+
+  const revoked = localRevocationStatus(storePath, payload);
+  const link = kind === 'capability' ? capabilityLinkOf(payload) : undefined;
+  const delegated = Boolean((payload.vc as { delegation?: unknown } | undefined)?.delegation);
+  return {
+    subject: summary.subject,
+    credential: {
+      id,
+      kind,
+      issuer: summary.issuer,
+      ...(link && { scopes: link.scopes }),
+      ...(link?.audience && { audience: link.audience }),
+      issuedAt: summary.issuedAt,
+      expiresAt: summary.expiresAt,
+      expiry: expiryStateOf(payload.exp),
+      ...(revoked !== undefined && { revoked }),
+      ...(delegated && { delegated }),
+    },
+  };
+}
+
+/**
+ * Helper: Expiry state for a JWT `exp` (unix seconds)
+ */
+function expiryStateOf(exp?: number): ExpiryState {
+  if (!exp) return 'none';
+  const remaining = exp - Date.now() / 1000;
+  if (remaining < 0) return 'expired';
+  return remaining < EXPIRING_SOON_SECONDS ? 'expiring' : 'active';
+}
@@ -0,0 +1,676 @@
+import { generateKeyPair, decodeCredential, type Keystore, type JWTPayload } from 'agent-did';
+import {
+  AgentDidError,
+  AlreadyExistsError,
+  InvalidArgumentError,
+  NotFoundError,
+} from '../utils/error-handler.js';
+import { publicKeyToDidKey } from '../utils/did-key.js';
+import { generateEcKeyPair, parseKeyType, type KeyType } from '../utils/key-types.js';
+import { getDefaultOwnerDid } from '../utils/plugin-config.js';
+import { auditDigest } from '../utils/audit-log.js';
+import { updateIdentityMetadata } from '../utils/identity-store.js';
+import { extractJwt } from '../utils/credentials.js';
+import {
+  DEFAULT_ARCHIVE_GRACE_DAYS,
+  archiveOf,
+  newArchive,
+  isArchiveExpired,
+} from '../utils/identity-archive.js';
+import {
+  parseLabels,
+  validateLabelKey,
+  labelsOf,
+  matchesLabelSelectors,
+  type IdentityLabels,
+} from '../utils/identity-labels.js';
+import {
+  keyIdFor,
+  buildDidDocument,
+  didWebFromDomain,
+  didWebToUrl,
+  type DidDocument,
+} from '../utils/did-resolver.js';
+import {
+  openKeystore,
+  openNewKeystore,
+  recordAudit,
+  runService,
+  type ServiceOptions,
+  type StoredIdentity,
+} from './context.js';
+
+/**
+ * Input for creating an owner identity
+ */
+export interface CreateOwnerInput {
+  name: string;
+  method?: 'key' | 'web';
+  domain?: string;
+  /** Key type (default: ed25519) */
+  keyType?: string;
+  /** Free-form labels, e.g. { team: 'billing' } */
+  labels?: IdentityLabels;
+  description?: string;
+}
+
+/**
+ * Input for creating an agent identity (owner defaults to the configured owner)
+ */
+export interface CreateAgentInput extends CreateOwnerInput {
+  owner?: string;
+}
+
+/**
+ * A newly created identity
+ */
+export interface CreatedIdentity {
+  did: string;
+  kid: string;
+  name: string;
+  type: 'owner' | 'agent';
+  keyType: KeyType;
+  ownerDid?: string;
+  labels?: IdentityLabels;
+  description?: string;
+  createdAt: string;
+  didDocument?: DidDocument;
+  didDocumentUrl?: string;
+}
+
+/**
+ * Selectors and ordering for listing identities
+ */
+export interface IdentityFilter {
+  type?: 'owner' | 'agent';
+  /** Only agents of this owner */
+  owner?: string;
+  /** Label selectors: `key=value`, `key!=value` or `key` (all must match) */
+  labels?: string[];
+  /** Order by name, creation date or type (default: keystore order) */
+  sort?: 'name' | 'created' | 'type';
+  /** Only archived identities (default: only active ones) */
+  archived?: boolean;
+}
+
+/**
+ * Changes to an identity's descriptive metadata (its DID and keys never change)
+ */
+export interface UpdateIdentityInput {
+  did: string;
+  name?: string;
+  /** New description ('' removes it) */
+  description?: string;
+  /** Labels to add or change */
+  labels?: IdentityLabels;
+  /** Label keys to remove */
+  removeLabels?: string[];
+}
+
+/**
+ * Input for deleting (or archiving) an identity.
+ * An owner whose agents still reference it is only deleted with `cascade` or `orphan`.
+ */
+export interface DeleteIdentityInput {
+  did: string;
+  /** Also delete the owner's agents and the credentials issued by or to every deleted DID */
+  cascade?: boolean;
+  /** Delete the owner but keep its agents (they become orphans) */
+  orphan?: boolean;
+  /** Archive instead of deleting; restorable with `restoreIdentity` for `graceDays` */
+  archive?: boolean;
+  /** Grace period in days for `archive` (default: 30) */
+  graceDays?: number;
+}
+
+/**
+ * What a deletion removed (or archived)
+ */
+export interface DeletionResult {
+  /** The identity itself first, then cascaded agents */
+  identities: StoredIdentity[];
+  /** IDs of removed credentials (cascade only; archiving keeps credentials) */
+  credentials: string[];
+  /** Agents left without their owner */
+  orphaned: string[];
+  archived: boolean;
+  /** Archived identities can be restored until this date */
+  purgeAfter?: string;
+}
+
+/**
+ * Archived identities removed (or, on a dry run, due for removal) by a purge
+ */
+export interface PurgeResult {
+  identities: StoredIdentity[];
+  credentials: string[];
+  dryRun: boolean;
+}
+
+/**
+ * Create an owner identity
+ */
+export async function createOwner(
+  input: CreateOwnerInput,
+  options: ServiceOptions = {}
+): Promise<CreatedIdentity> {
+  return runService(async () => {
+    const keystore = await openNewKeystore(options);
+
+    // Generate key pair
+    const keyType = parseKeyTypeInput(input.keyType);
+    const keyPair = await generateIdentityKeyPair(keyType);
+    const did = deriveDid(input, keyPair.publicKey, keyType);
+
+    if (await keystore.getIdentity(did)) {
+      throw new AlreadyExistsError(`Identity already exists: ${did}`);
+    }
+
+    // Store identity
+    const metadata = {
+      did,
+      type: 'owner' as const,
+      name: input.name,
+      keyType,
+      ...describedBy(input),
+      createdAt: new Date().toISOString(),
+    };
+    await keystore.storeIdentity(metadata, keyPair);
+    recordAudit(options, {
+      operation: 'identity.create',
+      did,
+      digest: auditDigest(keyPair.publicKey),
+    });
+
+    return describeCreated(metadata, keyPair.publicKey);
+  });
+}
+
+/**
+ * Create an agent identity belonging to an owner in the keystore
+ */
+export async function createAgent(
+  input: CreateAgentInput,
+  options: ServiceOptions = {}
+): Promise<CreatedIdentity> {
+  return runService(async () => {
+    const keystore = await openNewKeystore(options);
+
+    // Verify owner exists
+    const ownerDid = getDefaultOwnerDid(input.owner);
+    if (!ownerDid) {
+      throw new InvalidArgumentError(
+        'Owner DID required. Use --owner or configure a default owner DID.'
+      );
+    }
+    const ownerIdentity = await keystore.getIdentity(ownerDid);
+    if (!ownerIdentity) {
+      throw new NotFoundError(`Owner identity not found: ${ownerDid}`);
+    }
+    if (ownerIdentity.type !== 'owner') {
+      throw new AgentDidError(`Specified DID is not an owner: ${ownerDid}`, 'INVALID_IDENTITY_TYPE');
+    }
+    if (archiveOf(ownerIdentity)) {
+      throw new AgentDidError(`Owner identity is archived: ${ownerDid}`, 'IDENTITY_ARCHIVED');
+    }
+
+    // Generate key pair
+    const keyType = parseKeyTypeInput(input.keyType);
+    const keyPair = await generateIdentityKeyPair(keyType);
+    const did = deriveDid(input, keyPair.publicKey, keyType);
+
+    if (await keystore.getIdentity(did)) {
+      throw new AlreadyExistsError(`Identity already exists: ${did}`);
+    }
+
+    // Store identity with owner reference
+    const metadata = {
+      did,
+      type: 'agent' as const,
+      name: input.name,
+      keyType,
+      ...describedBy(input),
+      createdAt: new Date().toISOString(),
+      ownerDid,
+    };
+    await keystore.storeIdentity(metadata, keyPair);
+    recordAudit(options, {
+      operation: 'identity.create',
+      did,
+      target: metadata.ownerDid,
+      digest: auditDigest(keyPair.publicKey),
+    });
+
+    return describeCreated(metadata, keyPair.publicKey);
+  });
+}
+
+/**
+ * List identities matching a filter
+ */
+export async function listIdentities(
+  filter: IdentityFilter = {},
+  options: ServiceOptions = {}
+): Promise<StoredIdentity[]> {
+  return runService(async () => {
+    if (filter.type && !['owner', 'agent'].includes(filter.type)) {
+      throw new InvalidArgumentError(`Invalid type: ${filter.type} (expected owner or agent)`);
+    }
+    if (filter.sort && !SORT_ORDERS[filter.sort]) {
+      throw new InvalidArgumentError(
+        `Invalid sort: ${filter.sort} (expected ${Object.keys(SORT_ORDERS).join(', ')})`
+      );
+    }
+
+    const keystore = await openKeystore(options);
+    const identities = (await keystore.listIdentities()).filter(
+      (identity) =>
+        (!filter.type || identity.type === filter.type) &&
+        (!filter.owner || identity.ownerDid === filter.owner) &&
+        Boolean(archiveOf(identity)) === Boolean(filter.archived) &&
+        matchesLabelSelectors(labelsOf(identity), filter.labels)
+    );
+    return filter.sort ? identities.sort(SORT_ORDERS[filter.sort]) : identities;
+  });
+}
+
+/**
+ * Get an identity by DID (throws NOT_FOUND if missing)
+ */
+export async function getIdentity(did: string, options: ServiceOptions = {}): Promise<StoredIdentity> {
+  return runService(async () => {
+    const keystore = await openKeystore(options);
+    const identity = await keystore.getIdentity(did);
+    if (!identity) {
+      throw new NotFoundError(`Identity not found: ${did}`);
+    }
+    return identity;
+  });
+}
+
+/**
+ * Rename, relabel or re-describe an identity; returns the updated metadata
+ */
+export async function updateIdentity(
+  input: UpdateIdentityInput,
+  options: ServiceOptions = {}
+): Promise<StoredIdentity> {
+  return runService(async () => {
+    if (
+      input.name === undefined &&
+      input.description === undefined &&
+      Object.keys(input.labels ?? {}).length === 0 &&
+      (input.removeLabels ?? []).length === 0
+    ) {
+      throw new InvalidArgumentError(
+        'Nothing to update. Use --name, --description, --label or --remove-label.'
+      );
+    }
+    if (input.name !== undefined && input.name.trim() === '') {
+      throw new InvalidArgumentError('Name cannot be empty');
+    }
+    const labels = validateLabels(input.labels);
+    const removed = (input.removeLabels ?? []).map((key) =>
+      validateLabelInput(() => validateLabelKey(key))
+    );
+
+    const keystore = await openKeystore(options);
+    if (!(await keystore.getIdentity(input.did))) {
+      throw new NotFoundError(`Identity not found: ${input.did}`);
+    }
+
+    return updateIdentityMetadata(keystore, input.did, (metadata) => {
+      const next: StoredIdentity & DescriptiveMetadata = {
+        ...metadata,
+        updatedAt: new Date().toISOString(),
+      };
+      if (input.name !== undefined) {
+        next.name = input.name;
+      }
+      if (input.description === '') {
+        delete next.description;
+      } else if (input.description !== undefined) {
+        next.description = input.description;
+      }
+
+      const nextLabels: IdentityLabels = { ...labelsOf(metadata), ...labels };
+      for (const key of removed) {
+        delete nextLabels[key];
+      }
+      if (Object.keys(nextLabels).length > 0) {
+        next.labels = nextLabels;
+      } else {
+        delete next.labels;
+      }
+      return next;
+    });
+  });
+}
+
+/**
+ * Delete an identity and its keys, or archive it for later restore.
+ * Refuses (HAS_DEPENDENTS) while agents reference the identity as their owner,
+ * unless `cascade` or `orphan` says what should happen to them.
+ */
+export async function deleteIdentity(
+  input: DeleteIdentityInput,
+  options: ServiceOptions = {}
+): Promise<DeletionResult> {
+  return runService(async () => {
+    if (input.cascade && input.orphan) {
+      throw new InvalidArgumentError('Use either --cascade or --orphan, not both');
+    }
+    const graceDays = input.graceDays ?? DEFAULT_ARCHIVE_GRACE_DAYS;
+    if (!(graceDays > 0)) {
+      throw new InvalidArgumentError('Grace period must be a positive number of days');
+    }
+
+    const keystore = await openKeystore(options);
+    const identity = await keystore.getIdentity(input.did);
+    if (!identity) {
+      throw new NotFoundError(`Identity not found: ${input.did}`);
+    }
+    if (input.archive && archiveOf(identity)) {
+      throw new AgentDidError(`Identity is already archived: ${input.did}`, 'IDENTITY_ARCHIVED');
+    }
+
+    const dependents = (await keystore.listIdentities()).filter(
+      (other) => other.ownerDid === input.did && other.did !== input.did
+    );
+    if (dependents.length > 0 && !input.cascade && !input.orphan) {
+      throw new AgentDidError(
+        `${identity.name} still owns ${dependents.length} agent(s). ` +
+          'Use --cascade to delete them too or --orphan to keep them without an owner.',
+        'HAS_DEPENDENTS',
+        { agents: dependents.map((agent) => agent.did) }
+      );
+    }
+
+    const targets = input.cascade ? [identity, ...dependents] : [identity];
+    const orphaned = input.orphan ? dependents.map((agent) => agent.did) : [];
+
+    if (input.archive) {
+      const archived: StoredIdentity[] = [];
+      for (const target of targets) {
+        // Agents archived on their own keep their own grace period
+        if (target !== identity && archiveOf(target)) continue;
+        const archive = newArchive(graceDays, target === identity ? undefined : input.did);
+        archived.push(
+          await updateIdentityMetadata(keystore, target.did, (metadata) => ({ ...metadata, archived: archive }))
+        );
+        recordAudit(options, { operation: 'identity.archive', did: target.did, target: target.ownerDid });
+      }
+      return {
+        identities: archived,
+        credentials: [],
+        orphaned,
+        archived: true,
+        purgeAfter: archiveOf(archived[0])?.purgeAfter,
+      };
+    }
+
+    const credentials = input.cascade
+      ? await removeCredentialsOf(keystore, targets.map((target) => target.did), options)
+      : [];
+    await removeIdentities(keystore, targets, options);
+    return { identities: targets, credentials, orphaned, archived: false };
+  });
+}
+
+/**
+ * Restore an archived identity (and the agents archived along with it)
+ * within its grace period; returns the restored metadata
+ */
+export async function restoreIdentity(
+  did: string,
+  options: ServiceOptions = {}
+): Promise<StoredIdentity[]> {
+  return runService(async () => {
+    const keystore = await openKeystore(options);
+    const identity = await keystore.getIdentity(did);
+    if (!identity) {
+      throw new NotFoundError(`Identity not found: ${did}`);
+    }
+    const archive = archiveOf(identity);
+    if (!archive) {
+      throw new AgentDidError(`Identity is not archived: ${did}`, 'NOT_ARCHIVED');
+    }
+    if (isArchiveExpired(archive)) {
+      throw new AgentDidError(
+        `Grace period ended on ${archive.purgeAfter}; ${did} can no longer be restored`,
+        'GRACE_PERIOD_EXPIRED'
+      );
+    }
+
+    const agents = (await keystore.listIdentities()).filter(
+      (other) => archiveOf(other)?.archivedWith === did
+    );
+    const restored: StoredIdentity[] = [];
+    for (const target of [identity, ...agents]) {
+      restored.push(
+        await updateIdentityMetadata(keystore, target.did, (metadata) => {
+          const next: StoredIdentity & { archived?: unknown } = { ...metadata };
+          delete next.archived;
+          return next;
+        })
+      );
+      recordAudit(options, { operation: 'identity.restore', did: target.did, target: target.ownerDid });
+    }
+    return restored;
+  });
+}
+
+/**
+ * Permanently delete archived identities whose grace period has ended,
+ * together with the credentials issued by or to them.
+ * Refuses (HAS_DEPENDENTS) while agents outside the purge still reference one of them.
+ */
+export async function purgeArchivedIdentities(
+  input: { dryRun?: boolean } = {},
+  options: ServiceOptions = {}
+): Promise<PurgeResult> {
+  return runService(async () => {
+    const keystore = await openKeystore(options);
+    const identities = await keystore.listIdentities();
+    const expired = identities.filter((identity) => {
+      const archive = archiveOf(identity);
+      return archive !== undefined && isArchiveExpired(archive);
+    });
+    const dids = expired.map((identity) => identity.did);
+
+    // Same rule as delete: an owner is not removed while other agents reference it
+    const dependents = identities.filter(
+      (other) => other.ownerDid && dids.includes(other.ownerDid) && !dids.includes(other.did)
+    );
+    if (dependents.length > 0) {
+      throw new AgentDidError(
+        `${dependents.length} agent(s) still reference archived owners due for purging. ` +
+          'Delete them (or their owner with --cascade / --orphan) or restore the owner first.',
+        'HAS_DEPENDENTS',
+        { agents: dependents.map((agent) => agent.did) }
+      );
+    }
+
+    if (input.dryRun) {
+      const credentials = (await credentialsOf(keystore, dids)).map((credential) => credential.id);
+      return { identities: expired, credentials, dryRun: true };
+    }
+
+    const credentials = await removeCredentialsOf(keystore, dids, options);
+    await removeIdentities(keystore, expired, options);
+    return { identities: expired, credentials, dryRun: false };
+  });
+}
+
+/**
+ * Descriptive fields this plugin adds to identity metadata
+ */
+type DescriptiveMetadata = { labels?: IdentityLabels; description?: string; updatedAt?: string };
+
+/**
+ * Identity orderings for `IdentityFilter.sort`
+ */
+const SORT_ORDERS: Record<string, (a: StoredIdentity, b: StoredIdentity) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  created: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  type: (a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name),
+};
+
+/**
+ * Helper: Delete identities and their keys
+ */
+async function removeIdentities(
+  keystore: Keystore,
+  identities: StoredIdentity[],
+  options: ServiceOptions
+): Promise<void> {
+  for (const identity of identities) {
+    await keystore.deleteIdentity(identity.did);
+    recordAudit(options, { operation: 'identity.delete', did: identity.did, target: identity.ownerDid });
+  }
+}
+
+/**
+ * Helper: Stored credentials issued by or to any of `dids`
+ */
+async function credentialsOf(
+  keystore: Keystore,
+  dids: string[]
+): Promise<Array<{ id: string; jwt: string; issuer?: string }>> {
+  const matches: Array<{ id: string; jwt: string; issuer?: string }> = [];
+  for (const item of await keystore.listCredentials()) {
+    const jwt = extractJwt(item.data);
+    const payload = jwt ? (decodeCredential(jwt)?.payload as JWTPayload | undefined) : undefined;
+    if (jwt && payload && (dids.includes(payload.iss) || dids.includes(payload.sub ?? ''))) {
+      matches.push({ id: item.id, jwt, issuer: payload.iss });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Helper: Delete the stored credentials issued by or to any of `dids`; returns their IDs
+ */
+async function removeCredentialsOf(
+  keystore: Keystore,
+  dids: string[],
+  options: ServiceOptions
+): Promise<string[]> {
+  const removed: string[] = [];
+  for (const credential of await credentialsOf(keystore, dids)) {
+    if (await keystore.deleteCredential(credential.id)) {
+      recordAudit(options, {
+        operation: 'vc.delete',
+        did: credential.issuer ?? 'unknown',
+        target: credential.id,
+        digest: auditDigest(credential.jwt),
+      });
+      removed.push(credential.id);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Helper: Labels and description for new identity metadata (omitted when empty)
+ */
+function describedBy(input: CreateOwnerInput): { labels?: IdentityLabels; description?: string } {
+  const labels = validateLabels(input.labels);
+  return {
+    ...(Object.keys(labels).length > 0 && { labels }),
+    ...(input.description && { description: input.description }),
+  };
+}
+
+/**
+ * Helper: Validate labels given as an object (keys and values as for `--label`)
+ */
+function validateLabels(labels: IdentityLabels = {}): IdentityLabels {
+  return validateLabelInput(() =>
+    parseLabels(Object.entries(labels).map(([key, value]) => `${key}=${value}`))
+  );
+}
+
+/**
+ * Helper: Surface label validation errors as INVALID_ARGUMENT
+ */
+function validateLabelInput<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (error) {
+    throw new InvalidArgumentError((error as Error).message);
+  }
+}
+
+/**
+ * Helper: Parse the requested key type as a service error
+ */
+function parseKeyTypeInput(value?: string): KeyType {
+  try {
+    return parseKeyType(value);
+  } catch (error) {
+    throw new InvalidArgumentError((error as Error).message);
+  }
+}
+
+/**
+ * Helper: Generate a key pair of the given type
+ */
+async function generateIdentityKeyPair(
+  keyType: KeyType
+): Promise<{ privateKey: Uint8Array; publicKey: Uint8Array }> {
+  return keyType === 'ed25519' ? generateKeyPair() : generateEcKeyPair(keyType);
+}
+
+/**
+ * Helper: Derive the DID for a new identity from its method/domain
+ */
+function deriveDid(input: CreateOwnerInput, publicKey: Uint8Array, keyType: KeyType): string {
+  switch (input.method ?? 'key') {
+    case 'key':
+      return publicKeyToDidKey(publicKey, keyType);
+    case 'web':
+      if (!input.domain) {
+        throw new InvalidArgumentError('--domain is required when using --method web');
+      }
+      return didWebFromDomain(input.domain);
+    default:
+      throw new InvalidArgumentError(
+        `Unsupported DID method: ${input.method} (expected key or web)`
+      );
+  }
+}
+
+/**
+ * Helper: Describe a created identity (with its DID Document for did:web)
+ */
+function describeCreated(
+  metadata: {
+    did: string;
+    type: 'owner' | 'agent';
+    name: string;
+    keyType: KeyType;
+    labels?: IdentityLabels;
+    description?: string;
+    createdAt: string;
+    ownerDid?: string;
+  },
+  publicKey: Uint8Array
+): CreatedIdentity {
+  const isWeb = metadata.did.startsWith('did:web:');
+  return {
+    did: metadata.did,
+    kid: keyIdFor(metadata.did),
+    name: metadata.name,
+    type: metadata.type,
+    keyType: metadata.keyType,
+    ...(metadata.ownerDid && { ownerDid: metadata.ownerDid }),
+    ...(metadata.labels && { labels: metadata.labels }),
+    ...(metadata.description && { description: metadata.description }),
+    createdAt: metadata.createdAt,
+    ...(isWeb && {
+      didDocument: buildDidDocument(metadata.did, publicKey, 'Multikey', metadata.keyType),
+      didDocumentUrl: didWebToUrl(metadata.did),
+    }),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * agent-did service layer: business logic shared by the CLI commands, the agent
+ * tools and backend services. Functions return typed results, throw AgentDidError
+ * and never write to the console or exit the process.
+ */
+export type { ServiceOptions, StoredIdentity } from './context.js';
+export {
+  createOwner,
+  createAgent,
+  listIdentities,
+  getIdentity,
+  updateIdentity,
+  deleteIdentity,
+  restoreIdentity,
+  purgeArchivedIdentities,
+  type IdentityFilter,
+  type UpdateIdentityInput,
+  type DeleteIdentityInput,
+  type DeletionResult,
+  type PurgeResult,
+  type CreateOwnerInput,
+  type CreateAgentInput,
+  type CreatedIdentity,
+} from './identity.js';
+export type { IdentityLabels } from '../utils/identity-labels.js';
+export type { IdentityArchive } from '../utils/identity-archive.js';
+export {
+  getIdentityTree,
+  type IdentityTree,
+  type OwnerNode,
+  type AgentNode,
+  type HeldCredential,
+  type ExpiryState,
+} from './identity-tree.js';
+export {
+  issueOwnership,
+  issueCapability,
+  verifyCredential,
+  verifyCredentialFile,
+  verifyPresentation,
+  deleteCredential,
+  type IssueOwnershipInput,
+  type IssueCapabilityInput,
+  type IssuedCredential,
+  type VerifyCredentialInput,
+  type VerifyPresentationInput,
+  type CredentialVerification,
+} from './credentials.js';
+export {
+  verifyTrustBundle,
+  getTrustedOwners,
+  type TrustBundleInput,
+  type TrustBundleResult,
+  type BundleCredentialResult,
+} from './trust-bundle.js';
+export {
+  authorize,
+  authorizeFile,
+  type AuthorizeInput,
+  type AuthorizationDecision,
+} from './authorization.js';
+export {
+  signChallenge,
+  verifyChallenge,
+  purgeReplays,
+  type SignChallengeInput,
+  type SignedChallenge,
+  type VerifyChallengeInput,
+} from './auth.js';
+export {
+  startSigner,
+  getDefaultSignerSocket,
+  type SignerOptions,
+  type SignerEvent,
+  type SignerStatus,
+  type SignerHandle,
+  type SignerRequest,
+  type SignerResponse,
+} from './signer.js';
+export {
+  getSignerSocket,
+  getSignerSocketFor,
+  signChallengeWithSigner,
+  issueOwnershipWithSigner,
+  issueCapabilityWithSigner,
+  getSignerStatus,
+  lockSigner,
+} from './signer-client.js';
+export { listAuditEntries, verifyAuditLog, type AuditFilter } from './audit.js';
+export type { AuditEntry, AuditOperation, AuditVerification } from '../utils/audit-log.js';
+export {
+  registerWithService,
+  getRegistrationService,
+  type RegisterInput,
+  type ServiceRegistration,
+  type RegistrationResult,
+} from './registration.js';
@@ -0,0 +1,212 @@
+import type { Keystore } from 'agent-did';
+import { AgentDidError, InvalidArgumentError, NotFoundError } from '../utils/error-handler.js';
+import { extractJwt, readJwtFile, summarizeCredential } from '../utils/credentials.js';
+import { updateIdentityMetadata } from '../utils/identity-store.js';
+import { signChallenge } from './auth.js';
+import { openKeystore, runService, type ServiceOptions } from './context.js';
+
+/**
+ * Default registration service
+ */
+export const DEFAULT_REGISTRATION_SERVICE = 'https://agent-did.xyz';
+
+/**
+ * Registration request timeout
+ */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Input for registering an identity with a service
+ */
+export interface RegisterInput {
+  did: string;
+  service?: string;
+  audience?: string;
+  domain?: string;
+  expiresIn?: number;
+  attachOwnership?: boolean;
+  ownershipFile?: string;
+}
+
+/**
+ * Registration stored on the identity metadata (`registrations`)
+ */
+export interface ServiceRegistration {
+  service: string;
+  serviceId?: string;
+  registeredAt: string;
+  ownershipCredentialId?: string;
+}
+
+/**
+ * Result of a completed registration
+ */
+export interface RegistrationResult {
+  registration: ServiceRegistration;
+  response: unknown;
+}
+
+/**
+ * Get the registration service base URL: explicit > AGENT_DID_REGISTRATION_URL > agent-did.xyz
+ */
+export function getRegistrationService(explicit?: string): string {
+  return (explicit || process.env.AGENT_DID_REGISTRATION_URL || DEFAULT_REGISTRATION_SERVICE).replace(
+    /\/+$/,
+    ''
+  );
+}
+
+/**
+ * Register an identity with a service:
+ * `POST /api/register/init` -> sign the returned challenge -> `POST /api/register/complete`.
+ * The registration (service ID and timestamp) is recorded on the identity.
+ */
+export async function registerWithService(
+  input: RegisterInput,
+  options: ServiceOptions = {}
+): Promise<RegistrationResult> {
+  return runService(async () => {
+    const service = getRegistrationService(input.service);
+    let serviceUrl: URL;
+    try {
+      serviceUrl = new URL(service);
+    } catch {
+      throw new InvalidArgumentError(`Invalid service URL: ${service}`);
+    }
+
+    const keystore = await openKeystore(options);
+    const identity = await keystore.getIdentity(input.did);
+    if (!identity) {
+      throw new NotFoundError(`Identity not found: ${input.did}`);
+    }
+
+    // Ownership credential to present (optional)
+    let ownership: { id?: string; jwt: string } | undefined;
+    if (input.ownershipFile) {
+      ownership = { jwt: readJwtFile(input.ownershipFile) };
+    } else if (input.attachOwnership) {
+      ownership = await findOwnershipCredential(keystore, input.did, identity.ownerDid);
+      if (!ownership) {
+        throw new NotFoundError(
+          `No stored ownership credential found for: ${input.did}. ` +
+            'Issue one with `vc issue ownership` or pass --ownership-file.'
+        );
+      }
+    }
+
+    // 1. Request a challenge
+    const init = await postJson(`${service}/api/register/init`, { did: input.did });
+    const { challenge, nonce } = (init || {}) as { challenge?: unknown; nonce?: unknown };
+    const issued = challenge ?? nonce;
+    if (typeof issued !== 'string' || !issued) {
+      throw new AgentDidError('Registration service did not return a challenge', 'REGISTRATION_FAILED', {
+        response: init,
+      });
+    }
+
+    // 2. Sign it with the identity key
+    const signed = await signChallenge(
+      {
+        did: input.did,
+        challenge: issued,
+        audience: input.audience || serviceUrl.origin,
+        domain: input.domain || serviceUrl.hostname,
+        expiresIn: input.expiresIn ?? 300,
+      },
+      options
+    );
+
+    // 3. Complete the registration
+    const response = await postJson(`${service}/api/register/complete`, {
+      ...signed,
+      ...(ownership && { ownershipCredential: ownership.jwt }),
+    });
+
+    const body = (response && typeof response === 'object' ? response : {}) as Record<string, unknown>;
+    const serviceId = [body.serviceId, body.agentId, body.id].find(
+      (value) => typeof value === 'string' || typeof value === 'number'
+    );
+    const registration: ServiceRegistration = {
+      service,
+      ...(serviceId !== undefined && { serviceId: String(serviceId) }),
+      registeredAt: new Date().toISOString(),
+      ...(ownership?.id && { ownershipCredentialId: ownership.id }),
+    };
+
+    // 4. Record it on the identity (one entry per service)
+    await updateIdentityMetadata(keystore, input.did, (metadata) => {
+      const existing = ((metadata as { registrations?: ServiceRegistration[] }).registrations || [])
+        .filter((entry) => entry.service !== service);
+      return { ...metadata, registrations: [...existing, registration] };
+    });
+
+    return { registration, response };
+  });
+}
+
+/**
+ * Helper: POST JSON and return the parsed response (throws on non-2xx)
+ */
+async function postJson(url: string, body: unknown): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new AgentDidError(
+      `Cannot reach registration service: ${url} (${(error as Error).message})`,
+      'REGISTRATION_FAILED'
+    );
+  }
+
+  const text = await response.text();
+  let parsed: unknown = text;
+  try {
+    parsed = text ? JSON.parse(text) : {};
+  } catch {
+    // Keep the raw text for error details
+  }
+
+  if (!response.ok) {
+    const message =
+      (parsed as { error?: unknown; message?: unknown })?.error ??
+      (parsed as { message?: unknown })?.message;
+    throw new AgentDidError(
+      `Registration request failed (HTTP ${response.status}): ${
+        typeof message === 'string' ? message : url
+      }`,
+      'REGISTRATION_FAILED',
+      { status: response.status, response: parsed }
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Helper: Find the newest unexpired stored ownership credential for a subject
+ * (issued by its owner when known)
+ */
+async function findOwnershipCredential(
+  keystore: Keystore,
+  subject: string,
+  ownerDid?: string
+): Promise<{ id: string; jwt: string } | undefined> {
+  const candidates = (await keystore.listCredentials())
+    .map((item) => ({ id: item.id, jwt: extractJwt(item.data) }))
+    .filter((item): item is { id: string; jwt: string } => Boolean(item.jwt))
+    .map((item) => ({ ...item, summary: summarizeCredential(item.jwt) }))
+    .filter(
+      (item) =>
+        item.summary.subject === subject &&
+        !item.summary.expired &&
+        (!ownerDid || item.summary.issuer === ownerDid) &&
+        item.summary.types?.some((type: string) => /ownership/i.test(type))
+    )
+    .sort((a, b) => (b.summary.issuedAt || '').localeCompare(a.summary.issuedAt || ''));
+
+  return candidates[0] && { id: candidates[0].id, jwt: candidates[0].jwt };
+}
@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import KeystoreManager from '../utils/keystore-manager.js';
+import { AgentDidError, InvalidArgumentError } from '../utils/error-handler.js';
+import { getDefaultOwnerDid } from '../utils/plugin-config.js';
+import { runService } from './context.js';
+import type { SignChallengeInput, SignedChallenge } from './auth.js';
+import type { IssueOwnershipInput, IssueCapabilityInput, IssuedCredential } from './credentials.js';
+import type { SignerRequest, SignerResponse, SignerStatus } from './signer.js';
+
+/**
+ * Maximum time to wait for the signer daemon
+ */
+const SIGNER_TIMEOUT_MS = 30_000;
+
+/**
+ * Get the signer daemon socket: explicit > AGENT_DID_SIGNER_SOCK (undefined: sign locally)
+ */
+export function getSignerSocket(explicit?: string): string | undefined {
+  return explicit || process.env.AGENT_DID_SIGNER_SOCK || undefined;
+}
+
+/**
+ * Get the signer socket for a signing command (undefined: sign locally).
+ * `--no-signer` signs locally; an explicit `--store` must be the signer's keystore,
+ * so that a command never signs with another store's keys than the one it named.
+ */
+export async function getSignerSocketFor(options: {
+  signer?: boolean;
+  store?: string;
+}): Promise<string | undefined> {
+  const socket = options.signer === false ? undefined : getSignerSocket();
+  if (!socket || !options.store) return socket;
+
+  const store = KeystoreManager.getStorePath(options.store);
+  const status = await getSignerStatus(socket);
+  if (status.store !== store) {
+    throw new InvalidArgumentError(
+      `--store ${store} is not the signer's keystore (${status.store}). Use --no-signer to sign with it locally.`
+    );
+  }
+  return socket;
+}
+
+/**
+ * Sign an authentication challenge through the signer daemon
+ */
+export async function signChallengeWithSigner(
+  socket: string,
+  input: SignChallengeInput
+): Promise<SignedChallenge> {
+  return runService(() => callSigner(socket, { op: 'sign-challenge', input }) as Promise<SignedChallenge>);
+}
+
+/**
+ * Issue an ownership credential through the signer daemon.
+ * The default owner is resolved here, not in the daemon's environment.
+ */
+export async function issueOwnershipWithSigner(
+  socket: string,
+  input: IssueOwnershipInput
+): Promise<IssuedCredential> {
+  return runService(
+    () =>
+      callSigner(socket, {
+        op: 'issue-ownership',
+        input: { ...input, issuer: getDefaultOwnerDid(input.issuer) },
+      }) as Promise<IssuedCredential>
+  );
+}
+
+/**
+ * Issue a capability credential through the signer daemon.
+ * A parent credential file is passed as an absolute path (the daemon has its own working directory).
+ */
+export async function issueCapabilityWithSigner(
+  socket: string,
+  input: IssueCapabilityInput
+): Promise<IssuedCredential> {
+  return runService(() => {
+    const parent = input.parent && fs.existsSync(input.parent) ? path.resolve(input.parent) : input.parent;
+    const issuer = parent ? input.issuer : getDefaultOwnerDid(input.issuer);
+    return callSigner(socket, {
+      op: 'issue-capability',
+      input: { ...input, issuer, parent },
+    }) as Promise<IssuedCredential>;
+  });
+}
+
+/**
+ * Get the state of a running signer daemon
+ */
+export async function getSignerStatus(socket: string): Promise<SignerStatus> {
+  return runService(() => callSigner(socket, { op: 'status' }) as Promise<SignerStatus>);
+}
+
+/**
+ * Lock a running signer daemon (it forgets the keystore and exits)
+ */
+export async function lockSigner(socket: string): Promise<void> {
+  return runService(async () => {
+    await callSigner(socket, { op: 'lock' });
+  });
+}
+
+/**
+ * Helper: Send one request to the signer daemon and return its result
+ */
+function callSigner(socket: string, request: SignerRequest): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    const connection = net.createConnection(socket);
+    connection.setTimeout(SIGNER_TIMEOUT_MS, () => {
+      connection.destroy();
+      reject(new AgentDidError(`Signer did not answer within ${SIGNER_TIMEOUT_MS / 1000}s`, 'SIGNER_UNAVAILABLE'));
+    });
+
+    connection.on('connect', () => connection.write(JSON.stringify(request) + '\n'));
+    connection.on('data', (chunk) => (raw += chunk.toString('utf8')));
+    connection.on('error', (error) =>
+      reject(
+        new AgentDidError(
+          `Signer not reachable at ${socket} (${error.message}). Start it with "agent-did signer start" or unset AGENT_DID_SIGNER_SOCK.`,
+          'SIGNER_UNAVAILABLE'
+        )
+      )
+    );
+    connection.on('end', () => {
+      let response: SignerResponse;
+      try {
+        response = JSON.parse(raw);
+      } catch {
+        reject(new AgentDidError('Invalid response from signer', 'SIGNER_UNAVAILABLE'));
+        return;
+      }
+      if (response.ok) {
+        resolve(response.result);
+      } else {
+        reject(new AgentDidError(response.error.message, response.error.code));
+      }
+    });
+  });
+}
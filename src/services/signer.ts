@@ -0,0 +1,326 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import KeystoreManager from '../utils/keystore-manager.js';
+import {
+  AgentDidError,
+  normalizeError,
+  AlreadyExistsError,
+  InvalidArgumentError,
+  MissingKeyError,
+  NotFoundError,
+} from '../utils/error-handler.js';
+import { openKeystore, runService, type ServiceOptions } from './context.js';
+import { signChallenge, type SignChallengeInput } from './auth.js';
+import {
+  issueOwnership,
+  issueCapability,
+  type IssueOwnershipInput,
+  type IssueCapabilityInput,
+} from './credentials.js';
+
+/**
+ * Maximum accepted request size
+ */
+const MAX_REQUEST_BYTES = 64 * 1024;
+
+/**
+ * Request sent to the signer daemon (one JSON object per line)
+ */
+export type SignerRequest =
+  | { op: 'status' }
+  | { op: 'lock' }
+  | { op: 'sign-challenge'; input: SignChallengeInput }
+  | { op: 'issue-ownership'; input: IssueOwnershipInput }
+  | { op: 'issue-capability'; input: IssueCapabilityInput };
+
+/**
+ * Response of the signer daemon (one JSON object per line)
+ */
+export type SignerResponse =
+  | { ok: true; result: unknown }
+  | { ok: false; error: { message: string; code?: string } };
+
+/**
+ * Options for the signer daemon
+ */
+export interface SignerOptions extends ServiceOptions {
+  /** DIDs allowed to sign (default: every identity in the keystore) */
+  allowedDids?: string[];
+  /** Seconds without signing requests before the signer locks and exits (0: never) */
+  idleTimeout?: number;
+  onEvent?: (event: SignerEvent) => void;
+}
+
+/**
+ * Event emitted for every signing request and when the signer locks
+ */
+export interface SignerEvent {
+  type: 'signed' | 'rejected' | 'locked';
+  op?: SignerRequest['op'];
+  did?: string;
+  reason?: string;
+}
+
+/**
+ * State reported by `status`
+ */
+export interface SignerStatus {
+  pid: number;
+  store: string;
+  dids: string[];
+  idleTimeout: number;
+  startedAt: string;
+  /** When the signer locks unless it signs something before */
+  locksAt?: string;
+}
+
+/**
+ * A running signer daemon
+ */
+export interface SignerHandle {
+  socket: string;
+  status: () => SignerStatus;
+  /** Forget the unlocked keystore, close the socket and remove it */
+  lock: (reason?: string) => Promise<void>;
+  /** Resolves once the signer has locked */
+  closed: Promise<void>;
+}
+
+/**
+ * Default socket: `<tmpdir>/agent-did-<uid>/signer.sock` in a directory only the user can access
+ */
+export function getDefaultSignerSocket(): string {
+  const uid = typeof process.getuid === 'function' ? process.getuid() : os.userInfo().uid;
+  const dir = path.join(os.tmpdir(), `agent-did-${uid}`);
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  const stat = fs.lstatSync(dir);
+  if (!stat.isDirectory() || stat.uid !== uid || (stat.mode & 0o077) !== 0) {
+    throw new AgentDidError(
+      `Refusing to use ${dir}: it must be a directory owned by you and not accessible to others. Use --socket.`,
+      'PERMISSION_DENIED'
+    );
+  }
+  return path.join(dir, 'signer.sock');
+}
+
+/**
+ * Unlock the keystore once and serve signing requests for `auth sign` and
+ * `vc issue` on a Unix socket:
+ *
+ * - `sign-challenge` `{ input }` -> `signChallenge`
+ * - `issue-ownership` / `issue-capability` `{ input }` -> issued credential (stored as usual)
+ * - `status` -> `SignerStatus`
+ * - `lock` -> locks the signer
+ *
+ * Only DIDs on the allow-list may sign. After `idleTimeout` seconds without a
+ * signing request the signer locks: the keystore is dropped from memory and the
+ * socket is removed.
+ */
+export async function startSigner(socket: string, options: SignerOptions = {}): Promise<SignerHandle> {
+  return runService(async () => {
+    const keystore = await openKeystore(options);
+    const identities = await keystore.listIdentities();
+
+    // Loading every allowed key proves the passphrase before serving anything
+    const dids = options.allowedDids ?? identities.map((identity) => identity.did);
+    for (const did of dids) {
+      if (!identities.some((identity) => identity.did === did)) {
+        throw new NotFoundError(`Identity not found: ${did}`);
+      }
+      if (!(await keystore.getKeyPair(did))) {
+        throw new MissingKeyError(did);
+      }
+    }
+    if (dids.length === 0) {
+      throw new NotFoundError('No identities to serve');
+    }
+
+    await removeStaleSocket(socket);
+
+    const serviceOptions: ServiceOptions = {
+      store: options.store,
+      noEncryption: options.noEncryption,
+      allowedSigners: dids,
+    };
+    const idleTimeout = options.idleTimeout ?? 900;
+    const startedAt = new Date().toISOString();
+    const emit = (event: SignerEvent) => options.onEvent?.(event);
+
+    let locksAt: number | undefined;
+    let idleTimer: NodeJS.Timeout | undefined;
+    let locked = false;
+    let resolveClosed: () => void = () => {};
+    const closed = new Promise<void>((resolve) => (resolveClosed = resolve));
+
+    const server = net.createServer((connection) => {
+      readRequest(connection)
+        .then((request) => handle(request))
+        .then((result) => ({ ok: true as const, result }))
+        .catch((error) => {
+          const normalized = normalizeError(error);
+          return {
+            ok: false as const,
+            error: { message: normalized.message, ...(normalized.code && { code: normalized.code }) },
+          };
+        })
+        .then((response: SignerResponse) => connection.end(JSON.stringify(response) + '\n'));
+      connection.on('error', () => connection.destroy());
+    });
+
+    const status = (): SignerStatus => ({
+      pid: process.pid,
+      store: KeystoreManager.getStorePath(options.store),
+      dids,
+      idleTimeout,
+      startedAt,
+      ...(locksAt && { locksAt: new Date(locksAt).toISOString() }),
+    });
+
+    const lock = async (reason = 'Locked') => {
+      if (locked) return closed;
+      locked = true;
+      clearTimeout(idleTimer);
+      KeystoreManager.clearCache();
+      server.close();
+      fs.rmSync(socket, { force: true });
+      emit({ type: 'locked', reason });
+      resolveClosed();
+      return closed;
+    };
+
+    const resetIdleTimer = () => {
+      if (idleTimeout <= 0) return;
+      clearTimeout(idleTimer);
+      locksAt = Date.now() + idleTimeout * 1000;
+      idleTimer = setTimeout(() => void lock(`Idle for ${idleTimeout}s`), idleTimeout * 1000);
+    };
+
+    const handle = async (request: SignerRequest): Promise<unknown> => {
+      if (locked) {
+        throw new AgentDidError('Signer is locked', 'SIGNER_LOCKED');
+      }
+
+      switch (request.op) {
+        case 'status':
+          return status();
+        case 'lock':
+          setImmediate(() => void lock('Locked on request'));
+          return { locked: true };
+        case 'sign-challenge':
+        case 'issue-ownership':
+        case 'issue-capability':
+          break;
+        default:
+          throw new InvalidArgumentError(
+            `Unknown signer operation: ${(request as { op?: unknown }).op}`
+          );
+      }
+
+      resetIdleTimer();
+      const did = request.op === 'sign-challenge' ? request.input.did : request.input.issuer;
+      try {
+        const result = await performSigning(request, serviceOptions);
+        emit({ type: 'signed', op: request.op, did: (result as { issuer?: string }).issuer ?? did });
+        return result;
+      } catch (error) {
+        emit({ type: 'rejected', op: request.op, did, reason: normalizeError(error).message });
+        throw error;
+      }
+    };
+
+    // Create the socket as 0600 (chmod after listen would leave a window where others can connect)
+    const previousUmask = process.umask(0o177);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(socket, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } finally {
+      process.umask(previousUmask);
+    }
+    fs.chmodSync(socket, 0o600);
+    resetIdleTimer();
+
+    return { socket, status, lock, closed };
+  });
+}
+
+/**
+ * Helper: Run a signing request with the signer's (unlocked) keystore
+ */
+async function performSigning(
+  request: Extract<SignerRequest, { input: unknown }>,
+  options: ServiceOptions
+): Promise<unknown> {
+  switch (request.op) {
+    case 'sign-challenge':
+      return signChallenge(request.input, options);
+    case 'issue-ownership':
+      return issueOwnership(request.input, options);
+    case 'issue-capability':
+      return issueCapability(request.input, options);
+  }
+}
+
+/**
+ * Helper: Remove a socket left behind by a signer that is no longer running
+ */
+async function removeStaleSocket(socket: string): Promise<void> {
+  if (!fs.existsSync(socket)) return;
+
+  const alive = await new Promise<boolean>((resolve) => {
+    const probe = net.createConnection(socket);
+    probe.once('connect', () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => resolve(false));
+  });
+  if (alive) {
+    throw new AlreadyExistsError(`A signer is already running on ${socket}`);
+  }
+  fs.rmSync(socket, { force: true });
+}
+
+/**
+ * Helper: Read one JSON request line from a connection (the connection stays open for the reply)
+ */
+function readRequest(connection: net.Socket): Promise<SignerRequest> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+
+    const finish = () => {
+      connection.off('data', onData);
+      connection.off('end', finish);
+      try {
+        const parsed = JSON.parse(raw.split('\n')[0]);
+        if (!parsed || typeof parsed !== 'object' || typeof parsed.op !== 'string') {
+          throw new Error('missing op');
+        }
+        resolve(parsed as SignerRequest);
+      } catch {
+        reject(new InvalidArgumentError('Signer request must be a JSON object with an op'));
+      }
+    };
+
+    const onData = (chunk: Buffer) => {
+      raw += chunk.toString('utf8');
+      if (raw.length > MAX_REQUEST_BYTES) {
+        connection.off('data', onData);
+        connection.off('end', finish);
+        reject(new InvalidArgumentError('Signer request too large'));
+      } else if (raw.includes('\n')) {
+        finish();
+      }
+    };
+
+    connection.on('data', onData);
+    connection.on('end', finish);
+  });
+}
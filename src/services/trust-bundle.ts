@@ -0,0 +1,184 @@
+import type { JWTPayload, Keystore } from 'agent-did';
+import {
+  InvalidArgumentError,
+  NotFoundError,
+  type VerificationFailureCode,
+} from '../utils/error-handler.js';
+import { loadJwtReference, summarizeCredential } from '../utils/credentials.js';
+import { capabilityLinkOf } from '../utils/delegation.js';
+import { openKeystore, runService, type ServiceOptions } from './context.js';
+import { verifyCredential } from './credentials.js';
+
+/**
+ * Input for verifying an ownership credential together with capability credentials.
+ * Credentials are JWT files or stored credential IDs.
+ */
+export interface TrustBundleInput {
+  ownership: string;
+  capabilities: string[];
+  /** Allowed owner DIDs (default: AGENT_DID_TRUSTED_OWNERS); without any, no bundle is trusted */
+  trustedOwners?: string[];
+  /** Expected agent DID */
+  subject?: string;
+  resolverUrl?: string;
+}
+
+/**
+ * Verification result for one credential of the bundle
+ */
+export interface BundleCredentialResult {
+  role: 'ownership' | 'capability';
+  source: string;
+  id?: string;
+  valid: boolean;
+  reason?: string;
+  code?: VerificationFailureCode;
+  issuer?: string;
+  /** Root issuer of a delegated capability */
+  rootIssuer?: string;
+  subject?: string;
+  scopes?: string[];
+}
+
+/**
+ * Consolidated trust decision
+ */
+export interface TrustBundleResult {
+  trusted: boolean;
+  owner?: string;
+  agent?: string;
+  trustedOwnerCheck: 'passed' | 'failed' | 'unconfigured';
+  /** Why the bundle is not trusted (empty when trusted) */
+  reasons: string[];
+  credentials: BundleCredentialResult[];
+}
+
+/**
+ * Get the trusted owner allowlist: explicit > AGENT_DID_TRUSTED_OWNERS (comma-separated)
+ */
+export function getTrustedOwners(explicit?: string[]): string[] | undefined {
+  if (explicit && explicit.length > 0) return explicit;
+  const value = process.env.AGENT_DID_TRUSTED_OWNERS;
+  const owners = value?.split(',').map((did) => did.trim()).filter(Boolean);
+  return owners && owners.length > 0 ? owners : undefined;
+}
+
+/**
+ * Verify an ownership credential and capability credentials as one trust bundle:
+ * every credential is valid, all share the same agent subject, every capability
+ * was issued (directly or as the root of its delegation chain) by the owner, and
+ * the owner is on the trusted-owner allowlist (which must be set).
+ */
+export async function verifyTrustBundle(
+  input: TrustBundleInput,
+  options: ServiceOptions = {}
+): Promise<TrustBundleResult> {
+  return runService(async () => {
+    if (input.capabilities.length === 0) {
+      throw new InvalidArgumentError('At least one capability credential is required');
+    }
+
+    let keystore: Keystore | undefined;
+    const getKeystore = async () => (keystore ??= await openKeystore(options));
+    const load = async (ref: string): Promise<string> => {
+      const jwt = await loadJwtReference(ref, getKeystore);
+      if (!jwt) {
+        throw new NotFoundError(`Credential not found (file or stored ID): ${ref}`);
+      }
+      return jwt;
+    };
+
+    const reasons: string[] = [];
+    const credentials: BundleCredentialResult[] = [];
+
+    // 1. Ownership credential
+    const ownershipJwt = await load(input.ownership);
+    const ownership = await verifyCredential(ownershipJwt, { resolverUrl: input.resolverUrl });
+    const ownershipPayload = ownership.payload as JWTPayload | undefined;
+    const ownershipResult: BundleCredentialResult = {
+      role: 'ownership',
+      source: input.ownership,
+      id: summarizeCredential(ownershipJwt).id,
+      valid: ownership.valid,
+      reason: ownership.reason,
+      code: ownership.code,
+      issuer: ownershipPayload?.iss,
+      subject: ownershipPayload?.sub,
+    };
+    const types = (ownershipPayload?.vc as { type?: unknown } | undefined)?.type;
+    if (ownership.valid && !(Array.isArray(types) && types.some((type) => /ownership/i.test(type)))) {
+      ownershipResult.valid = false;
+      ownershipResult.reason = 'Not an ownership credential';
+      ownershipResult.code = 'VERIFICATION_FAILED';
+    }
+    credentials.push(ownershipResult);
+    if (!ownershipResult.valid) {
+      reasons.push(`Ownership credential is invalid: ${ownershipResult.reason}`);
+    }
+
+    const owner = ownershipResult.issuer;
+    const agent = input.subject || ownershipResult.subject;
+    if (input.subject && ownershipResult.subject !== input.subject) {
+      reasons.push(`Ownership credential is for ${ownershipResult.subject}, expected ${input.subject}`);
+    }
+
+    // 2. Capability credentials
+    for (const ref of input.capabilities) {
+      const result = await verifyCredential(await load(ref), { resolverUrl: input.resolverUrl });
+      const link = result.payload ? capabilityLinkOf(result.payload as JWTPayload) : undefined;
+      const rootIssuer = result.chain ? result.chain[0].issuer : link?.issuer;
+      const entry: BundleCredentialResult = {
+        role: 'capability',
+        source: ref,
+        id: link?.id,
+        valid: result.valid,
+        reason: result.reason,
+        code: result.code,
+        issuer: link?.issuer,
+        ...(result.chain && { rootIssuer }),
+        subject: link?.subject,
+        scopes: link?.scopes,
+      };
+
+      if (entry.valid && link && link.scopes.length === 0) {
+        entry.valid = false;
+        entry.reason = 'Not a capability credential';
+        entry.code = 'VERIFICATION_FAILED';
+      } else if (entry.valid && agent && link?.subject !== agent) {
+        entry.valid = false;
+        entry.reason = `Subject ${link?.subject} does not match the agent ${agent}`;
+        entry.code = 'VERIFICATION_FAILED';
+      } else if (entry.valid && owner && rootIssuer !== owner) {
+        entry.valid = false;
+        entry.reason = `Issued by ${rootIssuer}, not by the owner ${owner}`;
+        entry.code = 'WRONG_ISSUER';
+      }
+
+      credentials.push(entry);
+      if (!entry.valid) {
+        reasons.push(`Capability ${entry.id || ref} rejected: ${entry.reason}`);
+      }
+    }
+
+    // 3. Trusted owners (fail closed: any key can issue a self-consistent bundle)
+    const trustedOwners = getTrustedOwners(input.trustedOwners);
+    let trustedOwnerCheck: TrustBundleResult['trustedOwnerCheck'] = 'unconfigured';
+    if (!trustedOwners) {
+      reasons.push('No trusted owners configured (use --trusted-owner or AGENT_DID_TRUSTED_OWNERS)');
+    } else {
+      trustedOwnerCheck = owner && trustedOwners.includes(owner) ? 'passed' : 'failed';
+      if (trustedOwnerCheck === 'failed') {
+        reasons.push(`Owner ${owner ?? '(unknown)'} is not a trusted owner`);
+      }
+    }
+
+    return {
+      trusted: reasons.length === 0,
+      owner,
+      agent,
+      trustedOwnerCheck,
+      reasons,
+      credentials,
+    };
+  });
+}
@@ -0,0 +1,355 @@
+import KeystoreManager from '../utils/keystore-manager.js';
+import { outputJson } from '../utils/output-formatter.js';
+import {
+  AgentDidError,
+  normalizeError,
+  InvalidArgumentError,
+  NotFoundError,
+} from '../utils/error-handler.js';
+import { getDefaultOwnerDid } from '../utils/plugin-config.js';
+import { findStoredJwt, summarizeCredential } from '../utils/credentials.js';
+import { createApprovalRequest, consumeApproval, type ApprovalRequest } from '../utils/approvals.js';
+import { openKeystore } from '../services/context.js';
+import { listIdentities, getIdentity } from '../services/identity.js';
+import { issueCapability, verifyCredential, deleteCredential } from '../services/credentials.js';
+import { signChallenge } from '../services/auth.js';
+
+/**
+ * Result returned to the model by an agent tool
+ */
+export interface AgentToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  details?: unknown;
+  isError?: boolean;
+}
+
+/**
+ * Agent tool definition as registered with OpenClaw (JSON-schema parameters)
+ */
+export interface AgentTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  execute(toolCallId: string, params: Record<string, unknown>): Promise<AgentToolResult>;
+}
+
+/**
+ * Returned by privileged tools until the owner has approved the call
+ */
+export interface ApprovalRequiredResult {
+  status: 'approval_required';
+  approvalId: string;
+  action: string;
+  owner: string;
+  expiresAt: string;
+  instructions: string;
+}
+
+/**
+ * Build all agent-did tools.
+ * Tools use the configured keystore (plugin config / environment); issuance and
+ * deletion only run after the owner approves them with `agent-did approvals approve`.
+ */
+export function createAgentTools(): AgentTool[] {
+  return [
+    listIdentitiesTool(),
+    signChallengeTool(),
+    verifyCredentialTool(),
+    issueCapabilityTool(),
+    deleteCredentialTool(),
+  ];
+}
+
+/**
+ * List identities tool
+ */
+function listIdentitiesTool(): AgentTool {
+  return {
+    name: 'agent_did_list_identities',
+    description: 'List owner and agent identities (DID, name, type, owner, labels) in the keystore.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        type: { type: 'string', enum: ['owner', 'agent'], description: 'Only list this identity type' },
+        owner: { type: 'string', description: 'Only list agents of this owner DID' },
+        labels: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Label selectors that must all match: key=value, key!=value or key',
+        },
+      },
+    },
+    execute: (_toolCallId, params) =>
+      runTool(() => {
+        const type = optionalString(params, 'type');
+        if (type !== undefined && type !== 'owner' && type !== 'agent') {
+          throw new InvalidArgumentError(`Invalid type: ${type} (expected owner or agent)`);
+        }
+        return listIdentities({
+          type,
+          owner: optionalString(params, 'owner'),
+          labels: optionalStrings(params, 'labels'),
+        });
+      }),
+  };
+}
+
+/**
+ * Sign authentication challenge tool
+ */
+function signChallengeTool(): AgentTool {
+  return {
+    name: 'agent_did_sign_challenge',
+    description:
+      'Sign an authentication challenge (nonce) with an agent identity. ' +
+      'Returns the payload and signature to send to the verifying service.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['did', 'challenge'],
+      properties: {
+        did: { type: 'string', description: 'Agent DID to sign with' },
+        challenge: { type: 'string', description: 'Challenge string (nonce) to sign' },
+        audience: { type: 'string', description: 'Audience (server identifier)' },
+        domain: { type: 'string', description: 'Domain (server domain)' },
+        expiresIn: { type: 'integer', minimum: 1, default: 120, description: 'Expiration time in seconds' },
+      },
+    },
+    execute: (_toolCallId, params) =>
+      runTool(async () => {
+        // Only agent keys may be used by tools; owner keys stay with the human
+        const did = requiredString(params, 'did');
+        const identity = await getIdentity(did);
+        if (identity.type !== 'agent') {
+          throw new AgentDidError(
+            `Only agent identities can sign challenges via tools: ${did}`,
+            'INVALID_IDENTITY_TYPE'
+          );
+        }
+
+        return signChallenge({
+          did,
+          challenge: requiredString(params, 'challenge'),
+          audience: optionalString(params, 'audience'),
+          domain: optionalString(params, 'domain'),
+          expiresIn: optionalInteger(params, 'expiresIn'),
+        });
+      }),
+  };
+}
+
+/**
+ * Verify credential tool
+ */
+function verifyCredentialTool(): AgentTool {
+  return {
+    name: 'agent_did_verify_credential',
+    description:
+      'Verify a JWT Verifiable Credential: signature, expiry, expected issuer/subject and revocation status.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['jwt'],
+      properties: {
+        jwt: { type: 'string', description: 'JWT credential to verify' },
+        issuer: { type: 'string', description: 'Expected issuer DID' },
+        subject: { type: 'string', description: 'Expected subject DID' },
+      },
+    },
+    execute: (_toolCallId, params) =>
+      runTool(() =>
+        verifyCredential(requiredString(params, 'jwt'), {
+          issuer: optionalString(params, 'issuer'),
+          subject: optionalString(params, 'subject'),
+        })
+      ),
+  };
+}
+
+/**
+ * Issue capability credential tool (requires owner approval)
+ */
+function issueCapabilityTool(): AgentTool {
+  return {
+    name: 'agent_did_issue_capability',
+    description:
+      'Issue a capability credential from an owner to an agent. Requires owner approval: ' +
+      'the first call returns an approvalId; after the owner approves it, call again with the ' +
+      'same arguments plus approvalId.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['subject', 'scopes'],
+      properties: {
+        issuer: { type: 'string', description: 'Issuer (owner) DID; defaults to the configured owner' },
+        subject: { type: 'string', description: 'Subject (agent) DID' },
+        scopes: { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Granted scopes' },
+        audience: { type: 'string', description: 'Intended audience' },
+        expires: { type: 'string', description: 'Expiration date (ISO 8601)' },
+        approvalId: { type: 'string', description: 'Approval ID granted by the owner' },
+      },
+    },
+    execute: (_toolCallId, params) =>
+      runTool(async () => {
+        // Check the issuer before bothering the owner
+        const issuer = getDefaultOwnerDid(optionalString(params, 'issuer'));
+        if (!issuer) {
+          throw new InvalidArgumentError(
+            'Issuer DID required. Pass issuer or configure a default owner DID.'
+          );
+        }
+        const issuerIdentity = await getIdentity(issuer);
+        if (issuerIdentity.type !== 'owner') {
+          throw new AgentDidError(`Issuer must be an owner: ${issuer}`, 'INVALID_IDENTITY_TYPE');
+        }
+
+        // The approval is bound to exactly these arguments
+        const action = {
+          issuer,
+          subject: requiredString(params, 'subject'),
+          scopes: requiredStrings(params, 'scopes').map((scope) => scope.trim()),
+          audience: optionalString(params, 'audience'),
+          expires: optionalString(params, 'expires'),
+        };
+
+        const storePath = KeystoreManager.getStorePath();
+        const approvalId = optionalString(params, 'approvalId');
+        if (!approvalId) {
+          return approvalRequired(createApprovalRequest(storePath, 'issue_capability', issuer, action));
+        }
+        await consumeApproval(storePath, approvalId, 'issue_capability', action);
+
+        const { jwt, id } = await issueCapability(action);
+        return { status: 'issued', id, jwt };
+      }),
+  };
+}
+
+/**
+ * Delete stored credential tool (requires owner approval)
+ */
+function deleteCredentialTool(): AgentTool {
+  return {
+    name: 'agent_did_delete_credential',
+    description:
+      'Delete a stored credential by ID. Requires owner approval: the first call returns an ' +
+      'approvalId; after the owner approves it, call again with the same id plus approvalId.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Credential ID to delete' },
+        approvalId: { type: 'string', description: 'Approval ID granted by the owner' },
+      },
+    },
+    execute: (_toolCallId, params) =>
+      runTool(async () => {
+        const id = requiredString(params, 'id');
+        const jwt = await findStoredJwt(await openKeystore(), id);
+        if (!jwt) {
+          throw new NotFoundError(`Credential not found: ${id}`);
+        }
+
+        const storePath = KeystoreManager.getStorePath();
+        const action = { id };
+        const approvalId = optionalString(params, 'approvalId');
+        if (!approvalId) {
+          const owner = summarizeCredential(jwt).issuer || getDefaultOwnerDid() || 'unknown';
+          return approvalRequired(createApprovalRequest(storePath, 'delete_credential', owner, action));
+        }
+        await consumeApproval(storePath, approvalId, 'delete_credential', action);
+
+        const deleted = await deleteCredential(id);
+        return { status: 'deleted', deleted, id };
+      }),
+  };
+}
+
+/**
+ * Helper: Describe a pending approval to the model
+ */
+function approvalRequired(request: ApprovalRequest): ApprovalRequiredResult {
+  return {
+    status: 'approval_required',
+    approvalId: request.id,
+    action: request.action,
+    owner: request.owner,
+    expiresAt: request.expiresAt,
+    instructions:
+      `Ask the owner to review and run: openclaw agent-did approvals approve --id ${request.id} ` +
+      'then call this tool again with the same arguments and approvalId.',
+  };
+}
+
+/**
+ * Helper: Read an optional string parameter
+ */
+function optionalString(params: Record<string, unknown>, name: string): string | undefined {
+  const value = params[name];
+  if (value === undefined || typeof value === 'string') {
+    return value;
+  }
+  throw new InvalidArgumentError(`Parameter ${name} must be a string`);
+}
+
+/**
+ * Helper: Read a required string parameter
+ */
+function requiredString(params: Record<string, unknown>, name: string): string {
+  const value = optionalString(params, name);
+  if (!value) {
+    throw new InvalidArgumentError(`Parameter ${name} is required`);
+  }
+  return value;
+}
+
+/**
+ * Helper: Read an optional array-of-strings parameter
+ */
+function optionalStrings(params: Record<string, unknown>, name: string): string[] | undefined {
+  const value = params[name];
+  if (value === undefined || (Array.isArray(value) && value.every((item) => typeof item === 'string'))) {
+    return value as string[] | undefined;
+  }
+  throw new InvalidArgumentError(`Parameter ${name} must be an array of strings`);
+}
+
+/**
+ * Helper: Read a required, non-empty array-of-strings parameter
+ */
+function requiredStrings(params: Record<string, unknown>, name: string): string[] {
+  const value = optionalStrings(params, name);
+  if (!value?.length) {
+    throw new InvalidArgumentError(`Parameter ${name} is required`);
+  }
+  return value;
+}
+
+/**
+ * Helper: Read an optional integer parameter
+ */
+function optionalInteger(params: Record<string, unknown>, name: string): number | undefined {
+  const value = params[name];
+  if (value === undefined || Number.isInteger(value)) {
+    return value as number | undefined;
+  }
+  throw new InvalidArgumentError(`Parameter ${name} must be an integer`);
+}
+
+/**
+ * Helper: Run a tool body and wrap its result (or error) for the model
+ */
+async function runTool(fn: () => Promise<unknown>): Promise<AgentToolResult> {
+  try {
+    const result = await fn();
+    return { content: [{ type: 'text', text: outputJson(result) }], details: result };
+  } catch (error) {
+    const normalized = normalizeError(error);
+    const details = {
+      error: { code: normalized.code, message: normalized.message, details: normalized.details },
+    };
+    return { content: [{ type: 'text', text: outputJson(details) }], details, isError: true };
+  }
+}
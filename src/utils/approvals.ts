@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { AgentDidError, InvalidArgumentError, NotFoundError } from './error-handler.js';
+import { signJwt, decodeJwt, verifyJwtSignature } from './jwt.js';
+import { keyIdFor, resolvePublicKey, getResolverOptions, type ResolverOptions } from './did-resolver.js';
+import { withFileLock } from './file-lock.js';
+import type { RawKeyPair } from './signing.js';
+
+const APPROVALS_DIR = 'approvals';
+
+/**
+ * Default lifetime of an approval request (1 hour)
+ */
+export const DEFAULT_APPROVAL_TTL_SECONDS = 3600;
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'consumed';
+
+/**
+ * A privileged action requested by an agent tool, waiting for the owner
+ */
+export interface ApprovalRequest {
+  id: string;
+  action: string;
+  owner: string;
+  params: Record<string, unknown>;
+  paramsHash: string;
+  status: ApprovalStatus;
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  /** Decision signed by the owner (JWT over id, action, paramsHash, decision and expiry) */
+  decisionJwt?: string;
+  consumedAt?: string;
+}
+
+function approvalsDir(storePath: string): string {
+  return path.join(storePath, APPROVALS_DIR);
+}
+
+function approvalPath(storePath: string, id: string): string {
+  if (!/^[A-Za-z0-9-]+$/.test(id)) {
+    throw new InvalidArgumentError(`Invalid approval ID: ${id}`);
+  }
+  return path.join(approvalsDir(storePath), `${id}.json`);
+}
+
+function writeApproval(storePath: string, request: ApprovalRequest): void {
+  fs.mkdirSync(approvalsDir(storePath), { recursive: true });
+  fs.writeFileSync(approvalPath(storePath, request.id), JSON.stringify(request, null, 2), {
+    mode: 0o600,
+  });
+}
+
+/**
+ * Stable hash of action parameters (object keys sorted, undefined values dropped)
+ */
+export function hashApprovalParams(params: Record<string, unknown>): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value as Record<string, unknown>)
+          .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+          .sort()
+          .map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(canonical(params))).digest('hex');
+}
+
+/**
+ * Record a pending approval request for an action on behalf of `owner`
+ */
+export function createApprovalRequest(
+  storePath: string,
+  action: string,
+  owner: string,
+  params: Record<string, unknown>,
+  ttlSeconds = DEFAULT_APPROVAL_TTL_SECONDS
+): ApprovalRequest {
+  const now = Date.now();
+  const request: ApprovalRequest = {
+    id: crypto.randomUUID(),
+    action,
+    owner,
+    params,
+    paramsHash: hashApprovalParams(params),
+    status: 'pending',
+    requestedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+  };
+  writeApproval(storePath, request);
+  return request;
+}
+
+/**
+ * Load an approval request (null if missing)
+ */
+export function getApprovalRequest(storePath: string, id: string): ApprovalRequest | null {
+  const filePath = approvalPath(storePath, id);
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as ApprovalRequest;
+}
+
+/**
+ * List all approval requests, oldest first
+ */
+export function listApprovalRequests(storePath: string): ApprovalRequest[] {
+  const dir = approvalsDir(storePath);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as ApprovalRequest)
+    .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+}
+
+/**
+ * Approve or deny a pending request. The decision is signed with the owner's
+ * key pair, so editing the request file cannot approve it.
+ */
+export function decideApprovalRequest(
+  storePath: string,
+  id: string,
+  approve: boolean,
+  ownerKeyPair: RawKeyPair
+): ApprovalRequest {
+  return withFileLock(approvalPath(storePath, id), 'Approval request', () => {
+    const request = getApprovalRequest(storePath, id);
+    if (!request) {
+      throw new NotFoundError(`Approval request not found: ${id}`);
+    }
+    if (request.status !== 'pending') {
+      throw new InvalidArgumentError(`Approval request is already ${request.status}: ${id}`);
+    }
+    if (Date.parse(request.expiresAt) < Date.now()) {
+      throw new AgentDidError(`Approval request has expired: ${id}`, 'PERMISSION_DENIED');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    request.status = approve ? 'approved' : 'denied';
+    request.decidedAt = new Date(now * 1000).toISOString();
+    request.decisionJwt = signJwt(
+      { kid: keyIdFor(request.owner) },
+      {
+        iss: request.owner,
+        sub: request.id,
+        action: request.action,
+        paramsHash: request.paramsHash,
+        decision: request.status,
+        iat: now,
+        exp: Math.floor(Date.parse(request.expiresAt) / 1000),
+      },
+      ownerKeyPair.privateKey,
+      ownerKeyPair.publicKey,
+      ownerKeyPair.keyType
+    );
+    writeApproval(storePath, request);
+    return request;
+  });
+}
+
+/**
+ * Use an approval exactly once. The action and parameters must match the
+ * request, and the approval must carry a valid decision signed by the owner.
+ */
+export async function consumeApproval(
+  storePath: string,
+  id: string,
+  action: string,
+  params: Record<string, unknown>,
+  resolver: ResolverOptions = getResolverOptions()
+): Promise<ApprovalRequest> {
+  const request = getApprovalRequest(storePath, id);
+  if (!request) {
+    throw new NotFoundError(`Approval request not found: ${id}`);
+  }
+  if (request.action !== action || request.paramsHash !== hashApprovalParams(params)) {
+    throw new AgentDidError(`Approval ${id} was granted for a different action or parameters`, 'PERMISSION_DENIED');
+  }
+  if (request.status !== 'approved') {
+    throw new AgentDidError(`Approval request is ${request.status}, not approved: ${id}`, 'PERMISSION_DENIED');
+  }
+  if (Date.parse(request.expiresAt) < Date.now()) {
+    throw new AgentDidError(`Approval request has expired: ${id}`, 'PERMISSION_DENIED');
+  }
+  await verifyApprovalDecision(request, resolver);
+
+  // Re-check under the lock so that concurrent calls cannot both use the approval
+  return withFileLock(approvalPath(storePath, id), 'Approval request', () => {
+    const current = getApprovalRequest(storePath, id);
+    if (current?.status !== 'approved' || current.decisionJwt !== request.decisionJwt) {
+      throw new AgentDidError(
+        `Approval request is ${current?.status ?? 'missing'}, not approved: ${id}`,
+        'PERMISSION_DENIED'
+      );
+    }
+    current.status = 'consumed';
+    current.consumedAt = new Date().toISOString();
+    writeApproval(storePath, current);
+    return current;
+  });
+}
+
+/**
+ * Helper: Check that the owner signed an approval of exactly this request
+ */
+async function verifyApprovalDecision(
+  request: ApprovalRequest,
+  resolver: ResolverOptions
+): Promise<void> {
+  const denied = (reason: string) =>
+    new AgentDidError(`Approval ${request.id} ${reason}`, 'PERMISSION_DENIED', { owner: request.owner });
+  if (!request.decisionJwt) {
+    throw denied('is not signed by the owner');
+  }
+
+  let decoded;
+  try {
+    decoded = decodeJwt(request.decisionJwt);
+  } catch {
+    throw denied('has a malformed owner signature');
+  }
+  const payload = decoded.payload;
+  if (
+    payload.iss !== request.owner ||
+    payload.sub !== request.id ||
+    payload.action !== request.action ||
+    payload.paramsHash !== request.paramsHash ||
+    payload.decision !== 'approved'
+  ) {
+    throw denied('signature does not cover this request');
+  }
+  if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) {
+    throw denied('has expired');
+  }
+
+  let signatureValid = false;
+  try {
+    const key = await resolvePublicKey(
+      request.owner,
+      decoded.header.kid as string | undefined,
+      'assertionMethod',
+      resolver
+    );
+    signatureValid = verifyJwtSignature(decoded, key.publicKey, key.keyType);
+  } catch (error) {
+    throw denied(`owner key cannot be resolved: ${(error as Error).message}`);
+  }
+  if (!signatureValid) {
+    throw denied('is not signed by the owner');
+  }
+}
@@ -0,0 +1,387 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { withFileLock } from './file-lock.js';
+import { VerificationError } from './error-handler.js';
+
+const AUDIT_DIR = 'audit';
+const LOG_FILE = 'log.jsonl';
+const HEAD_FILE = 'head.json';
+
+/**
+ * scrypt parameters for deriving the head MAC key from the keystore passphrase
+ */
+const MAC_SCRYPT_PARAMS = { N: 2 ** 14, r: 8, p: 1 };
+
+/**
+ * `prevHash` of the first entry
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Private-key operations recorded in the audit log
+ */
+export const AUDIT_OPERATIONS = [
+  'identity.create',
+  'identity.delete',
+  'identity.archive',
+  'identity.restore',
+  'vc.issue.ownership',
+  'vc.issue.capability',
+  'vc.present',
+  'vc.revoke',
+  'vc.delete',
+  'auth.sign',
+  'approval.approve',
+  'approval.deny',
+] as const;
+
+export type AuditOperation = (typeof AUDIT_OPERATIONS)[number];
+
+/**
+ * What a caller records about one operation
+ */
+export interface AuditRecord {
+  operation: AuditOperation;
+  /** Identity whose key was used (or created/deleted) */
+  did: string;
+  /** Subject, audience or credential the operation was about */
+  target?: string;
+  /** SHA-256 (hex) of what was signed */
+  digest?: string;
+}
+
+/**
+ * One entry of the hash chain
+ */
+export interface AuditEntry extends AuditRecord {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Sequence number and hash of the last entry, kept next to the log so that
+ * truncating the log (dropping the newest entries) is detected. In an encrypted
+ * keystore the head is MACed with a key derived from the passphrase, so log and
+ * head cannot be rewritten together without it.
+ */
+interface AuditHead {
+  seq: number;
+  hash: string;
+  /** scrypt salt of the MAC key (base64) */
+  salt?: string;
+  /** HMAC-SHA256 of seq and hash (hex) */
+  mac?: string;
+}
+
+/**
+ * Result of checking the chain
+ */
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  /** Hash of the last entry */
+  head?: string;
+  /** Whether the head's MAC was checked against the keystore passphrase */
+  anchored: boolean;
+  /** Line of the first broken entry */
+  line?: number;
+  reason?: string;
+}
+
+/**
+ * Path of the audit log inside a keystore
+ */
+export function auditLogPath(storePath: string): string {
+  return path.join(storePath, AUDIT_DIR, LOG_FILE);
+}
+
+function auditHeadPath(storePath: string): string {
+  return path.join(storePath, AUDIT_DIR, HEAD_FILE);
+}
+
+/**
+ * Passphrase of each keystore opened in this process (null: unencrypted), by store path
+ */
+const passphrases = new Map<string, string | null>();
+
+/**
+ * Derived MAC keys, by passphrase and salt
+ */
+const macKeys = new Map<string, Buffer>();
+
+/**
+ * Remember the passphrase of an opened keystore, to MAC and check its audit head
+ */
+export function registerAuditKey(storePath: string, passphrase: string | null): void {
+  passphrases.set(path.resolve(storePath), passphrase);
+}
+
+/**
+ * SHA-256 (hex) of signed data, for `AuditRecord.digest`
+ */
+export function auditDigest(data: string | Uint8Array): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Append an entry chained to the previous one
+ */
+export function appendAuditEntry(storePath: string, record: AuditRecord): AuditEntry {
+  const logPath = auditLogPath(storePath);
+  fs.mkdirSync(path.dirname(logPath), { recursive: true, mode: 0o700 });
+  return withFileLock(logPath, 'Audit log', () => {
+    const head = readHead(storePath);
+    const passphrase = passphraseOf(storePath);
+    const last = lastEntry(storePath);
+    // Never re-anchor a head that verify would reject (that would bless a tampered chain)
+    const problem = head ? headMacProblem(head, passphrase) : last && 'Audit head is missing';
+    if (problem) {
+      throw new VerificationError(`${problem}: ${auditHeadPath(storePath)}. Run audit verify.`);
+    }
+
+    // A crash between appending an entry and writing the head leaves the log one entry ahead
+    const previous =
+      head && last && last.seq === head.seq + 1 && last.prevHash === head.hash
+        ? last
+        : (head ?? last);
+    const unsigned = {
+      seq: (previous?.seq ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      operation: record.operation,
+      did: record.did,
+      ...(record.target && { target: record.target }),
+      ...(record.digest && { digest: record.digest }),
+      prevHash: previous?.hash ?? GENESIS_HASH,
+    };
+    const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+
+    fs.appendFileSync(logPath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    writeHead(storePath, entry.seq, entry.hash, passphrase, head?.salt);
+    return entry;
+  });
+}
+
+/**
+ * Read all entries, oldest first (throws on a malformed line; see verifyAuditChain)
+ */
+export function readAuditEntries(storePath: string): AuditEntry[] {
+  return readLines(storePath).map((line, index) => {
+    try {
+      return JSON.parse(line) as AuditEntry;
+    } catch {
+      throw new Error(
+        `Audit log is corrupted at line ${index + 1}: ${auditLogPath(storePath)}. Run audit verify.`
+      );
+    }
+  });
+}
+
+/**
+ * Check that every entry hashes correctly, links to its predecessor and that the
+ * last entry matches the recorded head (nothing was edited, removed or truncated).
+ * The head's MAC is checked when the keystore was opened with its passphrase.
+ */
+export function verifyAuditChain(storePath: string): AuditVerification {
+  const lines = readLines(storePath);
+  const passphrase = passphraseOf(storePath);
+  const anchored = passphrase !== null;
+  const hashes: string[] = [];
+  let prevHash = GENESIS_HASH;
+
+  for (const [index, line] of lines.entries()) {
+    const broken = (reason: string): AuditVerification => ({
+      valid: false,
+      entries: lines.length,
+      anchored,
+      line: index + 1,
+      reason,
+    });
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line) as AuditEntry;
+    } catch {
+      return broken('Entry is not valid JSON');
+    }
+    if (entry.seq !== index + 1) {
+      return broken(
+        `Expected sequence number ${index + 1}, found ${entry.seq} (entries removed or reordered)`
+      );
+    }
+    if (entry.prevHash !== prevHash) {
+      return broken('Entry does not link to the previous entry');
+    }
+    const { hash, ...unsigned } = entry;
+    if (hash !== hashEntry(unsigned)) {
+      return broken('Entry hash does not match its content (entry edited)');
+    }
+    prevHash = hash;
+    hashes.push(hash);
+  }
+
+  const last = lines.length > 0 ? prevHash : undefined;
+  const result = (reason?: string): AuditVerification =>
+    reason
+      ? { valid: false, entries: lines.length, anchored, head: last, reason }
+      : { valid: true, entries: lines.length, anchored, head: last };
+
+  let head: AuditHead | null;
+  try {
+    head = readHead(storePath);
+  } catch (error) {
+    return result((error as Error).message);
+  }
+  if (!head) {
+    return result(last ? 'Audit head is missing' : undefined);
+  }
+  const macProblem = headMacProblem(head, passphrase);
+  if (macProblem) {
+    return result(macProblem);
+  }
+
+  // The head may lag one entry behind after a crash between appending and writing the head
+  const matches = head.seq === lines.length && head.hash === last;
+  const pending = head.seq === lines.length - 1 && head.hash === hashes[head.seq - 1];
+  if (!matches && !pending) {
+    return result(
+      `Log ends at entry ${lines.length} but the head records entry ${head.seq} ` +
+        '(log truncated or replaced)'
+    );
+  }
+  return result();
+}
+
+/**
+ * Copy a store's audit head to another store (a rekey staging copy), MACed under
+ * the new passphrase. A head whose MAC does not match the current passphrase is
+ * copied unchanged, so the break stays visible.
+ */
+export function reanchorAuditHead(
+  storePath: string,
+  targetStorePath: string,
+  newPassphrase: string | null
+): void {
+  const head = readHead(storePath);
+  if (!head) return;
+
+  const passphrase = passphraseOf(storePath);
+  const trusted = passphrase !== null ? headMacMatches(head, passphrase) : !head.mac;
+  if (trusted) {
+    writeHead(targetStorePath, head.seq, head.hash, newPassphrase);
+  }
+}
+
+/**
+ * Helper: Hash an entry's fields in a fixed order
+ */
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return auditDigest(
+    JSON.stringify([
+      entry.seq,
+      entry.timestamp,
+      entry.operation,
+      entry.did,
+      entry.target ?? null,
+      entry.digest ?? null,
+      entry.prevHash,
+    ])
+  );
+}
+
+/**
+ * Helper: Non-empty lines of the log (none if missing)
+ */
+function readLines(storePath: string): string[] {
+  const logPath = auditLogPath(storePath);
+  if (!fs.existsSync(logPath)) return [];
+  return fs.readFileSync(logPath, 'utf8').split('\n').filter((line) => line.trim() !== '');
+}
+
+/**
+ * Helper: Read the head file (null if missing)
+ */
+function readHead(storePath: string): AuditHead | null {
+  const headPath = auditHeadPath(storePath);
+  if (!fs.existsSync(headPath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(headPath, 'utf8')) as AuditHead;
+  } catch {
+    throw new Error(`Audit head is corrupted: ${headPath}. Run audit verify.`);
+  }
+}
+
+/**
+ * Helper: Last log entry (undefined if the log is empty)
+ */
+function lastEntry(storePath: string): AuditEntry | undefined {
+  const entries = readAuditEntries(storePath);
+  return entries[entries.length - 1];
+}
+
+/**
+ * Helper: Passphrase registered for a store (null if unencrypted or not opened)
+ */
+function passphraseOf(storePath: string): string | null {
+  return passphrases.get(path.resolve(storePath)) ?? null;
+}
+
+/**
+ * Helper: HMAC-SHA256 of a head's seq and hash under a key derived from the passphrase
+ */
+function headMac(seq: number, hash: string, passphrase: string, salt: string): string {
+  const cacheKey = `${salt}\0${passphrase}`;
+  let key = macKeys.get(cacheKey);
+  if (!key) {
+    key = crypto.scryptSync(passphrase, Buffer.from(salt, 'base64'), 32, MAC_SCRYPT_PARAMS);
+    macKeys.set(cacheKey, key);
+  }
+  return crypto.createHmac('sha256', key).update(JSON.stringify([seq, hash])).digest('hex');
+}
+
+/**
+ * Helper: Whether a head carries a MAC that matches the passphrase
+ */
+function headMacMatches(head: AuditHead, passphrase: string): boolean {
+  if (!head.mac || !head.salt) return false;
+  const expected = Buffer.from(headMac(head.seq, head.hash, passphrase, head.salt), 'hex');
+  const actual = Buffer.from(head.mac, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Helper: Why a head's MAC is not acceptable (undefined if it is): with a passphrase
+ * the MAC must be present and match, without one the head must not carry a MAC
+ */
+function headMacProblem(head: AuditHead, passphrase: string | null): string | undefined {
+  if (passphrase !== null && !headMacMatches(head, passphrase)) {
+    return head.mac
+      ? 'Audit head MAC does not match (head forged or written under another passphrase)'
+      : 'Audit head has no MAC (head forged or written without the keystore passphrase)';
+  }
+  if (passphrase === null && head.mac) {
+    return 'Audit head is MACed with the keystore passphrase; verify with the passphrase';
+  }
+  return undefined;
+}
+
+/**
+ * Helper: Write the head atomically (temp file + rename), MACed when a passphrase is given
+ */
+function writeHead(
+  storePath: string,
+  seq: number,
+  hash: string,
+  passphrase: string | null,
+  salt = crypto.randomBytes(16).toString('base64')
+): void {
+  const head: AuditHead =
+    passphrase !== null ? { seq, hash, salt, mac: headMac(seq, hash, passphrase, salt) } : { seq, hash };
+  const headPath = auditHeadPath(storePath);
+  fs.mkdirSync(path.dirname(headPath), { recursive: true, mode: 0o700 });
+  const tmpPath = `${headPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(head), { mode: 0o600 });
+  fs.renameSync(tmpPath, headPath);
+}
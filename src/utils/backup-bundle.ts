@@ -0,0 +1,153 @@
+import * as crypto from 'crypto';
+import { PassphraseError } from './error-handler.js';
+import type { StatusListState } from './status-list.js';
+
+const BUNDLE_FORMAT = 'agent-did-keystore-backup';
+const BUNDLE_VERSION = 1;
+
+/**
+ * scrypt parameters for deriving the bundle key from the backup passphrase
+ */
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+/**
+ * Minimum backup passphrase length
+ */
+const MIN_PASSPHRASE_LENGTH = 12;
+
+/**
+ * Identity entry in a backup (metadata + base64-encoded key pair)
+ */
+export interface BackupIdentity {
+  metadata: Record<string, unknown> & { did: string; type: string; name: string };
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * Stored credential entry in a backup
+ */
+export interface BackupCredential {
+  id: string;
+  data: unknown;
+}
+
+/**
+ * Status list entry in a backup (issuer state + signed status list credential)
+ */
+export interface BackupStatusList {
+  state: StatusListState;
+  jwt: string;
+}
+
+/**
+ * Decrypted backup contents (bundles from older versions have no status lists)
+ */
+export interface BackupContents {
+  createdAt: string;
+  identities: BackupIdentity[];
+  credentials: BackupCredential[];
+  statusLists?: BackupStatusList[];
+}
+
+/**
+ * Encrypted bundle envelope written to disk
+ */
+interface BundleEnvelope {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, { ...params, maxmem: SCRYPT_MAXMEM });
+}
+
+/**
+ * Get the backup passphrase with fallback chain:
+ * 1. Explicit value (e.g. read from --backup-passphrase-file)
+ * 2. AGENT_DID_BACKUP_PASSPHRASE environment variable
+ * 3. Otherwise error
+ */
+export function getBackupPassphrase(explicit?: string): string {
+  const passphrase = explicit ?? process.env.AGENT_DID_BACKUP_PASSPHRASE;
+  if (!passphrase) {
+    throw new Error(
+      'Backup passphrase required. Set AGENT_DID_BACKUP_PASSPHRASE or use --backup-passphrase-file.'
+    );
+  }
+  return passphrase;
+}
+
+/**
+ * Encrypt backup contents into a portable bundle (JSON string)
+ */
+export function encryptBundle(contents: BackupContents, passphrase: string): string {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = deriveKey(passphrase, salt, SCRYPT_PARAMS);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(contents), 'utf8'),
+    cipher.final(),
+  ]);
+
+  const envelope: BundleEnvelope = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    kdf: { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * Decrypt a bundle produced by encryptBundle
+ */
+export function decryptBundle(raw: string, passphrase: string): BackupContents {
+  let envelope: BundleEnvelope;
+  try {
+    envelope = JSON.parse(raw);
+  } catch {
+    throw new Error('Invalid backup bundle: not valid JSON');
+  }
+
+  if (envelope.format !== BUNDLE_FORMAT) {
+    throw new Error('Invalid backup bundle: unknown format');
+  }
+  if (envelope.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported backup bundle version: ${envelope.version}`);
+  }
+
+  const key = deriveKey(passphrase, Buffer.from(envelope.kdf.salt, 'base64'), envelope.kdf);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+  try {
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(envelope.ciphertext, 'base64')),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString('utf8')) as BackupContents;
+  } catch {
+    throw new PassphraseError('Invalid backup passphrase or corrupted bundle', 'INVALID_PASSPHRASE');
+  }
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { decodeCredential, type JWTPayload, type Keystore } from 'agent-did';
+import { NotFoundError } from './error-handler.js';
+
+/**
+ * Summary of a JWT credential for listings
+ */
+export interface CredentialSummary {
+  /** Credential ID (jti, then vc.id) */
+  id?: string;
+  issuer?: string;
+  subject?: string;
+  type?: string;
+  types?: string[];
+  issuedAt?: string;
+  expiresAt?: string;
+  expired?: boolean;
+}
+
+/**
+ * Derive a stable storage ID for a credential (jti, then vc.id)
+ */
+export function credentialIdOf(jwt: string): string {
+  const payload = decodeCredential(jwt)?.payload as (JWTPayload & { jti?: string }) | undefined;
+  const vcId = (payload?.vc as { id?: string } | undefined)?.id;
+  return payload?.jti || vcId || `urn:uuid:${crypto.randomUUID()}`;
+}
+
+/**
+ * Store a JWT credential in the keystore's credential store
+ */
+export async function storeJwtCredential(
+  keystore: Keystore,
+  jwt: string,
+  source: 'issued' | 'imported' = 'issued'
+): Promise<string> {
+  const id = credentialIdOf(jwt);
+  await keystore.storeCredential(id, {
+    credential: jwt,
+    source,
+    storedAt: new Date().toISOString(),
+  });
+  return id;
+}
+
+/**
+ * Read a JWT from a file (raw JWT or JSON with jwt/credential field)
+ */
+export function readJwtFile(file: string): string {
+  const filePath = path.resolve(file);
+  if (!fs.existsSync(filePath)) {
+    throw new NotFoundError(`File not found: ${filePath}`);
+  }
+
+  const fileContent = fs.readFileSync(filePath, 'utf8');
+  try {
+    const parsed = JSON.parse(fileContent);
+    return parsed.credential || parsed.jwt || fileContent.trim();
+  } catch {
+    return fileContent.trim();
+  }
+}
+
+/**
+ * Find a stored credential by ID and return its JWT (null if missing)
+ */
+export async function findStoredJwt(keystore: Keystore, id: string): Promise<string | null> {
+  const stored = await keystore.listCredentials();
+  const item = stored.find((entry: { id: string }) => entry.id === id);
+  return item ? extractJwt(item.data) : null;
+}
+
+/**
+ * Load a JWT from a file, or from the keystore when `ref` is not an existing file
+ * but a stored credential ID (null if neither). The keystore is only opened if needed.
+ */
+export async function loadJwtReference(
+  ref: string,
+  getKeystore: () => Promise<Keystore>
+): Promise<string | null> {
+  if (fs.existsSync(path.resolve(ref))) {
+    return readJwtFile(ref);
+  }
+  return findStoredJwt(await getKeystore(), ref);
+}
+
+/**
+ * Extract JWT from stored credential data
+ */
+export function extractJwt(data: unknown): string | null {
+  if (!data) return null;
+  if (typeof data === 'string') return data;
+  if (typeof data === 'object') {
+    const maybe = data as { credential?: string; jwt?: string };
+    return maybe.credential || maybe.jwt || null;
+  }
+  return null;
+}
+
+/**
+ * Summarize credential from JWT
+ */
+export function summarizeCredential(jwt: string): CredentialSummary {
+  const decoded = decodeCredential(jwt);
+  if (!decoded?.payload) return {};
+
+  const payload = decoded.payload as JWTPayload & { jti?: string };
+  const type = Array.isArray(payload.vc?.type) ? payload.vc.type.join(', ') : undefined;
+  const issuedAt = payload.iat ? new Date(payload.iat * 1000).toISOString() : undefined;
+  const expiresAt = payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined;
+
+  return {
+    id: payload.jti || (payload.vc as { id?: string } | undefined)?.id,
+    issuer: payload.iss,
+    subject: payload.sub,
+    type,
+    types: Array.isArray(payload.vc?.type) ? payload.vc.type : undefined,
+    issuedAt,
+    expiresAt,
+    expired: payload.exp ? payload.exp * 1000 < Date.now() : false,
+  };
+}
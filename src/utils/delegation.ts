@@ -0,0 +1,94 @@
+import type { JWTPayload } from 'agent-did';
+import { findUncoveredScope } from './scopes.js';
+
+/**
+ * Maximum number of credentials in a delegation chain (root included)
+ */
+export const MAX_DELEGATION_DEPTH = 5;
+
+/**
+ * One capability credential in a delegation chain
+ */
+export interface CapabilityLink {
+  id?: string;
+  issuer: string;
+  subject?: string;
+  scopes: string[];
+  audience?: string;
+  /** Unix seconds */
+  expiresAt?: number;
+}
+
+/**
+ * Read the capability claims (scopes, audience, expiry) of a credential payload
+ */
+export function capabilityLinkOf(payload: JWTPayload): CapabilityLink {
+  const vc = payload.vc as { id?: string; credentialSubject?: { scopes?: unknown; audience?: unknown } };
+  const claims = vc?.credentialSubject;
+  const scopes = Array.isArray(claims?.scopes)
+    ? claims.scopes.filter((scope): scope is string => typeof scope === 'string')
+    : typeof claims?.scopes === 'string'
+      ? claims.scopes.split(',')
+      : [];
+  const audience = claims?.audience ?? (payload as { aud?: unknown }).aud;
+
+  return {
+    id: (payload as { jti?: string }).jti || vc?.id,
+    issuer: payload.iss,
+    subject: payload.sub,
+    scopes,
+    audience: typeof audience === 'string' ? audience : undefined,
+    expiresAt: payload.exp,
+  };
+}
+
+/**
+ * Get the embedded parent credential (JWT) of a delegated capability
+ */
+export function getParentCredential(payload: JWTPayload | undefined): string | undefined {
+  const delegation = (payload?.vc as { delegation?: { parentCredential?: unknown } } | undefined)
+    ?.delegation;
+  return typeof delegation?.parentCredential === 'string' ? delegation.parentCredential : undefined;
+}
+
+/**
+ * Embed the parent credential into a credential before it is signed
+ */
+export function attachDelegation(credential: object, parentJwt: string, parentId?: string): void {
+  (credential as { delegation?: object }).delegation = {
+    ...(parentId && { parentId }),
+    parentCredential: parentJwt,
+  };
+}
+
+/**
+ * Check that `child` is a strict attenuation of `parent`: issued by the parent's
+ * subject, scopes covered by the parent's, same audience and no later expiry.
+ * Returns the violation (undefined if valid).
+ */
+export function checkAttenuation(child: CapabilityLink, parent: CapabilityLink): string | undefined {
+  if (parent.scopes.length === 0) {
+    return 'Parent credential grants no scopes (not a capability credential)';
+  }
+  if (child.issuer !== parent.subject) {
+    return `Delegator ${child.issuer} is not the subject of the parent credential`;
+  }
+
+  let uncovered: string | undefined;
+  try {
+    uncovered = findUncoveredScope(child.scopes, parent.scopes);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  if (uncovered) {
+    return `Scope "${uncovered}" is not covered by the parent scopes (${parent.scopes.join(', ')})`;
+  }
+
+  if (parent.audience && child.audience !== parent.audience) {
+    return `Audience must match the parent credential (${parent.audience})`;
+  }
+  if (parent.expiresAt && (!child.expiresAt || child.expiresAt > parent.expiresAt)) {
+    return `Expiry must not be later than the parent credential (${new Date(parent.expiresAt * 1000).toISOString()})`;
+  }
+  return undefined;
+}
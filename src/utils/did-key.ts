@@ -0,0 +1,94 @@
+/**
+ * Minimal did:key helpers (base58btc multibase + multicodec)
+ */
+
+import { MULTICODEC_PREFIXES, decodeMulticodecKey, type KeyType } from './key-types.js';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as base58btc (without multibase prefix)
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) + BigInt(byte);
+  }
+
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+
+  return encoded;
+}
+
+/**
+ * Decode a base58btc string (without multibase prefix)
+ */
+export function base58Decode(input: string): Uint8Array {
+  let value = 0n;
+  for (const char of input) {
+    const index = BASE58_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    value = value * 58n + BigInt(index);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+
+  for (const char of input) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Build a did:key DID from a raw public key (Ed25519, compressed P-256 or secp256k1)
+ */
+export function publicKeyToDidKey(publicKey: Uint8Array, keyType: KeyType): string {
+  const prefix = MULTICODEC_PREFIXES[keyType];
+  const bytes = new Uint8Array(prefix.length + publicKey.length);
+  bytes.set(prefix);
+  bytes.set(publicKey, prefix.length);
+  return `did:key:z${base58Encode(bytes)}`;
+}
+
+/**
+ * Extract the key type and raw public key from a did:key DID
+ */
+export function decodeDidKey(did: string): { keyType: KeyType; publicKey: Uint8Array } {
+  if (!did.startsWith('did:key:z')) {
+    throw new Error(`Unsupported DID (expected did:key with base58btc encoding): ${did}`);
+  }
+
+  const decoded = decodeMulticodecKey(base58Decode(did.slice('did:key:z'.length).split('#')[0]));
+  if (!decoded) {
+    throw new Error(`Unsupported did:key type (expected Ed25519, P-256 or secp256k1): ${did}`);
+  }
+  return decoded;
+}
+
+/**
+ * Key type of a did:key DID (undefined for other methods or unknown key types)
+ */
+export function didKeyType(did: string): KeyType | undefined {
+  try {
+    return did.startsWith('did:key:') ? decodeDidKey(did).keyType : undefined;
+  } catch {
+    return undefined;
+  }
+}
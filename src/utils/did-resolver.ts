@@ -0,0 +1,449 @@
+import { base58Encode, base58Decode, decodeDidKey } from './did-key.js';
+import { getPluginConfig } from './plugin-config.js';
+import {
+  MULTICODEC_PREFIXES,
+  compressPoint,
+  decodeMulticodecKey,
+  keyTypeForJwkCurve,
+  type KeyType,
+} from './key-types.js';
+import { NotFoundError, VerificationError } from './error-handler.js';
+
+/**
+ * Multicodec prefix for X25519 public keys (0xec, varint-encoded)
+ */
+const X25519_PUB_PREFIX = new Uint8Array([0xec, 0x01]);
+
+/**
+ * Fragments used for the verification methods of did:web identities
+ */
+const DID_WEB_KEY_FRAGMENT = 'key-1';
+const DID_WEB_KEY_AGREEMENT_FRAGMENT = 'key-agreement-1';
+
+/**
+ * Field prime for Curve25519 (2^255 - 19)
+ */
+const CURVE25519_P = (1n << 255n) - 19n;
+
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+
+/**
+ * How long a did:web document fetch may take by default
+ */
+const DEFAULT_RESOLVER_TIMEOUT_MS = 10_000;
+
+/**
+ * JSON-LD contexts for each verification method representation
+ */
+const KEY_FORMAT_CONTEXTS: Record<KeyFormat, string[]> = {
+  Multikey: ['https://w3id.org/security/multikey/v1'],
+  Ed25519VerificationKey2020: [
+    'https://w3id.org/security/suites/ed25519-2020/v1',
+    'https://w3id.org/security/suites/x25519-2020/v1',
+  ],
+};
+
+/**
+ * Verification method representation used in generated DID Documents
+ */
+export type KeyFormat = 'Multikey' | 'Ed25519VerificationKey2020';
+
+/**
+ * DID Document verification method
+ */
+export interface VerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase?: string;
+  publicKeyJwk?: { kty: string; crv: string; x: string; y?: string };
+}
+
+/**
+ * DID Document (subset used by this plugin)
+ */
+export interface DidDocument {
+  '@context': string[];
+  id: string;
+  verificationMethod: VerificationMethod[];
+  authentication: string[];
+  assertionMethod: string[];
+  capabilityInvocation?: string[];
+  capabilityDelegation?: string[];
+  keyAgreement?: VerificationMethod[];
+}
+
+/**
+ * DID resolution result (W3C DID Resolution)
+ */
+export interface DidResolutionResult {
+  '@context': string;
+  didDocument: DidDocument | null;
+  didResolutionMetadata: {
+    contentType?: string;
+    retrieved?: string;
+    error?: string;
+    message?: string;
+    did?: { didString: string; method: string; methodSpecificId: string };
+  };
+  didDocumentMetadata: Record<string, unknown>;
+}
+
+/**
+ * Public key resolved from a verification method
+ */
+export interface ResolvedKey {
+  keyType: KeyType;
+  publicKey: Uint8Array;
+}
+
+/**
+ * Resolver settings
+ */
+export interface ResolverOptions {
+  /**
+   * Base URL that replaces `https://<host>` when fetching did:web documents
+   * (e.g. http://localhost:8080 for a local static server)
+   */
+  webBaseUrl?: string;
+  /** Time limit in milliseconds for fetching a did:web document (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Resolver options with fallback chain:
+ * explicit value > AGENT_DID_RESOLVER_URL > plugin config resolverUrl.
+ * The fetch time limit comes from AGENT_DID_RESOLVER_TIMEOUT_MS (ignored unless a positive integer).
+ */
+export function getResolverOptions(webBaseUrl?: string): ResolverOptions {
+  const timeoutMs = Number(process.env.AGENT_DID_RESOLVER_TIMEOUT_MS);
+  return {
+    webBaseUrl:
+      webBaseUrl || process.env.AGENT_DID_RESOLVER_URL || getPluginConfig().resolverUrl || undefined,
+    timeoutMs: Number.isInteger(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined,
+  };
+}
+
+/**
+ * Key ID (verification method ID) for a DID
+ */
+export function keyIdFor(did: string): string {
+  if (did.startsWith('did:web:')) {
+    return `${did}#${DID_WEB_KEY_FRAGMENT}`;
+  }
+  return `${did}#${did.split(':')[2]}`;
+}
+
+/**
+ * Encode a public key with its multicodec prefix as a base58btc multibase string
+ */
+function toMultibase(prefix: Uint8Array, publicKey: Uint8Array): string {
+  const bytes = new Uint8Array(prefix.length + publicKey.length);
+  bytes.set(prefix);
+  bytes.set(publicKey, prefix.length);
+  return 'z' + base58Encode(bytes);
+}
+
+/**
+ * Encode a public key as a Multikey multibase string
+ */
+export function publicKeyToMultibase(publicKey: Uint8Array, keyType: KeyType = 'ed25519'): string {
+  return toMultibase(MULTICODEC_PREFIXES[keyType], publicKey);
+}
+
+/**
+ * Modular exponentiation over the Curve25519 field
+ */
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = base % CURVE25519_P;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % CURVE25519_P;
+    b = (b * b) % CURVE25519_P;
+    e >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Derive the X25519 public key from an Ed25519 public key
+ * (birational map from Edwards y to Montgomery u: u = (1 + y) / (1 - y))
+ */
+export function ed25519ToX25519PublicKey(publicKey: Uint8Array): Uint8Array {
+  if (publicKey.length !== 32) {
+    throw new Error('Ed25519 public key must be 32 bytes');
+  }
+
+  // Little-endian y coordinate with the sign bit of x cleared
+  let y = 0n;
+  for (let i = 31; i >= 0; i--) {
+    y = (y << 8n) | BigInt(i === 31 ? publicKey[i] & 0x7f : publicKey[i]);
+  }
+
+  const numerator = (1n + y) % CURVE25519_P;
+  const denominator = (1n - y + CURVE25519_P) % CURVE25519_P;
+  let u = (numerator * modPow(denominator, CURVE25519_P - 2n)) % CURVE25519_P;
+
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    out[i] = Number(u & 0xffn);
+    u >>= 8n;
+  }
+  return out;
+}
+
+/**
+ * Build a DID Document for a key. Ed25519 keys also get the derived X25519
+ * keyAgreement key; P-256 and secp256k1 keys are always expressed as Multikey.
+ */
+export function buildDidDocument(
+  did: string,
+  publicKey: Uint8Array,
+  keyFormat: KeyFormat = 'Multikey',
+  keyType: KeyType = 'ed25519'
+): DidDocument {
+  const kid = keyIdFor(did);
+  if (keyType !== 'ed25519') {
+    return {
+      '@context': [DID_CONTEXT, ...KEY_FORMAT_CONTEXTS.Multikey],
+      id: did,
+      verificationMethod: [
+        {
+          id: kid,
+          type: 'Multikey',
+          controller: did,
+          publicKeyMultibase: publicKeyToMultibase(publicKey, keyType),
+        },
+      ],
+      authentication: [kid],
+      assertionMethod: [kid],
+      capabilityInvocation: [kid],
+      capabilityDelegation: [kid],
+    };
+  }
+
+  const x25519Multibase = toMultibase(X25519_PUB_PREFIX, ed25519ToX25519PublicKey(publicKey));
+  const keyAgreementId = did.startsWith('did:key:')
+    ? `${did}#${x25519Multibase}`
+    : `${did}#${DID_WEB_KEY_AGREEMENT_FRAGMENT}`;
+
+  return {
+    '@context': [DID_CONTEXT, ...KEY_FORMAT_CONTEXTS[keyFormat]],
+    id: did,
+    verificationMethod: [
+      {
+        id: kid,
+        type: keyFormat,
+        controller: did,
+        publicKeyMultibase: publicKeyToMultibase(publicKey),
+      },
+    ],
+    authentication: [kid],
+    assertionMethod: [kid],
+    capabilityInvocation: [kid],
+    capabilityDelegation: [kid],
+    keyAgreement: [
+      {
+        id: keyAgreementId,
+        type: keyFormat === 'Multikey' ? 'Multikey' : 'X25519KeyAgreementKey2020',
+        controller: did,
+        publicKeyMultibase: x25519Multibase,
+      },
+    ],
+  };
+}
+
+/**
+ * Convert a domain (optionally with a path) into a did:web DID.
+ * Accepts `example.com`, `example.com:8443`, `example.com/agents/bot`
+ * and `example.com:agents:bot`.
+ */
+export function didWebFromDomain(domain: string): string {
+  const trimmed = domain.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+  if (!trimmed) {
+    throw new Error('Domain is required for did:web identities');
+  }
+
+  const segments = trimmed.split(/[/:]/).filter(Boolean);
+  let host = segments.shift() as string;
+
+  // A numeric segment right after the host is a port
+  if (segments.length > 0 && /^\d+$/.test(segments[0])) {
+    host += `%3A${segments.shift()}`;
+  }
+
+  return ['did', 'web', host, ...segments.map(encodeURIComponent)].join(':');
+}
+
+/**
+ * URL of the DID Document for a did:web DID
+ */
+export function didWebToUrl(did: string, options: ResolverOptions = {}): string {
+  if (!did.startsWith('did:web:')) {
+    throw new Error(`Not a did:web DID: ${did}`);
+  }
+
+  const [host, ...segments] = did.slice('did:web:'.length).split('#')[0].split(':');
+  const pathPart =
+    segments.length > 0
+      ? `/${segments.map(decodeURIComponent).join('/')}/did.json`
+      : '/.well-known/did.json';
+
+  const base = options.webBaseUrl
+    ? options.webBaseUrl.replace(/\/+$/, '')
+    : `https://${decodeURIComponent(host)}`;
+
+  return `${base}${pathPart}`;
+}
+
+/**
+ * Resolve a DID to its DID Document (did:key and did:web)
+ */
+export async function resolveDid(
+  did: string,
+  options: ResolverOptions = getResolverOptions(),
+  keyFormat: KeyFormat = 'Multikey'
+): Promise<DidDocument> {
+  const bareDid = did.split('#')[0];
+
+  if (bareDid.startsWith('did:key:')) {
+    const { keyType, publicKey } = decodeDidKey(bareDid);
+    return buildDidDocument(bareDid, publicKey, keyFormat, keyType);
+  }
+
+  if (bareDid.startsWith('did:web:')) {
+    const url = didWebToUrl(bareDid, options);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_RESOLVER_TIMEOUT_MS;
+    let document: DidDocument;
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'application/did+json' },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to resolve ${bareDid}: HTTP ${response.status} from ${url}`);
+      }
+      document = (await response.json()) as DidDocument;
+    } catch (error) {
+      const name = (error as Error).name;
+      if (name === 'TimeoutError' || name === 'AbortError') {
+        throw new VerificationError(`Timed out after ${timeoutMs} ms resolving ${bareDid} from ${url}`);
+      }
+      throw error;
+    }
+    if (document.id !== bareDid) {
+      throw new Error(`DID Document id ${document.id} does not match ${bareDid}`);
+    }
+    return document;
+  }
+
+  throw new Error(`Unsupported DID method: ${bareDid}`);
+}
+
+/**
+ * Extract the key type and raw public key from a verification method
+ */
+function verificationMethodKey(method: VerificationMethod): ResolvedKey {
+  if (method.publicKeyMultibase) {
+    if (!method.publicKeyMultibase.startsWith('z')) {
+      throw new Error(`Unsupported multibase encoding in ${method.id}`);
+    }
+    const decoded = base58Decode(method.publicKeyMultibase.slice(1));
+    // Multikey values carry a multicodec prefix; Ed25519VerificationKey2020 may not
+    const key = decodeMulticodecKey(decoded);
+    if (key && key.publicKey.length === (key.keyType === 'ed25519' ? 32 : 33)) {
+      return key;
+    }
+    return { keyType: 'ed25519', publicKey: decoded };
+  }
+
+  const jwk = method.publicKeyJwk;
+  const keyType = jwk && keyTypeForJwkCurve(jwk.kty, jwk.crv);
+  if (jwk && keyType === 'ed25519') {
+    return { keyType, publicKey: new Uint8Array(Buffer.from(jwk.x, 'base64url')) };
+  }
+  if (jwk && keyType && jwk.y) {
+    const coordinate = (value: string) => new Uint8Array(Buffer.from(value, 'base64url'));
+    return { keyType, publicKey: compressPoint(coordinate(jwk.x), coordinate(jwk.y)) };
+  }
+
+  throw new Error(`Unsupported verification method: ${method.id}`);
+}
+
+/**
+ * Resolve the public key (and its key type) for a DID, optionally selecting a key ID.
+ * Falls back to the first verification method referenced by `relationship`; an explicit
+ * key ID must be referenced by `relationship` too.
+ */
+export async function resolvePublicKey(
+  did: string,
+  kid?: string,
+  relationship: 'authentication' | 'assertionMethod' = 'assertionMethod',
+  options?: ResolverOptions
+): Promise<ResolvedKey> {
+  const document = await resolveDid(did, options);
+  const bareDid = did.split('#')[0];
+
+  const absolute = (id: string) => (id.startsWith('#') ? `${bareDid}${id}` : id);
+  const allowed = (document[relationship] ?? []).map(absolute);
+  const wanted = kid ? absolute(kid) : allowed[0] || '';
+  if (kid && !allowed.includes(wanted)) {
+    throw new VerificationError(`Key ${wanted} is not listed under ${relationship} of ${bareDid}`);
+  }
+
+  const method = document.verificationMethod.find((vm) => absolute(vm.id) === wanted);
+  if (!method) {
+    throw new NotFoundError(`Verification method not found in DID Document: ${wanted || bareDid}`);
+  }
+
+  return verificationMethodKey(method);
+}
+
+/**
+ * Resolve a DID and wrap the outcome in a W3C DID resolution result.
+ * Resolution failures are reported in didResolutionMetadata.error instead of thrown.
+ */
+export async function resolveDidWithMetadata(
+  did: string,
+  options: ResolverOptions = getResolverOptions(),
+  keyFormat: KeyFormat = 'Multikey'
+): Promise<DidResolutionResult> {
+  const result: DidResolutionResult = {
+    '@context': 'https://w3id.org/did-resolution/v1',
+    didDocument: null,
+    didResolutionMetadata: {},
+    didDocumentMetadata: {},
+  };
+
+  const match = /^did:([a-z0-9]+):(.+)$/.exec(did);
+  if (!match) {
+    result.didResolutionMetadata = { error: 'invalidDid', message: `Invalid DID: ${did}` };
+    return result;
+  }
+
+  const [, method, methodSpecificId] = match;
+  if (method !== 'key' && method !== 'web') {
+    result.didResolutionMetadata = {
+      error: 'methodNotSupported',
+      message: `Unsupported DID method: ${method}`,
+    };
+    return result;
+  }
+
+  try {
+    result.didDocument = await resolveDid(did, options, keyFormat);
+    result.didResolutionMetadata = {
+      contentType: 'application/did+ld+json',
+      retrieved: new Date().toISOString(),
+      did: { didString: did, method, methodSpecificId },
+    };
+  } catch (error) {
+    result.didResolutionMetadata = {
+      error: method === 'key' ? 'invalidDid' : 'notFound',
+      message: (error as Error).message,
+    };
+  }
+
+  return result;
+}
@@ -1,19 +1,200 @@
+/**
+ * Process exit code for each error code. Codes sharing a number are the same kind of
+ * failure; these numbers are documented and stable.
+ */
+export const EXIT_CODES = {
+  UNKNOWN: 1,
+  INVALID_ARGUMENT: 2,
+  INVALID_IDENTITY_TYPE: 2,
+  NOT_FOUND: 3,
+  ALREADY_EXISTS: 4,
+  HAS_DEPENDENTS: 5,
+  IDENTITY_ARCHIVED: 5,
+  NOT_ARCHIVED: 5,
+  GRACE_PERIOD_EXPIRED: 5,
+  MISSING_PASSPHRASE: 6,
+  INVALID_PASSPHRASE: 7,
+  MISSING_KEY: 8,
+  INVALID_SIGNATURE: 9,
+  CREDENTIAL_EXPIRED: 10,
+  CHALLENGE_EXPIRED: 10,
+  WRONG_ISSUER: 11,
+  REPLAYED: 12,
+  CREDENTIAL_REVOKED: 13,
+  VERIFICATION_FAILED: 14,
+  INVALID_PARENT: 14,
+  PERMISSION_DENIED: 15,
+  SIGNER_NOT_ALLOWED: 15,
+  SIGNER_UNAVAILABLE: 16,
+  SIGNER_LOCKED: 16,
+  REGISTRATION_FAILED: 17,
+} as const;
+
+export type ErrorCode = keyof typeof EXIT_CODES;
+
+/**
+ * Why a signature, credential, presentation or challenge failed verification
+ */
+export type VerificationFailureCode =
+  | 'INVALID_SIGNATURE'
+  | 'CREDENTIAL_EXPIRED'
+  | 'CHALLENGE_EXPIRED'
+  | 'WRONG_ISSUER'
+  | 'REPLAYED'
+  | 'CREDENTIAL_REVOKED'
+  | 'VERIFICATION_FAILED';
+
 /**
  * Custom error class for agent-did plugin errors
  */
 export class AgentDidError extends Error {
   constructor(
     message: string,
-    public code?: string,
+    public code?: ErrorCode | string,
     public details?: Record<string, unknown>
   ) {
     super(message);
     this.name = 'AgentDidError';
   }
+
+  /**
+   * Process exit code for this error (1 for codes without their own)
+   */
+  get exitCode(): number {
+    return exitCodeFor(this.code);
+  }
+}
+
+/**
+ * A DID, identity, credential or file that does not exist
+ */
+export class NotFoundError extends AgentDidError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'NOT_FOUND', details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Invalid or missing command input
+ */
+export class InvalidArgumentError extends AgentDidError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'INVALID_ARGUMENT', details);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+/**
+ * An identity or credential that is already stored
+ */
+export class AlreadyExistsError extends AgentDidError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'ALREADY_EXISTS', details);
+    this.name = 'AlreadyExistsError';
+  }
+}
+
+/**
+ * No keystore passphrase available, or the wrong one
+ */
+export class PassphraseError extends AgentDidError {
+  constructor(message: string, code: 'MISSING_PASSPHRASE' | 'INVALID_PASSPHRASE') {
+    super(message, code);
+    this.name = 'PassphraseError';
+  }
+}
+
+/**
+ * An identity whose private key is not in the keystore
+ */
+export class MissingKeyError extends AgentDidError {
+  constructor(did: string) {
+    super(`Private key not found for: ${did}`, 'MISSING_KEY', { did });
+    this.name = 'MissingKeyError';
+  }
+}
+
+/**
+ * A signature, credential, presentation or challenge that failed verification
+ */
+export class VerificationError extends AgentDidError {
+  constructor(
+    message: string,
+    code: VerificationFailureCode = 'VERIFICATION_FAILED',
+    details?: Record<string, unknown>
+  ) {
+    super(message, code, details);
+    this.name = 'VerificationError';
+  }
 }
 
 /**
- * Normalize errors for consistent user experience
+ * A signature that does not match the signer's key
+ */
+export class InvalidSignatureError extends VerificationError {
+  constructor(message = 'Invalid signature', details?: Record<string, unknown>) {
+    super(message, 'INVALID_SIGNATURE', details);
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+/**
+ * A credential (or challenge) past its expiry time
+ */
+export class CredentialExpiredError extends VerificationError {
+  constructor(message = 'Credential has expired', details?: Record<string, unknown>) {
+    super(message, 'CREDENTIAL_EXPIRED', details);
+    this.name = 'CredentialExpiredError';
+  }
+}
+
+/**
+ * A credential issued by someone other than the expected issuer
+ */
+export class WrongIssuerError extends VerificationError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'WRONG_ISSUER', details);
+    this.name = 'WrongIssuerError';
+  }
+}
+
+/**
+ * A challenge response (nonce) that was already accepted once
+ */
+export class ReplayError extends VerificationError {
+  constructor(message = 'Challenge response was already used', details?: Record<string, unknown>) {
+    super(message, 'REPLAYED', details);
+    this.name = 'ReplayError';
+  }
+}
+
+/**
+ * Exit code for an error code (1 for unknown codes)
+ */
+export function exitCodeFor(code?: string): number {
+  return code && Object.prototype.hasOwnProperty.call(EXIT_CODES, code)
+    ? EXIT_CODES[code as ErrorCode]
+    : EXIT_CODES.UNKNOWN;
+}
+
+/**
+ * Classify a verification failure reason reported by the agent-did library
+ * (our own verifiers set the code directly)
+ */
+export function verificationFailureCode(reason?: string): VerificationFailureCode {
+  if (!reason) return 'VERIFICATION_FAILED';
+  if (/signature/i.test(reason)) return 'INVALID_SIGNATURE';
+  if (/challenge.*expired/i.test(reason)) return 'CHALLENGE_EXPIRED';
+  if (/expired/i.test(reason)) return 'CREDENTIAL_EXPIRED';
+  if (/issuer/i.test(reason)) return 'WRONG_ISSUER';
+  return 'VERIFICATION_FAILED';
+}
+
+/**
+ * Normalize errors for consistent user experience.
+ * Typed errors keep their code; file system errors are mapped by their errno code
+ * and the agent-did keystore's passphrase failures by their message.
  */
 export function normalizeError(error: unknown): AgentDidError {
   if (error instanceof AgentDidError) {
@@ -21,26 +202,26 @@ export function normalizeError(error: unknown): AgentDidError {
   }
 
   if (error instanceof Error) {
-    // Add actionable suggestions for common errors
-    let message = error.message;
-    let code: string | undefined;
-
-    if (message.includes('Passphrase required')) {
-      code = 'MISSING_PASSPHRASE';
-      message =
-        'Passphrase required. Set AGENT_DID_PASSPHRASE environment variable or use --no-encryption flag.';
-    } else if (message.includes('Invalid passphrase')) {
-      code = 'INVALID_PASSPHRASE';
-      message = 'Invalid passphrase. Check your AGENT_DID_PASSPHRASE environment variable.';
-    } else if (message.includes('not found') || message.includes('does not exist')) {
-      code = 'NOT_FOUND';
-    } else if (message.includes('already exists')) {
-      code = 'ALREADY_EXISTS';
-    } else if (message.includes('permission denied')) {
-      code = 'PERMISSION_DENIED';
+    const message = error.message;
+    const errno = (error as NodeJS.ErrnoException).code;
+
+    if (errno === 'ENOENT') {
+      return new NotFoundError(message);
+    }
+    if (errno === 'EEXIST') {
+      return new AlreadyExistsError(message);
+    }
+    if (errno === 'EACCES' || errno === 'EPERM') {
+      return new AgentDidError(message, 'PERMISSION_DENIED');
+    }
+    if (/passphrase required/i.test(message)) {
+      return new PassphraseError(MISSING_PASSPHRASE_MESSAGE, 'MISSING_PASSPHRASE');
+    }
+    if (/invalid passphrase|unable to decrypt|bad decrypt/i.test(message)) {
+      return new PassphraseError(INVALID_PASSPHRASE_MESSAGE, 'INVALID_PASSPHRASE');
     }
 
-    return new AgentDidError(message, code);
+    return new AgentDidError(message, 'UNKNOWN');
   }
 
   return new AgentDidError('An unexpected error occurred', 'UNKNOWN', {
@@ -49,9 +230,30 @@ export function normalizeError(error: unknown): AgentDidError {
 }
 
 /**
- * Format error for display
+ * Actionable message for a missing passphrase
+ */
+export const MISSING_PASSPHRASE_MESSAGE =
+  'Passphrase required. Set AGENT_DID_PASSPHRASE, use --passphrase-file, --passphrase-fd ' +
+  'or the passphraseCommand plugin setting, or use --no-encryption flag.';
+
+/**
+ * Actionable message for a wrong passphrase
  */
-export function formatError(error: AgentDidError): string {
+export const INVALID_PASSPHRASE_MESSAGE =
+  'Invalid passphrase. Check your passphrase source (run with --verbose to see which one is used).';
+
+/**
+ * Format error for display; with `asJson`, as `{ "error": { code, message, details } }`
+ */
+export function formatError(error: AgentDidError, asJson = false): string {
+  if (asJson) {
+    return JSON.stringify(
+      { error: { code: error.code ?? 'UNKNOWN', message: error.message, details: error.details ?? {} } },
+      null,
+      2
+    );
+  }
+
   let output = `❌ Error: ${error.message}`;
 
   if (error.code) {
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * How long to wait for another process holding the lock, and when a lock is stale
+ */
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30000;
+
+/**
+ * Run `fn` while holding `<file>.lock` (an exclusively created lock file), so that
+ * concurrent processes read-modify-write `file` one at a time. `label` names the
+ * file in the timeout error.
+ */
+export function withFileLock<T>(file: string, label: string, fn: () => T): T {
+  const lockPath = acquireLock(file, label);
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Async lock holders of this process, per file (waiting on the lock file itself would
+ * block the event loop the holder needs to finish)
+ */
+const asyncHolders = new Map<string, Promise<unknown>>();
+
+/**
+ * Async variant of `withFileLock`. Callers in the same process queue up first; the
+ * lock file is touched while `fn` runs, so a long operation is not mistaken for a
+ * crashed one.
+ */
+export async function withAsyncFileLock<T>(
+  file: string,
+  label: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const key = path.resolve(file);
+  const previous = asyncHolders.get(key) ?? Promise.resolve();
+  const run = previous.then(async () => {
+    const lockPath = acquireLock(file, label);
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(lockPath, now, now, () => {});
+    }, LOCK_STALE_MS / 3);
+    heartbeat.unref();
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      fs.rmSync(lockPath, { force: true });
+    }
+  });
+  const settled = run.catch(() => undefined);
+  asyncHolders.set(key, settled);
+
+  try {
+    return await run;
+  } finally {
+    if (asyncHolders.get(key) === settled) {
+      asyncHolders.delete(key);
+    }
+  }
+}
+
+/**
+ * Helper: Create `<file>.lock`, waiting for another holder; returns the lock path
+ */
+function acquireLock(file: string, label: string): string {
+  const lockPath = `${file}.lock`;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, String(process.pid));
+      fs.closeSync(fd);
+      return lockPath;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      // Break locks left behind by a crashed process
+      try {
+        if (
+          Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS ||
+          !isProcessAlive(Number(fs.readFileSync(lockPath, 'utf8')))
+        ) {
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`${label} is locked: ${lockPath}`);
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 25);
+    }
+  }
+}
+
+/**
+ * Helper: Whether the process that wrote a lock still runs (unknown holders count as alive)
+ */
+function isProcessAlive(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) return true;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code !== 'ESRCH';
+  }
+}
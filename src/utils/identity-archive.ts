@@ -0,0 +1,42 @@
+/**
+ * Days an archived identity can be restored before `purge` removes it
+ */
+export const DEFAULT_ARCHIVE_GRACE_DAYS = 30;
+
+/**
+ * Soft-delete state stored on an archived identity
+ */
+export interface IdentityArchive {
+  archivedAt: string;
+  /** Restorable until this date; `purge` removes the identity afterwards */
+  purgeAfter: string;
+  /** Owner whose archiving (with --cascade) archived this agent too */
+  archivedWith?: string;
+}
+
+/**
+ * Archive state of an identity (undefined when it is active)
+ */
+export function archiveOf(identity: object | null | undefined): IdentityArchive | undefined {
+  const archived = (identity as { archived?: unknown } | null | undefined)?.archived;
+  return archived && typeof archived === 'object' ? (archived as IdentityArchive) : undefined;
+}
+
+/**
+ * Build the archive state for an identity archived now
+ */
+export function newArchive(graceDays: number, archivedWith?: string): IdentityArchive {
+  const now = Date.now();
+  return {
+    archivedAt: new Date(now).toISOString(),
+    purgeAfter: new Date(now + graceDays * 24 * 3600 * 1000).toISOString(),
+    ...(archivedWith && { archivedWith }),
+  };
+}
+
+/**
+ * Whether an archived identity's grace period is over
+ */
+export function isArchiveExpired(archive: IdentityArchive, now = Date.now()): boolean {
+  return new Date(archive.purgeAfter).getTime() <= now;
+}
@@ -0,0 +1,90 @@
+import { InvalidArgumentError } from './error-handler.js';
+/**
+ * Free-form labels on an identity (e.g. `team=billing`, `env=prod`)
+ */
+export type IdentityLabels = Record<string, string>;
+
+const LABEL_KEY = /^[A-Za-z0-9][A-Za-z0-9._/-]{0,62}$/;
+const MAX_LABEL_VALUE_LENGTH = 256;
+
+/**
+ * Parse `key=value` arguments into labels (later values win)
+ */
+export function parseLabels(values: string[] = []): IdentityLabels {
+  const labels: IdentityLabels = {};
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator < 0) {
+      throw new InvalidArgumentError(`Invalid label: ${value} (expected key=value)`);
+    }
+    const key = validateLabelKey(value.slice(0, separator));
+    const labelValue = value.slice(separator + 1);
+    if (labelValue === '' || labelValue.length > MAX_LABEL_VALUE_LENGTH) {
+      throw new InvalidArgumentError(
+        `Invalid label value for ${key}: must be 1-${MAX_LABEL_VALUE_LENGTH} characters`
+      );
+    }
+    labels[key] = labelValue;
+  }
+  return labels;
+}
+
+/**
+ * Check a label key: a letter or digit, then letters, digits, `.`, `_`, `/` and `-`
+ * (at most 63 characters)
+ */
+export function validateLabelKey(key: string): string {
+  if (!LABEL_KEY.test(key)) {
+    throw new InvalidArgumentError(
+      `Invalid label key: ${key} (start with a letter or digit; letters, digits, ".", "_", "/" ` +
+        'and "-", at most 63 characters)'
+    );
+  }
+  return key;
+}
+
+/**
+ * Labels stored on an identity (none for identities created before labels existed)
+ */
+export function labelsOf(identity: object | null | undefined): IdentityLabels {
+  const labels = (identity as { labels?: unknown } | null | undefined)?.labels;
+  return labels && typeof labels === 'object' ? (labels as IdentityLabels) : {};
+}
+
+/**
+ * Description stored on an identity
+ */
+export function descriptionOf(identity: object | null | undefined): string | undefined {
+  const description = (identity as { description?: unknown } | null | undefined)?.description;
+  return typeof description === 'string' ? description : undefined;
+}
+
+/**
+ * Check labels against selectors: `key=value` (equal), `key!=value` (missing or different)
+ * or `key` (present). All selectors must match.
+ */
+export function matchesLabelSelectors(labels: IdentityLabels, selectors: string[] = []): boolean {
+  const get = (key: string) =>
+    Object.prototype.hasOwnProperty.call(labels, key) ? labels[key] : undefined;
+
+  return selectors.every((selector) => {
+    const notEqual = selector.indexOf('!=');
+    if (notEqual >= 0) {
+      return get(selector.slice(0, notEqual)) !== selector.slice(notEqual + 2);
+    }
+    const equal = selector.indexOf('=');
+    if (equal >= 0) {
+      return get(selector.slice(0, equal)) === selector.slice(equal + 1);
+    }
+    return get(selector) !== undefined;
+  });
+}
+
+/**
+ * Format labels as `key=value, ...`
+ */
+export function formatLabels(labels: IdentityLabels): string {
+  return Object.entries(labels)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
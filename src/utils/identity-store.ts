@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Keystore } from 'agent-did';
+import { InvalidArgumentError, MissingKeyError, NotFoundError } from './error-handler.js';
+import { withAsyncFileLock } from './file-lock.js';
+
+type IdentityMetadata = NonNullable<Awaited<ReturnType<Keystore['getIdentity']>>>;
+type IdentityKeyPair = NonNullable<Awaited<ReturnType<Keystore['getKeyPair']>>>;
+
+/**
+ * Keystore inside the store where an identity is staged while it is replaced
+ */
+const JOURNAL_DIR = 'identity-journal';
+
+/**
+ * Store path and passphrase of each keystore opened by KeystoreManager
+ */
+const locations = new WeakMap<Keystore, { storePath: string; passphrase: string | null }>();
+
+/**
+ * Remember where a keystore lives and how it is encrypted, so that its
+ * identities can be replaced through the journal
+ */
+export function registerKeystore(keystore: Keystore, storePath: string, passphrase: string | null): void {
+  locations.set(keystore, { storePath, passphrase });
+}
+
+/**
+ * Replace an identity's stored metadata, keeping its key pair.
+ * The current metadata is read under the journal lock, so concurrent updates are not lost.
+ */
+export async function updateIdentityMetadata(
+  keystore: Keystore,
+  did: string,
+  update: (metadata: IdentityMetadata) => IdentityMetadata
+): Promise<IdentityMetadata> {
+  return replaceUnderJournal(keystore, did, (current, currentKeyPair) => {
+    const next = update({ ...current });
+    if (next.did !== did) {
+      throw new InvalidArgumentError('Identity DID cannot be changed');
+    }
+    return { metadata: next, keyPair: currentKeyPair };
+  });
+}
+
+/**
+ * Replace a stored identity (metadata and key pair).
+ * The keystore has no in-place update, so the identity is deleted and re-stored.
+ * The current identity is first staged in the journal (a keystore under the same
+ * passphrase); if the process dies before the new identity is stored, the next
+ * open of the store restores it from there.
+ */
+export async function replaceIdentity(
+  keystore: Keystore,
+  next: IdentityMetadata,
+  keyPair: IdentityKeyPair
+): Promise<void> {
+  await replaceUnderJournal(keystore, next.did, () => ({ metadata: next, keyPair }));
+}
+
+/**
+ * Helper: Replace an identity while holding the journal lock; `produce` derives the
+ * new metadata and key pair from the current ones, read inside the lock
+ */
+async function replaceUnderJournal(
+  keystore: Keystore,
+  did: string,
+  produce: (
+    current: IdentityMetadata,
+    currentKeyPair: IdentityKeyPair
+  ) => { metadata: IdentityMetadata; keyPair: IdentityKeyPair }
+): Promise<IdentityMetadata> {
+  const location = locations.get(keystore);
+  if (!location) {
+    throw new Error('Identities can only be replaced in a keystore opened by KeystoreManager');
+  }
+  const journalPath = path.join(location.storePath, JOURNAL_DIR);
+
+  return withAsyncFileLock(journalPath, 'Identity journal', async () => {
+    await restoreFromJournal(keystore, journalPath, location.passphrase);
+
+    const current = await keystore.getIdentity(did);
+    if (!current) {
+      throw new NotFoundError(`Identity not found: ${did}`);
+    }
+    const currentKeyPair = await keystore.getKeyPair(did);
+    if (!currentKeyPair) {
+      throw new MissingKeyError(did);
+    }
+    const { metadata: next, keyPair } = produce(current, currentKeyPair);
+
+    // Stage the current identity and check the staged key before deleting anything
+    const journal = new Keystore(journalPath, location.passphrase, true);
+    await journal.init();
+    await journal.storeIdentity(current, currentKeyPair);
+    const staged = await journal.getKeyPair(did);
+    if (
+      !staged ||
+      Buffer.compare(Buffer.from(staged.privateKey), Buffer.from(currentKeyPair.privateKey)) !== 0
+    ) {
+      fs.rmSync(journalPath, { recursive: true, force: true });
+      throw new Error(`Could not stage the key of ${did}; identity left unchanged`);
+    }
+
+    await keystore.deleteIdentity(did);
+    try {
+      await keystore.storeIdentity(next, keyPair);
+    } catch (error) {
+      await keystore.storeIdentity(current, currentKeyPair);
+      fs.rmSync(journalPath, { recursive: true, force: true });
+      throw error;
+    }
+    fs.rmSync(journalPath, { recursive: true, force: true });
+    return next;
+  });
+}
+
+/**
+ * Restore identities whose replacement was interrupted (called when a store is opened)
+ */
+export async function recoverIdentityJournal(keystore: Keystore): Promise<void> {
+  const location = locations.get(keystore);
+  if (!location) return;
+  const journalPath = path.join(location.storePath, JOURNAL_DIR);
+  if (!fs.existsSync(journalPath)) return;
+
+  await withAsyncFileLock(journalPath, 'Identity journal', () =>
+    restoreFromJournal(keystore, journalPath, location.passphrase)
+  );
+}
+
+/**
+ * Helper: Put back every staged identity that is missing from the store, then drop the journal
+ */
+async function restoreFromJournal(
+  keystore: Keystore,
+  journalPath: string,
+  passphrase: string | null
+): Promise<void> {
+  if (!fs.existsSync(journalPath)) return;
+
+  const journal = new Keystore(journalPath, passphrase, true);
+  await keystore.init();
+  for (const identity of await journal.listIdentities()) {
+    if (await keystore.getIdentity(identity.did)) continue;
+    const keyPair = await journal.getKeyPair(identity.did);
+    if (keyPair) {
+      await keystore.storeIdentity(identity, keyPair);
+    }
+  }
+  fs.rmSync(journalPath, { recursive: true, force: true });
+}
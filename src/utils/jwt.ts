@@ -0,0 +1,91 @@
+import { JOSE_ALGORITHMS, signBytes, verifyBytes, type KeyType } from './key-types.js';
+import { InvalidArgumentError } from './error-handler.js';
+
+/**
+ * Decoded JWT parts
+ */
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+/**
+ * Encode bytes or a string as base64url
+ */
+export function base64UrlEncode(data: Uint8Array | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+/**
+ * Decode a base64url string
+ */
+export function base64UrlDecode(data: string): Uint8Array {
+  return new Uint8Array(Buffer.from(data, 'base64url'));
+}
+
+/**
+ * Sign a JWT with the `alg` of the key type (EdDSA, ES256 or ES256K)
+ */
+export function signJwt(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  privateKey: Uint8Array,
+  publicKey: Uint8Array,
+  keyType: KeyType = 'ed25519'
+): string {
+  const encodedHeader = base64UrlEncode(
+    JSON.stringify({ alg: JOSE_ALGORITHMS[keyType], typ: 'JWT', ...header })
+  );
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+
+  const signature = signBytes(keyType, Buffer.from(signingInput), privateKey, publicKey);
+
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Decode a JWT without verifying it
+ */
+export function decodeJwt(jwt: string): DecodedJwt {
+  const parts = jwt.trim().split('.');
+  if (parts.length !== 3) {
+    throw new InvalidArgumentError('Invalid JWT format');
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+      payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: base64UrlDecode(parts[2]),
+    };
+  } catch {
+    throw new InvalidArgumentError('Invalid JWT format');
+  }
+}
+
+/**
+ * Verify a JWT signature against a raw public key. The header `alg` must be the
+ * one of the key type, so a key can't be used with another algorithm.
+ */
+export function verifyJwtSignature(
+  decoded: DecodedJwt,
+  publicKey: Uint8Array,
+  keyType: KeyType = 'ed25519'
+): boolean {
+  if (decoded.header.alg !== JOSE_ALGORITHMS[keyType]) {
+    return false;
+  }
+
+  return verifyBytes(keyType, Buffer.from(decoded.signingInput), publicKey, decoded.signature);
+}
+
+/**
+ * Check that an optional JWT time claim (`exp`, `nbf`, `iat`) is absent or a number of seconds
+ */
+export function isOptionalNumericDate(value: unknown): value is number | undefined {
+  return value === undefined || Number.isFinite(value);
+}
@@ -0,0 +1,188 @@
+import * as crypto from 'crypto';
+import { InvalidArgumentError } from './error-handler.js';
+
+/**
+ * Supported identity key types
+ */
+export type KeyType = 'ed25519' | 'p256' | 'secp256k1';
+
+/**
+ * Key types using ECDSA
+ */
+export type EcKeyType = Exclude<KeyType, 'ed25519'>;
+
+export const KEY_TYPES: KeyType[] = ['ed25519', 'p256', 'secp256k1'];
+
+export const DEFAULT_KEY_TYPE: KeyType = 'ed25519';
+
+/**
+ * JOSE `alg` used for JWTs and challenge signatures of each key type
+ */
+export const JOSE_ALGORITHMS: Record<KeyType, string> = {
+  ed25519: 'EdDSA',
+  p256: 'ES256',
+  secp256k1: 'ES256K',
+};
+
+/**
+ * Multicodec prefixes (varint-encoded) for did:key and Multikey public keys:
+ * ed25519-pub 0xed, p256-pub 0x1200, secp256k1-pub 0xe7
+ */
+export const MULTICODEC_PREFIXES: Record<KeyType, Uint8Array> = {
+  ed25519: new Uint8Array([0xed, 0x01]),
+  p256: new Uint8Array([0x80, 0x24]),
+  secp256k1: new Uint8Array([0xe7, 0x01]),
+};
+
+/**
+ * Curve names and DER prefixes for the EC key types
+ * (public keys are stored as 33-byte compressed points, private keys as 32-byte scalars)
+ */
+const EC_CURVES: Record<EcKeyType, { curve: string; spki: string; sec1: [string, string] }> = {
+  p256: {
+    curve: 'prime256v1',
+    spki: '3039301306072a8648ce3d020106082a8648ce3d030107032200',
+    sec1: ['30310201010420', 'a00a06082a8648ce3d030107'],
+  },
+  secp256k1: {
+    curve: 'secp256k1',
+    spki: '3036301006072a8648ce3d020106052b8104000a032200',
+    sec1: ['302e0201010420', 'a00706052b8104000a'],
+  },
+};
+
+/**
+ * Raw key pair bytes
+ */
+export interface KeyPairBytes {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+}
+
+/**
+ * Parse a `--key-type` value (default: ed25519)
+ */
+export function parseKeyType(value?: string): KeyType {
+  if (!value) return DEFAULT_KEY_TYPE;
+  const keyType = value.toLowerCase();
+  if (!KEY_TYPES.includes(keyType as KeyType)) {
+    throw new InvalidArgumentError(`Unsupported key type: ${value} (expected ${KEY_TYPES.join(', ')})`);
+  }
+  return keyType as KeyType;
+}
+
+/**
+ * Key type stored on an identity (identities created before key types existed are Ed25519)
+ */
+export function keyTypeOf(identity: object | null | undefined): KeyType {
+  const keyType = (identity as { keyType?: unknown } | null | undefined)?.keyType;
+  return KEY_TYPES.includes(keyType as KeyType) ? (keyType as KeyType) : DEFAULT_KEY_TYPE;
+}
+
+/**
+ * Split a multicodec-prefixed public key into its key type and raw bytes (null if unknown)
+ */
+export function decodeMulticodecKey(
+  bytes: Uint8Array
+): { keyType: KeyType; publicKey: Uint8Array } | null {
+  for (const keyType of KEY_TYPES) {
+    const prefix = MULTICODEC_PREFIXES[keyType];
+    if (bytes[0] === prefix[0] && bytes[1] === prefix[1]) {
+      return { keyType, publicKey: bytes.slice(prefix.length) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Generate a P-256 or secp256k1 key pair (compressed public key)
+ */
+export function generateEcKeyPair(keyType: EcKeyType): KeyPairBytes {
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: EC_CURVES[keyType].curve });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const coordinate = (value?: string) => new Uint8Array(Buffer.from(value as string, 'base64url'));
+  return {
+    privateKey: coordinate(jwk.d),
+    publicKey: compressPoint(coordinate(jwk.x), coordinate(jwk.y)),
+  };
+}
+
+/**
+ * Compress an uncompressed EC point given as x and y coordinates
+ */
+export function compressPoint(x: Uint8Array, y: Uint8Array): Uint8Array {
+  const out = new Uint8Array(33);
+  out[0] = 0x02 | (y[y.length - 1] & 1);
+  out.set(x, 1);
+  return out;
+}
+
+/**
+ * Key type matching a JWK curve (undefined if unsupported)
+ */
+export function keyTypeForJwkCurve(kty: string, crv: string): KeyType | undefined {
+  if (kty === 'OKP' && crv === 'Ed25519') return 'ed25519';
+  if (kty === 'EC' && crv === 'P-256') return 'p256';
+  if (kty === 'EC' && crv === 'secp256k1') return 'secp256k1';
+  return undefined;
+}
+
+/**
+ * Sign bytes with a raw private key (EdDSA, or ECDSA with SHA-256 and r||s signatures)
+ */
+export function signBytes(
+  keyType: KeyType,
+  data: Uint8Array,
+  privateKey: Uint8Array,
+  publicKey: Uint8Array
+): Uint8Array {
+  if (keyType === 'ed25519') {
+    const key = crypto.createPrivateKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        d: Buffer.from(privateKey.slice(0, 32)).toString('base64url'),
+        x: Buffer.from(publicKey).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    return new Uint8Array(crypto.sign(null, data, key));
+  }
+
+  const [prefix, suffix] = EC_CURVES[keyType].sec1;
+  const key = crypto.createPrivateKey({
+    key: Buffer.concat([Buffer.from(prefix, 'hex'), privateKey, Buffer.from(suffix, 'hex')]),
+    format: 'der',
+    type: 'sec1',
+  });
+  return new Uint8Array(crypto.sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' }));
+}
+
+/**
+ * Verify a signature made by `signBytes` against a raw public key
+ */
+export function verifyBytes(
+  keyType: KeyType,
+  data: Uint8Array,
+  publicKey: Uint8Array,
+  signature: Uint8Array
+): boolean {
+  try {
+    if (keyType === 'ed25519') {
+      const key = crypto.createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey).toString('base64url') },
+        format: 'jwk',
+      });
+      return crypto.verify(null, data, key, signature);
+    }
+
+    const key = crypto.createPublicKey({
+      key: Buffer.concat([Buffer.from(EC_CURVES[keyType].spki, 'hex'), publicKey]),
+      format: 'der',
+      type: 'spki',
+    });
+    return crypto.verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  } catch {
+    return false;
+  }
+}
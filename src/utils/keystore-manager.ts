@@ -1,6 +1,12 @@
 import * as path from 'path';
 import * as os from 'os';
 import { Keystore } from 'agent-did';
+import { recoverInterruptedRekey } from './keystore-rekey.js';
+import { registerKeystore, recoverIdentityJournal } from './identity-store.js';
+import { registerAuditKey } from './audit-log.js';
+import { getPluginConfig, expandHome } from './plugin-config.js';
+import { resolvePassphrase, describePassphraseSource } from './passphrase.js';
+import { logVerbose } from './output-formatter.js';
 
 /**
  * Singleton keystore manager to avoid reinitializing the keystore
@@ -16,9 +22,11 @@ class KeystoreManager {
    */
   static async getKeystore(
     customPath?: string,
-    noEncryption = false
+    noEncryption = false,
+    warnUnencrypted = true
   ): Promise<Keystore> {
     const resolvedPath = this.getStorePath(customPath);
+    recoverInterruptedRekey(resolvedPath);
 
     // Return cached instance if path and encryption settings match
     if (
@@ -32,16 +40,20 @@ class KeystoreManager {
     // Create new instance
     const passphrase = await this.getPassphrase(noEncryption);
 
-    if (noEncryption && passphrase === null) {
-      console.log('\n⚠️  WARNING: Keys will be stored UNENCRYPTED on disk!');
-      console.log('This is NOT recommended for production use.\n');
+    if (noEncryption && passphrase === null && warnUnencrypted) {
+      this.printUnencryptedWarning();
     }
 
-    this.instance = new Keystore(resolvedPath, passphrase, true);
+    const keystore = new Keystore(resolvedPath, passphrase, true);
+    registerKeystore(keystore, resolvedPath, passphrase);
+    registerAuditKey(resolvedPath, passphrase);
+    await recoverIdentityJournal(keystore);
+
+    this.instance = keystore;
     this.currentPath = resolvedPath;
     this.currentEncryption = !noEncryption;
 
-    return this.instance;
+    return keystore;
   }
 
   /**
@@ -49,18 +61,31 @@ class KeystoreManager {
    */
   static async getNewKeystore(
     customPath?: string,
-    noEncryption = false
+    noEncryption = false,
+    warnUnencrypted = true
   ): Promise<Keystore> {
     const resolvedPath = this.getStorePath(customPath);
+    recoverInterruptedRekey(resolvedPath);
     const passphrase = await this.getPassphrase(noEncryption);
 
-    if (noEncryption && passphrase === null) {
-      console.log('\n⚠️  WARNING: Keys will be stored UNENCRYPTED on disk!');
-      console.log('This is NOT recommended for production use.\n');
+    if (noEncryption && passphrase === null && warnUnencrypted) {
+      this.printUnencryptedWarning();
     }
 
     // Don't cache this - it validates passphrase strength
-    return new Keystore(resolvedPath, passphrase, false);
+    const keystore = new Keystore(resolvedPath, passphrase, false);
+    registerKeystore(keystore, resolvedPath, passphrase);
+    registerAuditKey(resolvedPath, passphrase);
+    await recoverIdentityJournal(keystore);
+    return keystore;
+  }
+
+  /**
+   * Print the unencrypted keystore warning (the service layer never prints it)
+   */
+  static printUnencryptedWarning(): void {
+    console.error('\n⚠️  WARNING: Keys will be stored UNENCRYPTED on disk!');
+    console.error('This is NOT recommended for production use.\n');
   }
 
   /**
@@ -73,40 +98,28 @@ class KeystoreManager {
   }
 
   /**
-   * Get the keystore path
+   * Get the keystore path with fallback chain:
+   * --store flag > AGENT_DID_HOME > plugin config keystorePath > ~/.agent-did
    */
-  private static getStorePath(customPath?: string): string {
+  static getStorePath(customPath?: string): string {
     if (customPath) return path.resolve(customPath);
-    return process.env.AGENT_DID_HOME || path.join(os.homedir(), '.agent-did');
+    if (process.env.AGENT_DID_HOME) return process.env.AGENT_DID_HOME;
+
+    const configured = getPluginConfig().keystorePath;
+    if (configured) return path.resolve(expandHome(configured));
+
+    return path.join(os.homedir(), '.agent-did');
   }
 
   /**
-   * Get the passphrase with fallback chain:
-   * 1. If noEncryption is true, return null
-   * 2. Try environment variable
-   * 3. Otherwise error (OpenClaw doesn't support interactive prompts)
+   * Get the passphrase (fallback chain in resolvePassphrase:
+   * --no-encryption > --passphrase-file > --passphrase-fd > AGENT_DID_PASSPHRASE >
+   * plugin config passphraseCommand > plugin config defaultPassphrase > error)
    */
   private static async getPassphrase(noEncryption = false): Promise<string | null> {
-    // Option 1: No encryption requested
-    if (noEncryption) {
-      return null;
-    }
-
-    // Option 2: Environment variable
-    const envPassphrase = process.env.AGENT_DID_PASSPHRASE;
-    if (envPassphrase !== undefined) {
-      // Empty string means no encryption
-      if (envPassphrase === '') {
-        return null;
-      }
-      return envPassphrase;
-    }
-
-    // Option 3: No passphrase available
-    throw new Error(
-      'Passphrase required but not available. ' +
-        'Set AGENT_DID_PASSPHRASE environment variable or use --no-encryption flag.'
-    );
+    const resolved = resolvePassphrase(noEncryption);
+    logVerbose(`Passphrase source: ${describePassphraseSource(resolved)}`);
+    return resolved.passphrase;
   }
 }
 
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Keystore } from 'agent-did';
+import { AgentDidError, MissingKeyError } from './error-handler.js';
+import { withFileLock, withAsyncFileLock } from './file-lock.js';
+import { reanchorAuditHead, registerAuditKey } from './audit-log.js';
+
+/**
+ * Summary of a completed rekey
+ */
+export interface RekeySummary {
+  identities: number;
+  credentials: number;
+  encrypted: boolean;
+}
+
+function stagingPathFor(storePath: string): string {
+  return `${storePath}.rekey-staging`;
+}
+
+function backupPathFor(storePath: string): string {
+  return `${storePath}.rekey-backup`;
+}
+
+/**
+ * Finish or roll back a rekey that was interrupted by a crash.
+ *
+ * A rekey writes a complete staging copy, renames the store to a backup,
+ * renames the staging copy into place and finally removes the backup.
+ * Every intermediate state maps to exactly one readable store:
+ * - backup without store: roll back to the backup
+ * - backup with store: the swap completed, drop the backup
+ * - staging only: the new copy was never swapped in; it is dropped only when
+ *   `discardStaging` is set, since another process may still be writing it
+ *
+ * Recovery runs under the store lock (`<store>.lock`) that a running rekey holds
+ * throughout, so it waits for the rekey instead of undoing its swap.
+ */
+export function recoverInterruptedRekey(storePath: string, discardStaging = false): void {
+  if (!needsRecovery(storePath, discardStaging)) return;
+  withFileLock(storePath, 'Keystore', () => recoverUnlocked(storePath, discardStaging));
+}
+
+/**
+ * Helper: Whether an interrupted rekey left anything behind (checked again under the lock)
+ */
+function needsRecovery(storePath: string, discardStaging: boolean): boolean {
+  return (
+    fs.existsSync(backupPathFor(storePath)) ||
+    (discardStaging && fs.existsSync(stagingPathFor(storePath)))
+  );
+}
+
+/**
+ * Helper: Recover while the caller holds the store lock
+ */
+function recoverUnlocked(storePath: string, discardStaging: boolean): void {
+  const stagingPath = stagingPathFor(storePath);
+  const backupPath = backupPathFor(storePath);
+  const hasBackup = fs.existsSync(backupPath);
+
+  if (hasBackup && !fs.existsSync(storePath)) {
+    fs.renameSync(backupPath, storePath);
+  } else if (hasBackup) {
+    fs.rmSync(backupPath, { recursive: true, force: true });
+  }
+
+  if (discardStaging && fs.existsSync(stagingPath)) {
+    fs.rmSync(stagingPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Re-encrypt every private key in the store under a new passphrase
+ * (null writes the keys unencrypted). The store is replaced atomically:
+ * the original stays untouched until a verified copy is ready. The store lock
+ * is held for the whole rekey, so concurrent rekeys and recoveries wait. Other
+ * commands write without that lock, so the copy is only swapped in if the store
+ * is byte-for-byte unchanged since the rekey started.
+ */
+export async function rekeyKeystore(
+  storePath: string,
+  current: Keystore,
+  newPassphrase: string | null
+): Promise<RekeySummary> {
+  return withAsyncFileLock(storePath, 'Keystore', () =>
+    rekeyLocked(storePath, current, newPassphrase)
+  );
+}
+
+/**
+ * Helper: Rekey while holding the store lock (a staging copy left behind is
+ * never being written by another rekey, so it can be discarded)
+ */
+async function rekeyLocked(
+  storePath: string,
+  current: Keystore,
+  newPassphrase: string | null
+): Promise<RekeySummary> {
+  recoverUnlocked(storePath, true);
+
+  const stagingPath = stagingPathFor(storePath);
+  const backupPath = backupPathFor(storePath);
+
+  const fingerprint = storeFingerprint(storePath);
+  const identities = await current.listIdentities();
+  const credentials = await current.listCredentials();
+
+  // 1. Write a complete copy under the new passphrase
+  try {
+    const staging = new Keystore(stagingPath, newPassphrase, false);
+    await staging.init();
+
+    for (const identity of identities) {
+      const keyPair = await current.getKeyPair(identity.did);
+      if (!keyPair) {
+        throw new MissingKeyError(identity.did);
+      }
+      await staging.storeIdentity(identity, keyPair);
+    }
+
+    for (const item of credentials) {
+      await staging.storeCredential(item.id, item.data);
+    }
+
+    // Carry over plugin-owned files (status lists, caches, ...)
+    for (const entry of fs.readdirSync(storePath)) {
+      const target = path.join(stagingPath, entry);
+      if (!fs.existsSync(target)) {
+        fs.cpSync(path.join(storePath, entry), target, { recursive: true });
+      }
+    }
+    reanchorAuditHead(storePath, stagingPath, newPassphrase);
+
+    // 2. Verify every key decrypts to the same bytes before swapping
+    const check = new Keystore(stagingPath, newPassphrase, true);
+    for (const identity of identities) {
+      const original = await current.getKeyPair(identity.did);
+      const copy = await check.getKeyPair(identity.did);
+      if (
+        !original ||
+        !copy ||
+        Buffer.compare(Buffer.from(original.privateKey), Buffer.from(copy.privateKey)) !== 0
+      ) {
+        throw new Error(`Re-encrypted key failed verification: ${identity.did}`);
+      }
+    }
+
+    // 3. A write by another command since step 1 would be lost with the old store
+    if (storeFingerprint(storePath) !== fingerprint) {
+      throw new AgentDidError(
+        'Keystore changed while rekeying (another command wrote to it); nothing was replaced, run the rekey again',
+        'KEYSTORE_CHANGED'
+      );
+    }
+  } catch (error) {
+    fs.rmSync(stagingPath, { recursive: true, force: true });
+    throw error;
+  }
+
+  // 4. Swap the verified copy into place
+  fs.renameSync(storePath, backupPath);
+  fs.renameSync(stagingPath, storePath);
+  fs.rmSync(backupPath, { recursive: true, force: true });
+  registerAuditKey(storePath, newPassphrase);
+
+  return {
+    identities: identities.length,
+    credentials: credentials.length,
+    encrypted: newPassphrase !== null,
+  };
+}
+
+/**
+ * Helper: Digest of every path and file content in the store
+ */
+function storeFingerprint(storePath: string): string {
+  const hash = crypto.createHash('sha256');
+  const walk = (dir: string) => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      hash.update(`${path.relative(storePath, entryPath)}\0`);
+      if (entry.isDirectory()) {
+        walk(entryPath);
+      } else if (entry.isFile()) {
+        hash.update(fs.readFileSync(entryPath));
+      }
+      hash.update('\0');
+    }
+  };
+  walk(storePath);
+  return hash.digest('hex');
+}
@@ -1,3 +1,91 @@
+import { InvalidArgumentError } from './error-handler.js';
+/**
+ * Named output formats for `--format` (any value containing `{{` is a template)
+ */
+export const OUTPUT_FORMATS = ['text', 'json', 'yaml', 'table', 'csv', 'ndjson'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number] | 'template';
+
+let verbose = false;
+let outputFormat: OutputFormat = 'text';
+let outputTemplate: Template | undefined;
+
+/**
+ * Enable or disable verbose diagnostics (--verbose)
+ */
+export function setVerbose(enabled: boolean): void {
+  verbose = enabled;
+}
+
+/**
+ * Print a diagnostic line to stderr when verbose output is enabled
+ */
+export function logVerbose(message: string): void {
+  if (verbose) {
+    console.error(`ℹ ${message}`);
+  }
+}
+
+/**
+ * Select the format `renderOutput` uses (--format). Throws on unknown formats
+ * and malformed templates.
+ */
+export function setOutputFormat(format: string): void {
+  if (format.includes('{{')) {
+    outputTemplate = parseTemplate(format);
+    outputFormat = 'template';
+    return;
+  }
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new InvalidArgumentError(
+      `Invalid format: ${format} (expected ${OUTPUT_FORMATS.join(', ')} or a template such as '{{.did}}')`
+    );
+  }
+  outputFormat = format as OutputFormat;
+  outputTemplate = undefined;
+}
+
+/**
+ * The format selected with --format
+ */
+export function getOutputFormat(): OutputFormat {
+  return outputFormat;
+}
+
+/**
+ * Render a command's result in the selected format. `text` renders JSON: commands
+ * only call this for --json output or when a structured format was selected.
+ */
+export function renderOutput(data: unknown): string {
+  const value = toPlain(data);
+  switch (outputFormat) {
+    case 'yaml':
+      return outputYaml(value);
+    case 'table':
+      return Array.isArray(value) ? outputColumns(value) : outputTable(tableRow(value));
+    case 'csv':
+      return outputCsv(Array.isArray(value) ? value : [value]);
+    case 'ndjson':
+      return (Array.isArray(value) ? value : [value]).map((item) => JSON.stringify(item)).join('\n');
+    case 'template':
+      return (Array.isArray(value) ? value : [value])
+        .map((item) => applyTemplate(outputTemplate!, item))
+        .join('\n');
+    default:
+      return outputJson(data);
+  }
+}
+
+/**
+ * Render one event of a long-running command (serve, signer) as a single line:
+ * the template when one was selected, compact JSON otherwise
+ */
+export function renderEvent(event: object): string {
+  return outputFormat === 'template'
+    ? applyTemplate(outputTemplate!, toPlain(event))
+    : JSON.stringify(event);
+}
+
 /**
  * Output data as formatted JSON
  */
@@ -21,11 +109,11 @@ export function outputTable(data: Record<string, unknown>): string {
 }
 
 /**
- * Format output based on JSON flag
+ * Format output based on JSON flag (structured output goes through `renderOutput`)
  */
 export function formatOutput(data: unknown, asJson = false): string {
   if (asJson) {
-    return outputJson(data);
+    return renderOutput(data);
   }
 
   if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
@@ -54,3 +142,200 @@ export function formatDate(dateStr: string): string {
     return dateStr;
   }
 }
+
+/**
+ * A parsed `--format` template: literal text and field references
+ */
+type Template = Array<{ text: string } | { path: string[]; json: boolean }>;
+
+const TEMPLATE_ACTION = /\{\{-?\s*(.*?)\s*-?\}\}/g;
+const TEMPLATE_FIELD = /^(json\s+)?\.([A-Za-z0-9_$@:-]+(\.[A-Za-z0-9_$@:-]+)*)?$/;
+
+/**
+ * Helper: Parse a Go-template-like format: `{{.field}}`, `{{.a.b}}`, `{{.list.0}}`,
+ * `{{.}}` and `{{json .field}}`; `\t` and `\n` in the text are tab and newline
+ */
+function parseTemplate(source: string): Template {
+  const unescape = (text: string) => text.replace(/\\t/g, '\t').replace(/\\n/g, '\n');
+  const template: Template = [];
+  let last = 0;
+  for (const match of source.matchAll(TEMPLATE_ACTION)) {
+    const field = TEMPLATE_FIELD.exec(match[1]);
+    if (!field) {
+      throw new InvalidArgumentError(
+        `Unsupported template action: ${match[0]} (use {{.field}}, {{.a.b}}, {{.}} or {{json .field}})`
+      );
+    }
+    template.push({ text: unescape(source.slice(last, match.index)) });
+    template.push({ path: field[2] ? field[2].split('.') : [], json: Boolean(field[1]) });
+    last = match.index! + match[0].length;
+  }
+  template.push({ text: unescape(source.slice(last)) });
+  return template;
+}
+
+/**
+ * Helper: Render a template for one value (missing fields render as empty text)
+ */
+function applyTemplate(template: Template, value: unknown): string {
+  return template
+    .map((part) => {
+      if ('text' in part) return part.text;
+      const field = part.path.reduce<unknown>(
+        (current, key) =>
+          current !== null &&
+          typeof current === 'object' &&
+          Object.prototype.hasOwnProperty.call(current, key)
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        value
+      );
+      return part.json ? JSON.stringify(field ?? null) : scalarText(field);
+    })
+    .join('');
+}
+
+/**
+ * Helper: Plain JSON data (drops undefined and functions, applies toJSON)
+ */
+function toPlain(data: unknown): unknown {
+  const json = JSON.stringify(data);
+  return json === undefined ? null : JSON.parse(json);
+}
+
+/**
+ * Helper: A value as one cell or template field: scalars as text, lists of
+ * scalars comma-separated, anything else as compact JSON
+ */
+function scalarText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'object') return String(value);
+  if (Array.isArray(value) && value.every((item) => item === null || typeof item !== 'object')) {
+    return value.map((item) => scalarText(item)).join(',');
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Helper: An object as a table row (other values become a single `value` cell)
+ */
+function tableRow(value: unknown): Record<string, string> {
+  const entries =
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? Object.entries(value)
+      : [['value', value] as [string, unknown]];
+  return Object.fromEntries(entries.map(([key, cell]) => [key, scalarText(cell)]));
+}
+
+/**
+ * Helper: Column names of a list of rows, in first-seen order
+ */
+function columnsOf(rows: Array<Record<string, string>>): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return [...columns];
+}
+
+/**
+ * Helper: A list as an aligned table with one row per item
+ */
+function outputColumns(items: unknown[]): string {
+  if (items.length === 0) return '';
+  const rows = items.map(tableRow);
+  const columns = columnsOf(rows);
+  const widths = columns.map((column) =>
+    Math.max(column.length, ...rows.map((row) => (row[column] ?? '').length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd();
+  return [
+    line(columns.map((column) => column.toUpperCase())),
+    ...rows.map((row) => line(columns.map((column) => row[column] ?? ''))),
+  ].join('\n');
+}
+
+/**
+ * Helper: A list as CSV (RFC 4180) with a header row
+ */
+function outputCsv(items: unknown[]): string {
+  if (items.length === 0) return '';
+  const rows = items.map(tableRow);
+  const columns = columnsOf(rows);
+  const quote = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return [
+    columns.map(quote).join(','),
+    ...rows.map((row) => columns.map((column) => quote(row[column] ?? '')).join(',')),
+  ].join('\n');
+}
+
+/**
+ * Helper: Plain JSON data as a YAML document
+ */
+function outputYaml(value: unknown): string {
+  return yamlLines(value, 0).join('\n');
+}
+
+/**
+ * Helper: YAML lines for a value at an indentation level
+ */
+function yamlLines(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${pad}[]`];
+    return value.flatMap((item) => {
+      if (!isYamlBlock(item)) return [`${pad}- ${yamlScalar(item)}`];
+      const [first, ...rest] = yamlLines(item, indent + 2);
+      return [`${pad}- ${first.slice(indent + 2)}`, ...rest];
+    });
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return [`${pad}{}`];
+    return entries.flatMap(([key, item]) =>
+      isYamlBlock(item)
+        ? [`${pad}${yamlScalar(key)}:`, ...yamlLines(item, indent + 2)]
+        : [`${pad}${yamlScalar(key)}: ${yamlScalar(item)}`]
+    );
+  }
+  return [`${pad}${yamlScalar(value)}`];
+}
+
+/**
+ * Helper: Whether a value is written as a nested YAML block (non-empty list or mapping)
+ */
+function isYamlBlock(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && Object.keys(value).length > 0;
+}
+
+/**
+ * Strings YAML would read as another type (booleans, null, numbers, timestamps)
+ */
+const YAML_RESERVED = new RegExp(
+  `^(${[
+    'true|false|yes|no|on|off|null|~',
+    '\\d{4}-\\d\\d?-\\d\\d?([Tt ].*)?',
+    '[-+]?(\\d[\\d_]*(\\.\\d*)?|\\.\\d+)([eE][-+]?\\d+)?',
+    '[-+]?\\d+(:[0-5]?\\d)+(\\.\\d*)?',
+    '0x[0-9a-f]+|0o[0-7]+|[-+]?\\.inf|\\.nan',
+  ].join('|')})$`,
+  'i'
+);
+
+/**
+ * Helper: A YAML scalar; strings that YAML would read differently are double-quoted
+ */
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+  if (typeof value !== 'string') return String(value);
+  const plain =
+    value !== '' &&
+    value === value.trim() &&
+    !/^[-?:,[\]{}#&*!|>'"%@`~]/.test(value) &&
+    !/[\x00-\x1f\x7f]|: | #|:$/.test(value) &&
+    !YAML_RESERVED.test(value);
+  return plain ? value : JSON.stringify(value);
+}
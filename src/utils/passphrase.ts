@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { getPluginConfig } from './plugin-config.js';
+import {
+  InvalidArgumentError,
+  NotFoundError,
+  PassphraseError,
+  MISSING_PASSPHRASE_MESSAGE,
+} from './error-handler.js';
+
+/**
+ * Maximum time a passphrase command may run
+ */
+const COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Where the keystore passphrase came from
+ */
+export type PassphraseSource = 'no-encryption' | 'file' | 'fd' | 'env' | 'command' | 'config';
+
+/**
+ * Passphrase sources given on the command line (--passphrase-file, --passphrase-fd)
+ */
+export interface PassphraseOptions {
+  file?: string;
+  fd?: string | number;
+}
+
+/**
+ * A resolved passphrase (null: keystore is not encrypted) and its source
+ */
+export interface ResolvedPassphrase {
+  passphrase: string | null;
+  source: PassphraseSource;
+  /** File path, descriptor or command the passphrase was read from */
+  detail?: string;
+}
+
+let cliOptions: PassphraseOptions = {};
+
+// A descriptor can only be read once and a command should not run for every keystore access
+const readOnce = new Map<string, string>();
+
+/**
+ * Set the passphrase sources given on the command line
+ */
+export function setPassphraseOptions(options: PassphraseOptions): void {
+  cliOptions = { file: options.file, fd: options.fd };
+}
+
+/**
+ * Get the passphrase sources given on the command line
+ */
+export function getPassphraseOptions(): PassphraseOptions {
+  return cliOptions;
+}
+
+/**
+ * Resolve the keystore passphrase with fallback chain:
+ * 1. --no-encryption: no passphrase
+ * 2. --passphrase-file
+ * 3. --passphrase-fd
+ * 4. AGENT_DID_PASSPHRASE (empty string: no encryption)
+ * 5. plugin config passphraseCommand (stdout of a secret manager helper)
+ * 6. plugin config defaultPassphrase
+ * 7. Otherwise error (OpenClaw doesn't support interactive prompts)
+ */
+export function resolvePassphrase(noEncryption = false): ResolvedPassphrase {
+  if (noEncryption) {
+    return { passphrase: null, source: 'no-encryption' };
+  }
+
+  if (cliOptions.file) {
+    const file = path.resolve(cliOptions.file);
+    return { passphrase: readPassphraseFile(file), source: 'file', detail: file };
+  }
+
+  if (cliOptions.fd !== undefined) {
+    const fd = String(cliOptions.fd);
+    return { passphrase: once(`fd:${fd}`, () => readPassphraseFd(fd)), source: 'fd', detail: fd };
+  }
+
+  const envPassphrase = process.env.AGENT_DID_PASSPHRASE;
+  if (envPassphrase !== undefined) {
+    return {
+      passphrase: envPassphrase === '' ? null : envPassphrase,
+      source: 'env',
+      detail: 'AGENT_DID_PASSPHRASE',
+    };
+  }
+
+  const { passphraseCommand, defaultPassphrase } = getPluginConfig();
+  if (passphraseCommand) {
+    return {
+      passphrase: once(`command:${passphraseCommand}`, () => runPassphraseCommand(passphraseCommand)),
+      source: 'command',
+      detail: passphraseCommand,
+    };
+  }
+
+  if (defaultPassphrase) {
+    return { passphrase: defaultPassphrase, source: 'config', detail: 'defaultPassphrase' };
+  }
+
+  throw new PassphraseError(MISSING_PASSPHRASE_MESSAGE, 'MISSING_PASSPHRASE');
+}
+
+/**
+ * Read a passphrase from a file. The file must be a regular file that only its owner
+ * can read or write; one trailing newline is stripped.
+ */
+export function readPassphraseFile(file: string): string {
+  const filePath = path.resolve(file);
+  if (!fs.existsSync(filePath)) {
+    throw new NotFoundError(`Passphrase file not found: ${filePath}`);
+  }
+
+  const stat = fs.statSync(filePath);
+  if (!stat.isFile()) {
+    throw new InvalidArgumentError(`Passphrase file is not a regular file: ${filePath}`);
+  }
+  if (process.platform !== 'win32' && (stat.mode & 0o077) !== 0) {
+    throw new InvalidArgumentError(
+      `Passphrase file ${filePath} is accessible by other users ` +
+        `(mode ${(stat.mode & 0o777).toString(8)}). Run: chmod 600 ${filePath}`
+    );
+  }
+
+  return requirePassphrase(fs.readFileSync(filePath, 'utf8'), `Passphrase file ${filePath}`);
+}
+
+/**
+ * Read a passphrase from an open file descriptor (e.g. `3<secret` or a pipe on 0) until EOF;
+ * one trailing newline is stripped
+ */
+export function readPassphraseFd(fd: string | number): string {
+  const descriptor = Number(fd);
+  if (!Number.isInteger(descriptor) || descriptor < 0) {
+    throw new InvalidArgumentError(`--passphrase-fd must be a non-negative integer: ${fd}`);
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(descriptor, 'utf8');
+  } catch (error) {
+    throw new PassphraseError(
+      `Cannot read passphrase from file descriptor ${descriptor}: ${(error as Error).message}`,
+      'MISSING_PASSPHRASE'
+    );
+  }
+  return requirePassphrase(content, `File descriptor ${descriptor}`);
+}
+
+/**
+ * Run a passphrase helper (e.g. `pass show agent-did`) through the shell and read its stdout;
+ * one trailing newline is stripped. The helper's stderr is passed through for prompts.
+ */
+export function runPassphraseCommand(command: string): string {
+  const result = spawnSync(command, {
+    shell: true,
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'inherit'],
+    timeout: COMMAND_TIMEOUT_MS,
+  });
+
+  if (result.error) {
+    throw new PassphraseError(`Passphrase command failed: ${result.error.message}`, 'MISSING_PASSPHRASE');
+  }
+  if (result.status !== 0) {
+    throw new PassphraseError(
+      `Passphrase command failed (${result.signal ? `signal ${result.signal}` : `exit code ${result.status}`}): ${command}`,
+      'MISSING_PASSPHRASE'
+    );
+  }
+  return requirePassphrase(result.stdout, 'Passphrase command output');
+}
+
+/**
+ * Describe a passphrase source for verbose output
+ */
+export function describePassphraseSource(resolved: ResolvedPassphrase): string {
+  switch (resolved.source) {
+    case 'no-encryption':
+      return '--no-encryption (keystore not encrypted)';
+    case 'file':
+      return `--passphrase-file ${resolved.detail}`;
+    case 'fd':
+      return `--passphrase-fd ${resolved.detail}`;
+    case 'env':
+      return resolved.passphrase === null
+        ? 'AGENT_DID_PASSPHRASE (empty: keystore not encrypted)'
+        : 'AGENT_DID_PASSPHRASE';
+    case 'command':
+      return `plugin config passphraseCommand (${resolved.detail})`;
+    case 'config':
+      return 'plugin config defaultPassphrase';
+  }
+}
+
+/**
+ * Helper: Strip one trailing newline (LF or CRLF) and reject empty passphrases
+ */
+function requirePassphrase(content: string, label: string): string {
+  const passphrase = content.replace(/\r?\n$/, '');
+  if (passphrase === '') {
+    throw new PassphraseError(`${label} is empty`, 'MISSING_PASSPHRASE');
+  }
+  return passphrase;
+}
+
+/**
+ * Helper: Compute a value once per process
+ */
+function once(key: string, read: () => string): string {
+  if (!readOnce.has(key)) {
+    readOnce.set(key, read());
+  }
+  return readOnce.get(key) as string;
+}
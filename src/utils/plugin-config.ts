@@ -0,0 +1,95 @@
+import * as os from 'os';
+import * as path from 'path';
+import { OUTPUT_FORMATS, type OutputFormat } from './output-formatter.js';
+
+/**
+ * Plugin configuration (see configSchema in openclaw.plugin.json)
+ */
+export interface PluginConfig {
+  keystorePath?: string;
+  defaultPassphrase?: string;
+  /** Shell command printing the passphrase on stdout (e.g. `pass show agent-did`) */
+  passphraseCommand?: string;
+  defaultOwnerDid?: string;
+  defaultOutputFormat?: NamedOutputFormat;
+  resolverUrl?: string;
+  /** Base URL under which issuers publish their status list credentials */
+  statusListBaseUrl?: string;
+}
+
+type NamedOutputFormat = Exclude<OutputFormat, 'template'>;
+
+let pluginConfig: PluginConfig = {};
+
+/**
+ * Store the plugin config passed in by OpenClaw.
+ * Unknown keys and values of the wrong type are ignored.
+ */
+export function setPluginConfig(config: unknown): void {
+  const raw = (config && typeof config === 'object' ? config : {}) as Record<string, unknown>;
+  const str = (key: string) =>
+    typeof raw[key] === 'string' && raw[key] !== '' ? (raw[key] as string) : undefined;
+
+  pluginConfig = {
+    keystorePath: str('keystorePath'),
+    defaultPassphrase: str('defaultPassphrase'),
+    passphraseCommand: str('passphraseCommand'),
+    defaultOwnerDid: str('defaultOwnerDid'),
+    defaultOutputFormat: isNamedFormat(str('defaultOutputFormat'))
+      ? (str('defaultOutputFormat') as NamedOutputFormat)
+      : undefined,
+    resolverUrl: str('resolverUrl'),
+    statusListBaseUrl: str('statusListBaseUrl'),
+  };
+}
+
+/**
+ * Get the current plugin config
+ */
+export function getPluginConfig(): PluginConfig {
+  return pluginConfig;
+}
+
+/**
+ * Expand a leading `~` in a configured path
+ */
+export function expandHome(value: string): string {
+  if (value === '~') return os.homedir();
+  if (value.startsWith('~/')) return path.join(os.homedir(), value.slice(2));
+  return value;
+}
+
+/**
+ * Get the default owner DID with fallback chain:
+ * flag > AGENT_DID_DEFAULT_OWNER > plugin config
+ */
+export function getDefaultOwnerDid(explicit?: string): string | undefined {
+  return explicit || process.env.AGENT_DID_DEFAULT_OWNER || pluginConfig.defaultOwnerDid;
+}
+
+/**
+ * Get the status list base URL with fallback chain:
+ * AGENT_DID_STATUS_LIST_BASE_URL > plugin config
+ */
+export function getStatusListBaseUrl(): string | undefined {
+  return process.env.AGENT_DID_STATUS_LIST_BASE_URL || pluginConfig.statusListBaseUrl;
+}
+
+/**
+ * Get the default output format with fallback chain:
+ * AGENT_DID_OUTPUT_FORMAT > plugin config > text
+ */
+export function getDefaultOutputFormat(): NamedOutputFormat {
+  const env = process.env.AGENT_DID_OUTPUT_FORMAT;
+  if (isNamedFormat(env)) {
+    return env;
+  }
+  return pluginConfig.defaultOutputFormat || 'text';
+}
+
+/**
+ * Helper: Whether a configured value is one of the named output formats
+ */
+function isNamedFormat(value?: string): value is NamedOutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value || '');
+}
@@ -0,0 +1,239 @@
+import * as crypto from 'crypto';
+import { signJwt, decodeJwt, verifyJwtSignature, isOptionalNumericDate } from './jwt.js';
+import { keyIdFor, resolvePublicKey, type ResolverOptions } from './did-resolver.js';
+import type { RawKeyPair } from './signing.js';
+import type { CredentialVerificationResult } from './verification.js';
+import { InvalidArgumentError, type VerificationFailureCode } from './error-handler.js';
+
+const VP_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+/**
+ * Options for creating a Verifiable Presentation
+ */
+export interface PresentationOptions {
+  challenge?: string;
+  domain?: string;
+  /** Lifetime in seconds (a positive integer); without it the presentation does not expire */
+  expiresIn?: number;
+}
+
+/**
+ * Options for verifying a Verifiable Presentation
+ */
+export interface VerifyPresentationOptions {
+  challenge?: string;
+  domain?: string;
+  resolver?: ResolverOptions;
+  /** Full verification of one embedded credential (signature, revocation, delegation chain) */
+  verifyCredential: (jwt: string) => Promise<CredentialVerificationResult>;
+}
+
+/**
+ * Result of verifying a single embedded credential
+ */
+export interface EmbeddedCredentialResult {
+  index: number;
+  valid: boolean;
+  reason?: string;
+  code?: VerificationFailureCode;
+  issuer?: string;
+  subject?: string;
+  type?: string[];
+}
+
+/**
+ * Result of verifying a Verifiable Presentation
+ */
+export interface PresentationVerificationResult {
+  valid: boolean;
+  reason?: string;
+  /** Why verification failed (set when `valid` is false) */
+  code?: VerificationFailureCode;
+  holder?: string;
+  challenge?: string;
+  domain?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  credentials: EmbeddedCredentialResult[];
+}
+
+/**
+ * Wrap JWT credentials in a W3C Verifiable Presentation signed by the holder (JWT-VP)
+ */
+export function createPresentation(
+  holder: string,
+  credentials: string[],
+  keyPair: RawKeyPair,
+  options: PresentationOptions = {}
+): string {
+  if (credentials.length === 0) {
+    throw new InvalidArgumentError('At least one credential is required to build a presentation');
+  }
+  if (
+    options.expiresIn !== undefined &&
+    !(Number.isInteger(options.expiresIn) && options.expiresIn > 0)
+  ) {
+    throw new InvalidArgumentError('Presentation lifetime must be a positive integer number of seconds');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload: Record<string, unknown> = {
+    iss: holder,
+    jti: `urn:uuid:${crypto.randomUUID()}`,
+    iat: now,
+    nbf: now,
+    vp: {
+      '@context': [VP_CONTEXT],
+      type: ['VerifiablePresentation'],
+      holder,
+      verifiableCredential: credentials,
+    },
+  };
+
+  if (options.challenge) payload.nonce = options.challenge;
+  if (options.domain) payload.aud = options.domain;
+  if (options.expiresIn !== undefined) payload.exp = now + options.expiresIn;
+
+  return signJwt(
+    { kid: keyIdFor(holder) },
+    payload,
+    keyPair.privateKey,
+    keyPair.publicKey,
+    keyPair.keyType
+  );
+}
+
+/**
+ * Verify a JWT-VP: holder signature, challenge/domain binding, every embedded
+ * credential (with `options.verifyCredential`), and that each credential subject is the holder
+ */
+export async function verifyPresentationJwt(
+  jwt: string,
+  options: VerifyPresentationOptions
+): Promise<PresentationVerificationResult> {
+  const decoded = decodeJwt(jwt);
+  const payload = decoded.payload as {
+    iss?: string;
+    nonce?: string;
+    aud?: string | string[];
+    iat?: number;
+    exp?: number;
+    nbf?: number;
+    vp?: { holder?: string; type?: string[]; verifiableCredential?: unknown[] };
+  };
+
+  const holder = payload.vp?.holder || payload.iss;
+  const result: PresentationVerificationResult = {
+    valid: false,
+    holder,
+    challenge: payload.nonce,
+    domain: Array.isArray(payload.aud) ? payload.aud.join(', ') : payload.aud,
+    issuedAt: payload.iat ? new Date(payload.iat * 1000).toISOString() : undefined,
+    expiresAt: payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined,
+    credentials: [],
+  };
+
+  if (!payload.vp || !payload.vp.type?.includes('VerifiablePresentation')) {
+    return { ...result, reason: 'Not a Verifiable Presentation', code: 'VERIFICATION_FAILED' };
+  }
+  if (!holder || !payload.iss || payload.iss !== holder) {
+    return {
+      ...result,
+      reason: 'Presentation holder does not match JWT issuer',
+      code: 'VERIFICATION_FAILED',
+    };
+  }
+
+  // Holder signature
+  let signatureValid = false;
+  try {
+    const key = await resolvePublicKey(
+      holder,
+      decoded.header.kid as string | undefined,
+      'authentication',
+      options.resolver
+    );
+    signatureValid = verifyJwtSignature(decoded, key.publicKey, key.keyType);
+  } catch (error) {
+    return {
+      ...result,
+      reason: `Cannot resolve holder key: ${(error as Error).message}`,
+      code: 'VERIFICATION_FAILED',
+    };
+  }
+  if (!signatureValid) {
+    return { ...result, reason: 'Invalid holder signature', code: 'INVALID_SIGNATURE' };
+  }
+
+  // Time validity
+  if (!isOptionalNumericDate(payload.exp) || !isOptionalNumericDate(payload.nbf)) {
+    return { ...result, reason: 'Presentation exp and nbf must be numbers', code: 'VERIFICATION_FAILED' };
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.exp !== undefined && payload.exp < now) {
+    return { ...result, reason: 'Presentation has expired', code: 'CREDENTIAL_EXPIRED' };
+  }
+  if (payload.nbf !== undefined && payload.nbf > now) {
+    return { ...result, reason: 'Presentation is not yet valid', code: 'VERIFICATION_FAILED' };
+  }
+
+  // Challenge / domain binding
+  if (options.challenge && payload.nonce !== options.challenge) {
+    return { ...result, reason: 'Challenge mismatch', code: 'VERIFICATION_FAILED' };
+  }
+  if (options.domain) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.domain)) {
+      return { ...result, reason: 'Domain mismatch', code: 'VERIFICATION_FAILED' };
+    }
+  }
+
+  // Embedded credentials
+  const embedded = payload.vp.verifiableCredential || [];
+  if (embedded.length === 0) {
+    return { ...result, reason: 'Presentation contains no credentials', code: 'VERIFICATION_FAILED' };
+  }
+
+  for (const [index, credential] of embedded.entries()) {
+    if (typeof credential !== 'string') {
+      result.credentials.push({
+        index,
+        valid: false,
+        reason: 'Only JWT credentials are supported',
+        code: 'VERIFICATION_FAILED',
+      });
+      continue;
+    }
+
+    const verification = await options.verifyCredential(credential);
+    const credentialPayload = verification.payload;
+    const entry: EmbeddedCredentialResult = {
+      index,
+      valid: verification.valid,
+      reason: verification.reason,
+      code: verification.code,
+      issuer: credentialPayload?.iss,
+      subject: credentialPayload?.sub,
+      type: credentialPayload?.vc?.type,
+    };
+
+    if (entry.valid && entry.subject !== holder) {
+      entry.valid = false;
+      entry.reason = `Credential subject ${entry.subject} is not the holder`;
+      entry.code = 'VERIFICATION_FAILED';
+    }
+
+    result.credentials.push(entry);
+  }
+
+  const invalid = result.credentials.find((c) => !c.valid);
+  if (invalid) {
+    return {
+      ...result,
+      reason: `Credential #${invalid.index} is invalid: ${invalid.reason}`,
+      code: invalid.code ?? 'VERIFICATION_FAILED',
+    };
+  }
+
+  return { ...result, valid: true };
+}
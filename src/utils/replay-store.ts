@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { withFileLock } from './file-lock.js';
+import { InvalidArgumentError } from './error-handler.js';
+
+const STORE_VERSION = 1;
+
+/**
+ * Persisted replay cache: hashed nonce/jti keys -> expiry (unix seconds)
+ */
+interface ReplayStoreFile {
+  version: number;
+  entries: Record<string, number>;
+}
+
+/**
+ * Summary of a purge
+ */
+export interface ReplayPurgeResult {
+  removed: number;
+  remaining: number;
+}
+
+/**
+ * Get the replay store path: explicit value > AGENT_DID_REPLAY_STORE (undefined disables it)
+ */
+export function getReplayStorePath(explicit?: string): string | undefined {
+  const value = explicit || process.env.AGENT_DID_REPLAY_STORE;
+  return value ? path.resolve(value) : undefined;
+}
+
+/**
+ * Record a consumed nonce/jti until `expiresAt` (unix seconds).
+ * Returns false if it was already recorded and has not expired (a replay).
+ * Expired entries are dropped on every write.
+ */
+export function recordNonce(storePath: string, key: string, expiresAt: number): boolean {
+  if (!Number.isFinite(expiresAt)) {
+    throw new InvalidArgumentError(`Replay expiry must be a number of seconds: ${expiresAt}`);
+  }
+  return withFileLock(storePath, 'Replay store', () => {
+    const store = readStore(storePath);
+    const now = Math.floor(Date.now() / 1000);
+    const hashed = hashKey(key);
+
+    pruneExpired(store, now);
+    if (store.entries[hashed] !== undefined) {
+      return false;
+    }
+
+    store.entries[hashed] = expiresAt;
+    writeStore(storePath, store);
+    return true;
+  });
+}
+
+/**
+ * Remove expired entries (those past `expiresAt`)
+ */
+export function purgeReplayStore(storePath: string): ReplayPurgeResult {
+  return withFileLock(storePath, 'Replay store', () => {
+    const store = readStore(storePath);
+    const removed = pruneExpired(store, Math.floor(Date.now() / 1000));
+    writeStore(storePath, store);
+    return { removed, remaining: Object.keys(store.entries).length };
+  });
+}
+
+/**
+ * Helper: Hash a cache key so raw nonces are not kept on disk
+ */
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Helper: Remove expired entries in place and return how many were removed
+ */
+function pruneExpired(store: ReplayStoreFile, now: number): number {
+  let removed = 0;
+  for (const [key, expiresAt] of Object.entries(store.entries)) {
+    if (expiresAt < now) {
+      delete store.entries[key];
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Helper: Read the store file (empty store if missing)
+ */
+function readStore(storePath: string): ReplayStoreFile {
+  if (!fs.existsSync(storePath)) {
+    return { version: STORE_VERSION, entries: {} };
+  }
+
+  let parsed: ReplayStoreFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(storePath, 'utf8'));
+  } catch {
+    throw new Error(`Replay store is corrupted: ${storePath}`);
+  }
+  if (parsed.version !== STORE_VERSION || typeof parsed.entries !== 'object') {
+    throw new Error(`Unsupported replay store format: ${storePath}`);
+  }
+  return parsed;
+}
+
+/**
+ * Helper: Write the store atomically (temp file + rename)
+ */
+function writeStore(storePath: string, store: ReplayStoreFile): void {
+  fs.mkdirSync(path.dirname(storePath), { recursive: true });
+  const tmpPath = `${storePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(store), { mode: 0o600 });
+  fs.renameSync(tmpPath, storePath);
+}
@@ -0,0 +1,343 @@
+import { InvalidArgumentError } from './error-handler.js';
+/**
+ * Capability scope language
+ *
+ *   scope       = [resource ":"] action *( ";" constraint )
+ *   resource    = segments separated by ":" or "/"; `*` matches within one segment,
+ *                 `**` matches across segments, a bare `*` matches every resource.
+ *                 Without a resource (`read`) the scope only applies to requests that
+ *                 name no resource; `*:read` grants the action on every resource
+ *   action      = name | "*"
+ *   constraint  = "rate=" n "/" (s|m|h|d)      rate limit (reported as an obligation)
+ *               | "hours=" HH:MM "-" HH:MM     UTC time window (may wrap midnight)
+ *               | "days=" day ["-" day]        UTC weekdays (mon..sun)
+ *               | "from=" ISO | "until=" ISO   absolute validity window
+ *
+ * Examples: `read`, `api:read`, `repo:acme/*:write`, `repo:acme/**:*;hours=09:00-17:00;days=mon-fri`
+ */
+
+const ACTION_PATTERN = /^(\*|[A-Za-z0-9_.-]+)$/;
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const RATE_UNITS: Record<string, RateLimit['per']> = { s: 'second', m: 'minute', h: 'hour', d: 'day' };
+
+/**
+ * Rate limit attached to a scope
+ */
+export interface RateLimit {
+  limit: number;
+  per: 'second' | 'minute' | 'hour' | 'day';
+}
+
+/**
+ * Optional conditions attached to a scope
+ */
+export interface ScopeConstraints {
+  rate?: RateLimit;
+  /** Minutes after midnight UTC */
+  hours?: { start: number; end: number };
+  /** Day numbers (0 = Sunday) */
+  days?: number[];
+  from?: Date;
+  until?: Date;
+}
+
+/**
+ * A parsed scope
+ */
+export interface ParsedScope {
+  raw: string;
+  /** Omitted for a bare action, which never matches a request naming a resource */
+  resource?: string;
+  action: string;
+  constraints: ScopeConstraints;
+}
+
+/**
+ * Requested operation to authorize
+ */
+export interface ScopeRequest {
+  action: string;
+  /** Omitted: only scopes granting every resource apply */
+  resource?: string;
+  at?: Date;
+}
+
+/**
+ * Outcome of evaluating one scope against a request
+ */
+export interface ScopeEvaluation {
+  scope: string;
+  granted: boolean;
+  reason: string;
+}
+
+/**
+ * Outcome of evaluating all scopes of a credential
+ */
+export interface ScopeDecision {
+  allowed: boolean;
+  matchedScope?: string;
+  /** Conditions the caller must enforce (e.g. rate limits) */
+  obligations: string[];
+  evaluated: ScopeEvaluation[];
+}
+
+/**
+ * Parse a scope string; throws on invalid syntax
+ */
+export function parseScope(scope: string): ParsedScope {
+  const raw = scope.trim();
+  const [body, ...constraintParts] = raw.split(';').map((part) => part.trim());
+  if (!body || /\s/.test(body)) {
+    throw new InvalidArgumentError(`Invalid scope: "${scope}"`);
+  }
+
+  const separator = body.lastIndexOf(':');
+  const resource = separator === -1 ? undefined : body.slice(0, separator);
+  const action = body.slice(separator + 1);
+  if (resource === '' || !ACTION_PATTERN.test(action)) {
+    throw new InvalidArgumentError(`Invalid scope: "${scope}" (expected [resource:]action)`);
+  }
+
+  const constraints: ScopeConstraints = {};
+  for (const part of constraintParts) {
+    const [key, value] = part.split(/=(.*)/s, 2);
+    if (!value) {
+      throw new InvalidArgumentError(`Invalid constraint "${part}" in scope "${raw}"`);
+    }
+    parseConstraint(constraints, key, value, raw);
+  }
+
+  return { raw, resource, action, constraints };
+}
+
+/**
+ * Validate a list of scopes (throws on the first invalid one) and return them trimmed
+ */
+export function validateScopes(scopes: string[]): string[] {
+  return scopes
+    .map((scope) => scope.trim())
+    .filter(Boolean)
+    .map((scope) => parseScope(scope).raw);
+}
+
+/**
+ * Check whether a resource pattern matches a concrete resource
+ */
+export function matchesResource(pattern: string, resource: string): boolean {
+  if (pattern === '*' || pattern === '**') return true;
+
+  const regex = pattern
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/:]*')
+    )
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(resource);
+}
+
+/**
+ * Check whether `child` grants nothing beyond `parent`: same or narrower action
+ * and resource, and constraints at least as strict. A bare child (no resource) is
+ * covered by a bare or all-resources parent only, and a bare parent covers only bare children.
+ */
+export function isScopeSubset(child: ParsedScope, parent: ParsedScope): boolean {
+  if (parent.action !== '*' && child.action !== parent.action) return false;
+
+  if (parent.resource === undefined) {
+    if (child.resource !== undefined) return false;
+  } else if (!isAllResources(parent.resource)) {
+    if (child.resource === undefined) return false;
+    // Wildcards in the child are matched literally; a child `**` (which crosses
+    // segments) is replaced by a segment separator so only a parent `**` covers it
+    const childResource = child.resource === '*' ? '**' : child.resource;
+    if (!matchesResource(parent.resource, childResource.split('**').join('\u0001/\u0001'))) {
+      return false;
+    }
+  }
+
+  return constraintsAtLeast(child.constraints, parent.constraints);
+}
+
+/**
+ * Return the first child scope not covered by any parent scope (undefined if all are)
+ */
+export function findUncoveredScope(childScopes: string[], parentScopes: string[]): string | undefined {
+  const parents = parentScopes.map((scope) => parseScope(scope));
+  return childScopes.find((raw) => {
+    const child = parseScope(raw);
+    return !parents.some((parent) => isScopeSubset(child, parent));
+  });
+}
+
+/**
+ * Evaluate a request against granted scopes. The first scope that matches the
+ * action and resource and whose constraints hold grants the request.
+ */
+export function evaluateScopes(scopes: string[], request: ScopeRequest): ScopeDecision {
+  const at = request.at || new Date();
+  const evaluated: ScopeEvaluation[] = [];
+
+  for (const raw of scopes) {
+    let scope: ParsedScope;
+    try {
+      scope = parseScope(raw);
+    } catch (error) {
+      evaluated.push({ scope: raw, granted: false, reason: (error as Error).message });
+      continue;
+    }
+
+    if (scope.action !== '*' && scope.action !== request.action) {
+      evaluated.push({ scope: raw, granted: false, reason: `Action "${request.action}" not granted` });
+      continue;
+    }
+    if (request.resource === undefined) {
+      if (scope.resource !== undefined && !isAllResources(scope.resource)) {
+        evaluated.push({ scope: raw, granted: false, reason: 'Scope is limited to specific resources' });
+        continue;
+      }
+    } else if (scope.resource === undefined) {
+      evaluated.push({
+        scope: raw,
+        granted: false,
+        reason: `Scope names no resource (use "*:${scope.action}" to grant every resource)`,
+      });
+      continue;
+    } else if (!matchesResource(scope.resource, request.resource)) {
+      evaluated.push({
+        scope: raw,
+        granted: false,
+        reason: `Resource "${request.resource}" does not match "${scope.resource}"`,
+      });
+      continue;
+    }
+
+    const violation = checkConstraints(scope.constraints, at);
+    if (violation) {
+      evaluated.push({ scope: raw, granted: false, reason: violation });
+      continue;
+    }
+
+    evaluated.push({ scope: raw, granted: true, reason: 'Action and resource granted' });
+    const obligations = scope.constraints.rate
+      ? [`rate limit: ${scope.constraints.rate.limit} per ${scope.constraints.rate.per}`]
+      : [];
+    return { allowed: true, matchedScope: raw, obligations, evaluated };
+  }
+
+  return { allowed: false, obligations: [], evaluated };
+}
+
+/**
+ * Helper: Whether a resource pattern matches every resource
+ */
+function isAllResources(resource: string): boolean {
+  return resource === '*' || resource === '**';
+}
+
+/**
+ * Helper: Parse one `key=value` constraint into `constraints`
+ */
+function parseConstraint(constraints: ScopeConstraints, key: string, value: string, scope: string): void {
+  const invalid = () => new Error(`Invalid ${key} constraint "${value}" in scope "${scope}"`);
+
+  switch (key) {
+    case 'rate': {
+      const match = /^(\d+)\/([smhd])$/.exec(value);
+      if (!match || Number(match[1]) < 1) throw invalid();
+      constraints.rate = { limit: Number(match[1]), per: RATE_UNITS[match[2]] };
+      return;
+    }
+    case 'hours': {
+      const match = /^(\d{2}):(\d{2})-(\d{2}):(\d{2})$/.exec(value);
+      const [startH, startM, endH, endM] = (match?.slice(1) || []).map(Number);
+      if (!match || startH > 23 || endH > 24 || startM > 59 || endM > 59) throw invalid();
+      constraints.hours = { start: startH * 60 + startM, end: endH * 60 + endM };
+      return;
+    }
+    case 'days': {
+      const [first, last = first] = value.toLowerCase().split('-');
+      const start = DAYS.indexOf(first);
+      const end = DAYS.indexOf(last);
+      if (start === -1 || end === -1) throw invalid();
+      const days: number[] = [];
+      for (let day = start; ; day = (day + 1) % 7) {
+        days.push(day);
+        if (day === end) break;
+      }
+      constraints.days = days;
+      return;
+    }
+    case 'from':
+    case 'until': {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) throw invalid();
+      constraints[key] = date;
+      return;
+    }
+    default:
+      throw new InvalidArgumentError(`Unknown constraint "${key}" in scope "${scope}"`);
+  }
+}
+
+/**
+ * Helper: Check that `child` constraints are at least as strict as `parent` constraints
+ */
+function constraintsAtLeast(child: ScopeConstraints, parent: ScopeConstraints): boolean {
+  if (parent.rate) {
+    if (!child.rate || child.rate.per !== parent.rate.per || child.rate.limit > parent.rate.limit) {
+      return false;
+    }
+  }
+  if (parent.hours) {
+    const { start, end } = parent.hours;
+    if (!child.hours) return false;
+    const same = child.hours.start === start && child.hours.end === end;
+    const within =
+      start <= end &&
+      child.hours.start <= child.hours.end &&
+      child.hours.start >= start &&
+      child.hours.end <= end;
+    if (!same && !within) return false;
+  }
+  if (parent.days && (!child.days || child.days.some((day) => !parent.days!.includes(day)))) {
+    return false;
+  }
+  if (parent.from && (!child.from || child.from < parent.from)) return false;
+  if (parent.until && (!child.until || child.until > parent.until)) return false;
+  return true;
+}
+
+/**
+ * Helper: Return why the time-based constraints do not hold at `at` (undefined if they do)
+ */
+function checkConstraints(constraints: ScopeConstraints, at: Date): string | undefined {
+  if (constraints.from && at < constraints.from) {
+    return `Scope is not valid before ${constraints.from.toISOString()}`;
+  }
+  if (constraints.until && at > constraints.until) {
+    return `Scope expired at ${constraints.until.toISOString()}`;
+  }
+  if (constraints.days && !constraints.days.includes(at.getUTCDay())) {
+    return `Not allowed on ${DAYS[at.getUTCDay()]} (UTC)`;
+  }
+  if (constraints.hours) {
+    const { start, end } = constraints.hours;
+    const minute = at.getUTCHours() * 60 + at.getUTCMinutes();
+    const inside = start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+    if (!inside) {
+      return `Outside allowed hours ${formatMinutes(start)}-${formatMinutes(end)} UTC`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Helper: Format minutes after midnight as HH:MM
+ */
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
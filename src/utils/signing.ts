@@ -0,0 +1,124 @@
+import { signCredential, signAuthChallenge, type Keystore } from 'agent-did';
+import { signJwt, base64UrlEncode } from './jwt.js';
+import { keyIdFor } from './did-resolver.js';
+import { JOSE_ALGORITHMS, keyTypeOf, signBytes, type KeyType } from './key-types.js';
+import { archiveOf } from './identity-archive.js';
+import { AgentDidError } from './error-handler.js';
+
+type Credential = Parameters<typeof signCredential>[0];
+
+/**
+ * Signed authentication challenge response (payload and signature are base64url encoded).
+ * agent-did's Ed25519 responses and the ES256/ES256K responses built here share this shape.
+ */
+export interface SignedChallenge {
+  did: string;
+  kid: string;
+  alg: string;
+  createdAt: string;
+  expiresAt: string;
+  payloadEncoded: string;
+  signature: string;
+}
+
+/**
+ * Raw key pair as returned by the keystore, with the identity's key type
+ * (Ed25519 when omitted)
+ */
+export interface RawKeyPair {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+  keyType?: KeyType;
+}
+
+/**
+ * Get an identity's key pair together with its key type (null if missing).
+ * Archived identities cannot sign until they are restored.
+ */
+export async function getSigningKeyPair(keystore: Keystore, did: string): Promise<RawKeyPair | null> {
+  const keyPair = await keystore.getKeyPair(did);
+  if (!keyPair) return null;
+  const identity = await keystore.getIdentity(did);
+  if (archiveOf(identity)) {
+    throw new AgentDidError(
+      `Identity is archived: ${did} (restore it with agent-did restore --did ${did})`,
+      'IDENTITY_ARCHIVED'
+    );
+  }
+  return { privateKey: keyPair.privateKey, publicKey: keyPair.publicKey, keyType: keyTypeOf(identity) };
+}
+
+/**
+ * Sign a credential as a JWT-VC on behalf of `did`.
+ * Ed25519 did:key issuers use agent-did directly; other methods and key types
+ * get a JWT (EdDSA, ES256 or ES256K) whose `kid` points at the verification
+ * method in their DID Document.
+ */
+export async function signCredentialAs(
+  did: string,
+  credential: object,
+  keyPair: RawKeyPair
+): Promise<string> {
+  const keyType = keyPair.keyType ?? 'ed25519';
+  if (did.startsWith('did:key:') && keyType === 'ed25519') {
+    return signCredential(credential as Credential, keyPair.privateKey, keyPair.publicKey);
+  }
+
+  const vc = credential as {
+    id?: string;
+    validFrom?: string;
+    validUntil?: string;
+    credentialSubject?: { id?: string };
+  };
+  const now = Math.floor(Date.now() / 1000);
+  const payload: Record<string, unknown> = {
+    iss: did,
+    iat: now,
+    nbf: vc.validFrom ? Math.floor(new Date(vc.validFrom).getTime() / 1000) : now,
+    vc: credential,
+  };
+
+  if (vc.credentialSubject?.id) payload.sub = vc.credentialSubject.id;
+  if (vc.id) payload.jti = vc.id;
+  if (vc.validUntil) payload.exp = Math.floor(new Date(vc.validUntil).getTime() / 1000);
+
+  return signJwt({ kid: keyIdFor(did) }, payload, keyPair.privateKey, keyPair.publicKey, keyType);
+}
+
+/**
+ * Sign an authentication challenge on behalf of `did`.
+ * Ed25519 keys use agent-did; P-256 and secp256k1 keys produce the same response
+ * shape with an ES256/ES256K signature over the JSON payload bytes.
+ */
+export async function signAuthChallengeAs(
+  did: string,
+  keyPair: RawKeyPair,
+  challenge: string,
+  options: { audience?: string; domain?: string; expiresIn: number }
+): Promise<SignedChallenge> {
+  const keyType = keyPair.keyType ?? 'ed25519';
+  if (keyType === 'ed25519') {
+    return signAuthChallenge(did, keyPair.privateKey, keyPair.publicKey, challenge, options);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    did,
+    nonce: challenge,
+    ...(options.audience && { aud: options.audience }),
+    ...(options.domain && { domain: options.domain }),
+    iat: now,
+    exp: now + options.expiresIn,
+  };
+  const payloadBytes = Buffer.from(JSON.stringify(payload));
+
+  return {
+    did,
+    kid: keyIdFor(did),
+    alg: JOSE_ALGORITHMS[keyType],
+    createdAt: new Date(now * 1000).toISOString(),
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+    payloadEncoded: base64UrlEncode(payloadBytes),
+    signature: base64UrlEncode(signBytes(keyType, payloadBytes, keyPair.privateKey, keyPair.publicKey)),
+  };
+}
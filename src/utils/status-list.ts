@@ -0,0 +1,368 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { decodeCredential, type JWTPayload } from 'agent-did';
+import { verifyCredentialJwt } from './verification.js';
+import { signCredentialAs, type RawKeyPair } from './signing.js';
+import type { ResolverOptions } from './did-resolver.js';
+import { InvalidArgumentError, NotFoundError } from './error-handler.js';
+import { withAsyncFileLock } from './file-lock.js';
+import { getStatusListBaseUrl } from './plugin-config.js';
+
+/**
+ * Minimum bitstring length recommended by the Bitstring Status List spec (16KB)
+ */
+const STATUS_LIST_SIZE = 131072;
+
+const STATUS_LIST_DIR = 'status-lists';
+
+/**
+ * Persisted status list state for one issuer
+ */
+export interface StatusListState {
+  issuer: string;
+  url: string;
+  statusPurpose: 'revocation';
+  encodedList: string;
+  nextIndex: number;
+  entries: Record<string, number>;
+  updatedAt: string;
+}
+
+/**
+ * credentialStatus entry embedded in issued credentials
+ */
+export interface BitstringStatusListEntry {
+  id: string;
+  type: 'BitstringStatusListEntry';
+  statusPurpose: 'revocation';
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+/**
+ * Result of checking a credential against its status list
+ */
+export interface StatusCheckResult {
+  checked: boolean;
+  revoked: boolean;
+  statusListCredential?: string;
+  statusListIndex?: number;
+  reason?: string;
+}
+
+/**
+ * Encode a bitstring as multibase base64url (GZIP-compressed)
+ */
+function encodeBitstring(bits: Uint8Array): string {
+  return 'u' + zlib.gzipSync(bits).toString('base64url');
+}
+
+/**
+ * Decode a multibase base64url (GZIP-compressed) bitstring
+ */
+function decodeBitstring(encoded: string): Uint8Array {
+  const data = encoded.startsWith('u') ? encoded.slice(1) : encoded;
+  return new Uint8Array(zlib.gunzipSync(Buffer.from(data, 'base64url')));
+}
+
+/**
+ * Read a bit (index 0 is the left-most bit of the first byte)
+ */
+function getBit(bits: Uint8Array, index: number): boolean {
+  const byte = bits[Math.floor(index / 8)];
+  if (byte === undefined) {
+    throw new Error(`Status list index out of range: ${index}`);
+  }
+  return (byte & (0x80 >> index % 8)) !== 0;
+}
+
+function setBit(bits: Uint8Array, index: number): void {
+  if (index < 0 || index >= bits.length * 8) {
+    throw new Error(`Status list index out of range: ${index}`);
+  }
+  bits[Math.floor(index / 8)] |= 0x80 >> index % 8;
+}
+
+function fileName(issuer: string): string {
+  return issuer.replace(/[^a-zA-Z0-9]/g, '_');
+}
+
+function fileBase(storePath: string, issuer: string): string {
+  return path.join(storePath, STATUS_LIST_DIR, fileName(issuer));
+}
+
+/**
+ * Path of the signed status list credential (JWT) for an issuer
+ */
+export function statusListCredentialPath(storePath: string, issuer: string): string {
+  return `${fileBase(storePath, issuer)}.jwt`;
+}
+
+/**
+ * Load the status list state for an issuer (null if none exists yet)
+ */
+export function loadStatusList(storePath: string, issuer: string): StatusListState | null {
+  const statePath = `${fileBase(storePath, issuer)}.json`;
+  if (!fs.existsSync(statePath)) return null;
+  return JSON.parse(fs.readFileSync(statePath, 'utf8')) as StatusListState;
+}
+
+/**
+ * Run `fn` while holding the lock on an issuer's status list, so that concurrent
+ * issuance and revocation neither reuse an index nor drop each other's updates
+ */
+export function withStatusListLock<T>(
+  storePath: string,
+  issuer: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  return withAsyncFileLock(`${fileBase(storePath, issuer)}.json`, 'Status list', fn);
+}
+
+/**
+ * Load the status list state for an issuer, creating an empty list if needed.
+ * A new list needs a public URL: `url`, or `<status list base URL>/<issuer>.jwt`.
+ */
+export function loadOrCreateStatusList(
+  storePath: string,
+  issuer: string,
+  url?: string
+): StatusListState {
+  const existing = loadStatusList(storePath, issuer);
+  if (existing) {
+    if (url && url !== existing.url) {
+      existing.url = url;
+    }
+    return existing;
+  }
+
+  const baseUrl = getStatusListBaseUrl();
+  const listUrl = url || (baseUrl && `${baseUrl.replace(/\/+$/, '')}/${fileName(issuer)}.jwt`);
+  if (!listUrl) {
+    throw new InvalidArgumentError(
+      `No status list URL for ${issuer}: pass --status-list-url or set AGENT_DID_STATUS_LIST_BASE_URL (plugin config statusListBaseUrl)`
+    );
+  }
+
+  return {
+    issuer,
+    url: listUrl,
+    statusPurpose: 'revocation',
+    encodedList: encodeBitstring(new Uint8Array(STATUS_LIST_SIZE / 8)),
+    nextIndex: 0,
+    entries: {},
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Persist status list state and its signed credential
+ */
+export function saveStatusList(storePath: string, state: StatusListState, jwt: string): void {
+  const base = fileBase(storePath, state.issuer);
+  fs.mkdirSync(path.dirname(base), { recursive: true });
+  state.updatedAt = new Date().toISOString();
+  fs.writeFileSync(`${base}.json`, JSON.stringify(state, null, 2), { mode: 0o600 });
+  fs.writeFileSync(`${base}.jwt`, jwt, 'utf8');
+}
+
+/**
+ * Reserve the next index in the status list for a credential
+ */
+export function allocateStatusEntry(
+  state: StatusListState,
+  credentialId: string
+): BitstringStatusListEntry {
+  if (state.nextIndex >= STATUS_LIST_SIZE) {
+    throw new Error(`Status list is full for issuer: ${state.issuer}`);
+  }
+
+  const index = state.nextIndex++;
+  state.entries[credentialId] = index;
+
+  return {
+    id: `${state.url}#${index}`,
+    type: 'BitstringStatusListEntry',
+    statusPurpose: 'revocation',
+    statusListIndex: String(index),
+    statusListCredential: state.url,
+  };
+}
+
+/**
+ * Add a revocation status entry to an unsigned credential and re-sign the issuer's status list
+ */
+export async function attachCredentialStatus(
+  storePath: string,
+  credential: object,
+  issuer: string,
+  keyPair: RawKeyPair,
+  url?: string
+): Promise<void> {
+  const vc = credential as { id?: string; credentialStatus?: BitstringStatusListEntry };
+
+  await withStatusListLock(storePath, issuer, async () => {
+    const state = loadOrCreateStatusList(storePath, issuer, url);
+
+    vc.id = vc.id || `urn:uuid:${crypto.randomUUID()}`;
+    vc.credentialStatus = allocateStatusEntry(state, vc.id);
+
+    const listJwt = await signCredentialAs(issuer, buildStatusListCredential(state), keyPair);
+    saveStatusList(storePath, state, listJwt);
+  });
+}
+
+/**
+ * Set the revocation bit for an index. Returns false if it was already set.
+ */
+export function revokeStatusIndex(state: StatusListState, index: number): boolean {
+  const bits = decodeBitstring(state.encodedList);
+  if (getBit(bits, index)) return false;
+  setBit(bits, index);
+  state.encodedList = encodeBitstring(bits);
+  return true;
+}
+
+/**
+ * Fold another copy of the same issuer's status list into `target`: revocation bits
+ * of both are kept and no index handed out by either is reused. Returns false if
+ * `target` already covered everything.
+ */
+export function mergeStatusLists(target: StatusListState, other: StatusListState): boolean {
+  const bits = decodeBitstring(target.encodedList);
+  const otherBits = decodeBitstring(other.encodedList);
+  let changed = other.nextIndex > target.nextIndex;
+  for (let i = 0; i < bits.length; i++) {
+    const merged = bits[i] | (otherBits[i] ?? 0);
+    changed ||= merged !== bits[i];
+    bits[i] = merged;
+  }
+  for (const [id, index] of Object.entries(other.entries)) {
+    if (!(id in target.entries)) {
+      target.entries[id] = index;
+      changed = true;
+    }
+  }
+  target.encodedList = encodeBitstring(bits);
+  target.nextIndex = Math.max(target.nextIndex, other.nextIndex);
+  return changed;
+}
+
+/**
+ * Read a credential's revocation bit from its issuer's status list in this keystore
+ * (undefined when the credential has no status entry or the list lives elsewhere)
+ */
+export function localRevocationStatus(storePath: string, payload: JWTPayload): boolean | undefined {
+  const status = (payload.vc as { credentialStatus?: BitstringStatusListEntry } | undefined)
+    ?.credentialStatus;
+  if (!status || status.type !== 'BitstringStatusListEntry') return undefined;
+
+  const state = loadStatusList(storePath, payload.iss);
+  if (!state || state.url !== status.statusListCredential) return undefined;
+  try {
+    return getBit(decodeBitstring(state.encodedList), parseInt(status.statusListIndex, 10));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the (unsigned) BitstringStatusListCredential for the current state
+ */
+export function buildStatusListCredential(state: StatusListState): Record<string, unknown> {
+  return {
+    '@context': ['https://www.w3.org/ns/credentials/v2'],
+    id: state.url,
+    type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+    issuer: state.issuer,
+    validFrom: new Date().toISOString(),
+    credentialSubject: {
+      id: `${state.url}#list`,
+      type: 'BitstringStatusList',
+      statusPurpose: state.statusPurpose,
+      encodedList: state.encodedList,
+    },
+  };
+}
+
+/**
+ * Fetch a status list credential JWT from a URL, or from a local file when `allowLocal`
+ * (only for a source the operator named, never for a URL taken from a credential)
+ */
+async function fetchStatusList(source: string, allowLocal: boolean): Promise<string> {
+  if (isHttpUrl(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${source}`);
+    }
+    return (await response.text()).trim();
+  }
+
+  if (!allowLocal) {
+    throw new InvalidArgumentError(`Status list URL must be http(s): ${source}`);
+  }
+  const filePath = source.startsWith('file://') ? fileURLToPath(source) : path.resolve(source);
+  if (!fs.existsSync(filePath)) {
+    throw new NotFoundError(`File not found: ${filePath}`);
+  }
+  return fs.readFileSync(filePath, 'utf8').trim();
+}
+
+/**
+ * Check the revocation status of a verified credential.
+ * The status list is fetched from `statusListSource` when given (a URL or local file),
+ * otherwise from the credential's statusListCredential URL, which must be http(s).
+ */
+export async function checkCredentialStatus(
+  payload: JWTPayload,
+  statusListSource?: string,
+  resolver?: ResolverOptions
+): Promise<StatusCheckResult> {
+  const status = (payload.vc as { credentialStatus?: BitstringStatusListEntry }).credentialStatus;
+  if (!status || status.type !== 'BitstringStatusListEntry') {
+    return { checked: false, revoked: false };
+  }
+
+  const index = parseInt(status.statusListIndex, 10);
+  const result: StatusCheckResult = {
+    checked: true,
+    revoked: false,
+    statusListCredential: status.statusListCredential,
+    statusListIndex: index,
+  };
+
+  try {
+    const listJwt = statusListSource
+      ? await fetchStatusList(statusListSource, true)
+      : await fetchStatusList(status.statusListCredential, false);
+    const verification = await verifyCredentialJwt(listJwt, {
+      allowedIssuers: [payload.iss],
+      resolver,
+    });
+    if (!verification.valid) {
+      return { ...result, reason: `Status list credential is invalid: ${verification.reason}` };
+    }
+
+    const decoded = decodeCredential(listJwt);
+    const subject = (decoded?.payload as JWTPayload | undefined)?.vc?.credentialSubject as
+      | { encodedList?: string; statusPurpose?: string }
+      | undefined;
+    if (!subject?.encodedList || subject.statusPurpose !== status.statusPurpose) {
+      return { ...result, reason: 'Status list credential has no matching encodedList' };
+    }
+
+    return { ...result, revoked: getBit(decodeBitstring(subject.encodedList), index) };
+  } catch (error) {
+    return { ...result, reason: `Status list unavailable: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Helper: Whether a status list source is an http(s) URL
+ */
+function isHttpUrl(source: string): boolean {
+  return source.startsWith('http://') || source.startsWith('https://');
+}
@@ -0,0 +1,255 @@
+import { verifyCredential, verifyAuthChallenge, type JWTPayload } from 'agent-did';
+import { decodeJwt, verifyJwtSignature, base64UrlDecode, isOptionalNumericDate } from './jwt.js';
+import { resolvePublicKey, getResolverOptions, type ResolverOptions } from './did-resolver.js';
+import { didKeyType } from './did-key.js';
+import { verifyBytes } from './key-types.js';
+import { verificationFailureCode, type VerificationFailureCode } from './error-handler.js';
+
+/**
+ * Options for verifying a JWT credential
+ */
+export interface CredentialVerifyOptions {
+  allowedIssuers?: string[];
+  expectedSubject?: string;
+  resolver?: ResolverOptions;
+}
+
+/**
+ * Result of verifying a JWT credential (same shape as agent-did's verifyCredential)
+ */
+export interface CredentialVerificationResult {
+  valid: boolean;
+  reason?: string;
+  /** Why verification failed (set when `valid` is false) */
+  code?: VerificationFailureCode;
+  payload?: JWTPayload;
+}
+
+/**
+ * Options for verifying an authentication challenge response
+ */
+export interface AuthVerifyOptions {
+  expectedNonce?: string;
+  expectedAudience?: string;
+  expectedDomain?: string;
+  /** Tolerated clock difference in seconds for `exp`/`iat` checks */
+  clockSkew?: number;
+  resolver?: ResolverOptions;
+}
+
+/**
+ * Decoded authentication challenge payload
+ */
+export interface AuthPayload {
+  did: string;
+  nonce: string;
+  aud?: string;
+  domain?: string;
+  jti?: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Result of verifying an authentication challenge response
+ */
+export interface AuthVerificationResult {
+  valid: boolean;
+  reason?: string;
+  /** Why verification failed (set when `valid` is false) */
+  code?: VerificationFailureCode;
+  payload?: AuthPayload;
+}
+
+/**
+ * Helper: add a failure code to a result from the agent-did library
+ */
+function withFailureCode<T extends { valid: boolean; reason?: string }>(
+  result: T
+): T & { code?: VerificationFailureCode } {
+  return result.valid ? result : { ...result, code: verificationFailureCode(result.reason) };
+}
+
+/**
+ * Helper: reject an authentication payload whose `exp` or `iat` is missing or not a number
+ */
+function malformedTimes(payload: AuthPayload): AuthVerificationResult | undefined {
+  if (Number.isFinite(payload.exp) && Number.isFinite(payload.iat)) {
+    return undefined;
+  }
+  return { valid: false, reason: 'Challenge exp and iat must be numbers', code: 'VERIFICATION_FAILED', payload };
+}
+
+/**
+ * Verify a JWT credential issued by any supported DID method and key type.
+ * Ed25519 did:key issuers are verified by agent-did; others resolve the issuer's DID Document.
+ */
+export async function verifyCredentialJwt(
+  jwt: string,
+  options: CredentialVerifyOptions = {}
+): Promise<CredentialVerificationResult> {
+  let decoded;
+  try {
+    decoded = decodeJwt(jwt);
+  } catch (error) {
+    return { valid: false, reason: (error as Error).message, code: 'VERIFICATION_FAILED' };
+  }
+
+  const payload = decoded.payload as unknown as JWTPayload;
+  if (typeof payload.iss !== 'string' || didKeyType(payload.iss) === 'ed25519') {
+    return withFailureCode(
+      await verifyCredential(jwt, {
+        allowedIssuers: options.allowedIssuers,
+        expectedSubject: options.expectedSubject,
+      })
+    );
+  }
+
+  let signatureValid = false;
+  try {
+    const key = await resolvePublicKey(
+      payload.iss,
+      decoded.header.kid as string | undefined,
+      'assertionMethod',
+      options.resolver || getResolverOptions()
+    );
+    signatureValid = verifyJwtSignature(decoded, key.publicKey, key.keyType);
+  } catch (error) {
+    return {
+      valid: false,
+      reason: `Cannot resolve issuer key: ${(error as Error).message}`,
+      code: 'VERIFICATION_FAILED',
+    };
+  }
+
+  if (!signatureValid) {
+    return { valid: false, reason: 'Invalid signature', code: 'INVALID_SIGNATURE' };
+  }
+
+  if (!isOptionalNumericDate(payload.exp) || !isOptionalNumericDate(payload.nbf)) {
+    return { valid: false, reason: 'Credential exp and nbf must be numbers', code: 'VERIFICATION_FAILED', payload };
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.exp !== undefined && payload.exp < now) {
+    return { valid: false, reason: 'Credential has expired', code: 'CREDENTIAL_EXPIRED', payload };
+  }
+  if (payload.nbf !== undefined && payload.nbf > now) {
+    return { valid: false, reason: 'Credential is not yet valid', code: 'VERIFICATION_FAILED', payload };
+  }
+  if (!payload.vc) {
+    return {
+      valid: false,
+      reason: 'JWT does not contain a verifiable credential',
+      code: 'VERIFICATION_FAILED',
+      payload,
+    };
+  }
+  if (options.allowedIssuers && !options.allowedIssuers.includes(payload.iss)) {
+    return { valid: false, reason: `Issuer not allowed: ${payload.iss}`, code: 'WRONG_ISSUER', payload };
+  }
+  if (options.expectedSubject && payload.sub !== options.expectedSubject) {
+    return { valid: false, reason: `Subject mismatch: ${payload.sub}`, code: 'VERIFICATION_FAILED', payload };
+  }
+
+  return { valid: true, payload };
+}
+
+/**
+ * Decode a base64url authentication payload without verifying it (null if malformed)
+ */
+export function decodeAuthPayload(payloadEncoded: string): AuthPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(payloadEncoded, 'base64url').toString('utf8'));
+    return payload && typeof payload === 'object' ? (payload as AuthPayload) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify the raw signature of an authentication response.
+ * The signature covers the JSON payload bytes that `payloadEncoded` encodes,
+ * using the algorithm of the resolved key (EdDSA, ES256 or ES256K).
+ */
+export async function verifyAuthSignature(
+  did: string,
+  payloadEncoded: string,
+  signature: string,
+  resolver?: ResolverOptions
+): Promise<boolean> {
+  const key = await resolvePublicKey(did, undefined, 'authentication', resolver || getResolverOptions());
+
+  return verifyBytes(
+    key.keyType,
+    base64UrlDecode(payloadEncoded),
+    key.publicKey,
+    base64UrlDecode(signature)
+  );
+}
+
+/**
+ * Verify an authentication challenge response for any supported DID method and key type.
+ * Ed25519 did:key DIDs are verified by agent-did unless a clock skew is set; others
+ * (and skew-tolerant checks) resolve the DID Document.
+ */
+export async function verifyAuthResponse(
+  did: string,
+  payloadEncoded: string,
+  signature: string,
+  options: AuthVerifyOptions = {}
+): Promise<AuthVerificationResult> {
+  if (didKeyType(did) === 'ed25519' && !options.clockSkew) {
+    const result = withFailureCode(
+      await verifyAuthChallenge(did, payloadEncoded, signature, {
+        expectedNonce: options.expectedNonce,
+        expectedAudience: options.expectedAudience,
+        expectedDomain: options.expectedDomain,
+      })
+    );
+    return (result.valid && result.payload && malformedTimes(result.payload)) || result;
+  }
+
+  const payload = decodeAuthPayload(payloadEncoded);
+  if (!payload) {
+    return { valid: false, reason: 'Invalid payload encoding', code: 'VERIFICATION_FAILED' };
+  }
+
+  try {
+    if (!(await verifyAuthSignature(did, payloadEncoded, signature, options.resolver))) {
+      return { valid: false, reason: 'Invalid signature', code: 'INVALID_SIGNATURE' };
+    }
+  } catch (error) {
+    return {
+      valid: false,
+      reason: `Cannot resolve DID key: ${(error as Error).message}`,
+      code: 'VERIFICATION_FAILED',
+    };
+  }
+
+  if (payload.did !== did) {
+    return { valid: false, reason: 'DID mismatch', code: 'VERIFICATION_FAILED', payload };
+  }
+  const malformed = malformedTimes(payload);
+  if (malformed) {
+    return malformed;
+  }
+  const now = Math.floor(Date.now() / 1000);
+  const skew = options.clockSkew ?? 0;
+  if (payload.exp + skew < now) {
+    return { valid: false, reason: 'Challenge has expired', code: 'CHALLENGE_EXPIRED', payload };
+  }
+  if (options.clockSkew !== undefined && payload.iat - skew > now) {
+    return { valid: false, reason: 'Challenge was issued in the future', code: 'VERIFICATION_FAILED', payload };
+  }
+  if (options.expectedNonce && payload.nonce !== options.expectedNonce) {
+    return { valid: false, reason: 'Nonce mismatch', code: 'VERIFICATION_FAILED', payload };
+  }
+  if (options.expectedAudience && payload.aud !== options.expectedAudience) {
+    return { valid: false, reason: 'Audience mismatch', code: 'VERIFICATION_FAILED', payload };
+  }
+  if (options.expectedDomain && payload.domain !== options.expectedDomain) {
+    return { valid: false, reason: 'Domain mismatch', code: 'VERIFICATION_FAILED', payload };
+  }
+
+  return { valid: true, payload };
+}
@@ -0,0 +1,143 @@
+/**
+ * Audit log hash chain: edits, removals and truncation are detected
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {
+  appendAuditEntry,
+  verifyAuditChain,
+  registerAuditKey,
+  auditLogPath,
+} = require('../dist/utils/audit-log.js');
+
+const PASSPHRASE = 'audit test passphrase';
+
+const tempStore = (t, passphrase = PASSPHRASE) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-did-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  registerAuditKey(dir, passphrase);
+  for (const target of ['a', 'b', 'c']) {
+    appendAuditEntry(dir, { operation: 'vc.issue', did: 'did:ex:agent', target });
+  }
+  return dir;
+};
+const headPath = (store) => path.join(path.dirname(auditLogPath(store)), 'head.json');
+const readLog = (store) => fs.readFileSync(auditLogPath(store), 'utf8').trimEnd().split('\n');
+const writeLog = (store, lines) => fs.writeFileSync(auditLogPath(store), lines.map((line) => `${line}\n`).join(''));
+
+test('an untouched chain verifies and is anchored by the passphrase', (t) => {
+  const store = tempStore(t);
+  const result = verifyAuditChain(store);
+  assert.equal(result.valid, true, result.reason);
+  assert.equal(result.entries, 3);
+  assert.equal(result.anchored, true);
+  assert.equal(result.head, JSON.parse(readLog(store)[2]).hash);
+});
+
+test('entries link to their predecessor', (t) => {
+  const lines = readLog(tempStore(t)).map((line) => JSON.parse(line));
+  assert.equal(lines[0].prevHash, '0'.repeat(64));
+  assert.equal(lines[1].prevHash, lines[0].hash);
+  assert.deepEqual(lines.map((entry) => entry.seq), [1, 2, 3]);
+});
+
+test('an edited entry breaks the chain at that line', (t) => {
+  const store = tempStore(t);
+  const lines = readLog(store);
+  lines[1] = lines[1].replace('"target":"b"', '"target":"x"');
+  writeLog(store, lines);
+
+  const result = verifyAuditChain(store);
+  assert.equal(result.valid, false);
+  assert.equal(result.line, 2);
+  assert.match(result.reason, /entry edited/);
+});
+
+test('a removed entry is detected', (t) => {
+  const store = tempStore(t);
+  const lines = readLog(store);
+  writeLog(store, [lines[0], lines[2]]);
+
+  const result = verifyAuditChain(store);
+  assert.equal(result.valid, false);
+  assert.equal(result.line, 2);
+});
+
+test('truncating the newest entries is detected through the head', (t) => {
+  const store = tempStore(t);
+  writeLog(store, readLog(store).slice(0, 1));
+
+  const result = verifyAuditChain(store);
+  assert.equal(result.valid, false);
+  assert.match(result.reason, /truncated/);
+});
+
+test('a head rewritten without the passphrase is detected', (t) => {
+  const store = tempStore(t);
+  const lines = readLog(store).slice(0, 1);
+  writeLog(store, lines);
+  fs.writeFileSync(headPath(store), JSON.stringify({ seq: 1, hash: JSON.parse(lines[0]).hash }));
+
+  const result = verifyAuditChain(store);
+  assert.equal(result.valid, false);
+  assert.match(result.reason, /no MAC/);
+});
+
+test('appending refuses a head whose MAC does not match', (t) => {
+  const store = tempStore(t);
+  const head = JSON.parse(fs.readFileSync(headPath(store), 'utf8'));
+  fs.writeFileSync(headPath(store), JSON.stringify({ ...head, mac: '0'.repeat(64) }));
+
+  assert.throws(
+    () => appendAuditEntry(store, { operation: 'vc.issue', did: 'did:ex:agent' }),
+    { code: 'VERIFICATION_FAILED' }
+  );
+  assert.equal(readLog(store).length, 3);
+});
+
+test('appending refuses a head stripped of its MAC', (t) => {
+  const store = tempStore(t);
+  const { mac, ...head } = JSON.parse(fs.readFileSync(headPath(store), 'utf8'));
+  assert.ok(mac);
+  fs.writeFileSync(headPath(store), JSON.stringify(head));
+
+  assert.throws(
+    () => appendAuditEntry(store, { operation: 'vc.issue', did: 'did:ex:agent' }),
+    { code: 'VERIFICATION_FAILED', message: /no MAC/ }
+  );
+  assert.equal(readLog(store).length, 3);
+});
+
+test('appending refuses a truncated log with a removed head', (t) => {
+  const store = tempStore(t);
+  writeLog(store, readLog(store).slice(0, 1));
+  fs.rmSync(headPath(store));
+
+  assert.throws(
+    () => appendAuditEntry(store, { operation: 'vc.issue', did: 'did:ex:agent' }),
+    { code: 'VERIFICATION_FAILED', message: /head is missing/ }
+  );
+});
+
+test('a head lagging one entry behind after a crash is accepted', (t) => {
+  const store = tempStore(t);
+  const head = fs.readFileSync(headPath(store), 'utf8');
+  appendAuditEntry(store, { operation: 'vc.issue', did: 'did:ex:agent', target: 'd' });
+  fs.writeFileSync(headPath(store), head);
+
+  assert.equal(verifyAuditChain(store).valid, true);
+  appendAuditEntry(store, { operation: 'vc.issue', did: 'did:ex:agent', target: 'e' });
+  const result = verifyAuditChain(store);
+  assert.equal(result.valid, true, result.reason);
+  assert.equal(result.entries, 5);
+});
+
+test('an unencrypted keystore is not anchored', (t) => {
+  const result = verifyAuditChain(tempStore(t, null));
+  assert.equal(result.valid, true, result.reason);
+  assert.equal(result.anchored, false);
+});
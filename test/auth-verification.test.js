@@ -0,0 +1,57 @@
+/**
+ * Authentication responses: time claims must be numbers before expiry and replay checks
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { verifyChallenge } = require('../dist/services/auth.js');
+const { generateEcKeyPair, signBytes } = require('../dist/utils/key-types.js');
+const { publicKeyToDidKey } = require('../dist/utils/did-key.js');
+const { base64UrlEncode } = require('../dist/utils/jwt.js');
+
+const keyPair = generateEcKeyPair('p256');
+const did = publicKeyToDidKey(keyPair.publicKey, 'p256');
+const now = () => Math.floor(Date.now() / 1000);
+
+const respond = (claims) => {
+  const payloadBytes = Buffer.from(JSON.stringify({ did, nonce: 'n-1', iat: now(), exp: now() + 60, ...claims }));
+  return {
+    did,
+    payload: base64UrlEncode(payloadBytes),
+    signature: base64UrlEncode(signBytes('p256', payloadBytes, keyPair.privateKey, keyPair.publicKey)),
+  };
+};
+const tempReplayStore = (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-did-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'replay.json');
+};
+
+test('a well-formed response verifies and is recorded once', async (t) => {
+  const replayStore = tempReplayStore(t);
+  const response = respond({});
+  assert.equal((await verifyChallenge({ ...response, replayStore })).valid, true);
+  assert.equal((await verifyChallenge({ ...response, replayStore })).code, 'REPLAYED');
+});
+
+test('a response without exp is rejected and not recorded', async (t) => {
+  const replayStore = tempReplayStore(t);
+  const result = await verifyChallenge({ ...respond({ exp: undefined }), replayStore, clockSkew: 30 });
+  assert.equal(result.valid, false);
+  assert.equal(result.code, 'VERIFICATION_FAILED');
+  assert.match(result.reason, /exp and iat must be numbers/);
+  assert.ok(!fs.existsSync(replayStore));
+});
+
+test('a response with a string exp or iat is rejected', async (t) => {
+  const replayStore = tempReplayStore(t);
+  for (const claims of [{ exp: String(now() + 60) }, { exp: 'never' }, { iat: 'now' }]) {
+    const result = await verifyChallenge({ ...respond(claims), replayStore });
+    assert.equal(result.valid, false, JSON.stringify(claims));
+    assert.equal(result.code, 'VERIFICATION_FAILED');
+  }
+  assert.ok(!fs.existsSync(replayStore));
+});
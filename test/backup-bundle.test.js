@@ -0,0 +1,64 @@
+/**
+ * Encrypted keystore backup bundles
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { encryptBundle, decryptBundle } = require('../dist/utils/backup-bundle.js');
+
+const PASSPHRASE = 'correct horse battery staple';
+
+const contents = {
+  createdAt: '2026-01-01T00:00:00.000Z',
+  identities: [
+    {
+      metadata: { did: 'did:key:zAgent', type: 'agent', name: 'Agent' },
+      publicKey: Buffer.alloc(32, 1).toString('base64'),
+      privateKey: Buffer.alloc(32, 2).toString('base64'),
+    },
+  ],
+  credentials: [{ id: 'urn:uuid:1', data: 'eyJhbGciOi' }],
+  statusLists: [
+    {
+      state: {
+        issuer: 'did:key:zAgent',
+        url: 'https://example.com/status/1.jwt',
+        statusPurpose: 'revocation',
+        encodedList: 'uH4sI',
+        nextIndex: 1,
+        entries: { 'urn:uuid:1': 0 },
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      },
+      jwt: 'eyJhbGciOi',
+    },
+  ],
+};
+
+test('a bundle decrypts to the exported contents', () => {
+  const bundle = encryptBundle(contents, PASSPHRASE);
+  assert.deepEqual(decryptBundle(bundle, PASSPHRASE), contents);
+});
+
+test('a bundle does not contain the plaintext keys', () => {
+  const bundle = encryptBundle(contents, PASSPHRASE);
+  assert.ok(!bundle.includes(contents.identities[0].privateKey));
+  assert.ok(!bundle.includes('did:key:zAgent'));
+  assert.equal(JSON.parse(bundle).cipher, 'aes-256-gcm');
+});
+
+test('a wrong passphrase or tampered bundle is rejected', () => {
+  const bundle = encryptBundle(contents, PASSPHRASE);
+  assert.throws(() => decryptBundle(bundle, 'wrong passphrase!!'), { code: 'INVALID_PASSPHRASE' });
+
+  const envelope = JSON.parse(bundle);
+  const ciphertext = Buffer.from(envelope.ciphertext, 'base64');
+  ciphertext[0] ^= 1;
+  envelope.ciphertext = ciphertext.toString('base64');
+  assert.throws(() => decryptBundle(JSON.stringify(envelope), PASSPHRASE), { code: 'INVALID_PASSPHRASE' });
+});
+
+test('short passphrases and foreign files are refused', () => {
+  assert.throws(() => encryptBundle(contents, 'short'), /at least 12 characters/);
+  assert.throws(() => decryptBundle('not json', PASSPHRASE), /not valid JSON/);
+  assert.throws(() => decryptBundle('{"format":"other"}', PASSPHRASE), /unknown format/);
+});
@@ -0,0 +1,59 @@
+/**
+ * did:web resolution: fetch time limit and verification relationships of key IDs
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const http = require('http');
+const { resolveDid, resolvePublicKey } = require('../dist/utils/did-resolver.js');
+
+const DID = 'did:web:example.com';
+
+const document = {
+  '@context': ['https://www.w3.org/ns/did/v1'],
+  id: DID,
+  verificationMethod: ['key-1', 'key-2'].map((fragment) => ({
+    id: `${DID}#${fragment}`,
+    type: 'JsonWebKey2020',
+    controller: DID,
+    publicKeyJwk: { kty: 'OKP', crv: 'Ed25519', x: Buffer.alloc(32, fragment).toString('base64url') },
+  })),
+  authentication: [`${DID}#key-1`, `${DID}#key-2`],
+  assertionMethod: ['#key-1'],
+};
+
+/**
+ * Helper: Serve requests with `handler` on a local port; resolves with its base URL
+ */
+async function serve(t, handler) {
+  const server = http.createServer(handler);
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  return `http://127.0.0.1:${server.address().port}`;
+}
+
+test('a did:web fetch that does not answer in time fails verification', async (t) => {
+  const webBaseUrl = await serve(t, () => {});
+  await assert.rejects(resolveDid(DID, { webBaseUrl, timeoutMs: 100 }), {
+    name: 'VerificationError',
+    code: 'VERIFICATION_FAILED',
+    message: /Timed out after 100 ms resolving did:web:example.com/,
+  });
+});
+
+test('an explicit key ID must be listed under the required relationship', async (t) => {
+  const webBaseUrl = await serve(t, (req, res) => res.end(JSON.stringify(document)));
+  const options = { webBaseUrl };
+
+  const key = await resolvePublicKey(DID, '#key-1', 'assertionMethod', options);
+  assert.equal(key.keyType, 'ed25519');
+  assert.ok(await resolvePublicKey(DID, `${DID}#key-2`, 'authentication', options));
+
+  await assert.rejects(resolvePublicKey(DID, `${DID}#key-2`, 'assertionMethod', options), {
+    code: 'VERIFICATION_FAILED',
+    message: /key-2 is not listed under assertionMethod/,
+  });
+});
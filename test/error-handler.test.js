@@ -0,0 +1,103 @@
+/**
+ * Error codes and their documented exit codes
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  EXIT_CODES,
+  exitCodeFor,
+  normalizeError,
+  formatError,
+  verificationFailureCode,
+  AgentDidError,
+  NotFoundError,
+  InvalidArgumentError,
+  AlreadyExistsError,
+  PassphraseError,
+  MissingKeyError,
+  VerificationError,
+  InvalidSignatureError,
+  CredentialExpiredError,
+  WrongIssuerError,
+  ReplayError,
+} = require('../dist/utils/error-handler.js');
+
+const errnoError = (code) => Object.assign(new Error(`${code}: failed`), { code });
+
+test('exit codes are stable', () => {
+  const expected = {
+    UNKNOWN: 1,
+    INVALID_ARGUMENT: 2,
+    NOT_FOUND: 3,
+    ALREADY_EXISTS: 4,
+    HAS_DEPENDENTS: 5,
+    MISSING_PASSPHRASE: 6,
+    INVALID_PASSPHRASE: 7,
+    MISSING_KEY: 8,
+    INVALID_SIGNATURE: 9,
+    CREDENTIAL_EXPIRED: 10,
+    WRONG_ISSUER: 11,
+    REPLAYED: 12,
+    CREDENTIAL_REVOKED: 13,
+    VERIFICATION_FAILED: 14,
+    PERMISSION_DENIED: 15,
+    SIGNER_UNAVAILABLE: 16,
+    REGISTRATION_FAILED: 17,
+  };
+  for (const [code, exitCode] of Object.entries(expected)) {
+    assert.equal(EXIT_CODES[code], exitCode, code);
+    assert.equal(exitCodeFor(code), exitCode, code);
+  }
+});
+
+test('unknown codes exit with 1', () => {
+  assert.equal(exitCodeFor(undefined), 1);
+  assert.equal(exitCodeFor('SOMETHING_ELSE'), 1);
+  assert.equal(exitCodeFor('toString'), 1);
+  assert.equal(new AgentDidError('x', 'SOMETHING_ELSE').exitCode, 1);
+});
+
+test('typed errors carry their exit code', () => {
+  assert.equal(new InvalidArgumentError('x').exitCode, 2);
+  assert.equal(new NotFoundError('x').exitCode, 3);
+  assert.equal(new AlreadyExistsError('x').exitCode, 4);
+  assert.equal(new PassphraseError('x', 'MISSING_PASSPHRASE').exitCode, 6);
+  assert.equal(new PassphraseError('x', 'INVALID_PASSPHRASE').exitCode, 7);
+  assert.equal(new MissingKeyError('did:ex:a').exitCode, 8);
+  assert.equal(new InvalidSignatureError().exitCode, 9);
+  assert.equal(new CredentialExpiredError().exitCode, 10);
+  assert.equal(new WrongIssuerError('x').exitCode, 11);
+  assert.equal(new ReplayError().exitCode, 12);
+  assert.equal(new VerificationError('x', 'CREDENTIAL_REVOKED').exitCode, 13);
+  assert.equal(new VerificationError('x').exitCode, 14);
+});
+
+test('normalizeError maps file system and passphrase failures', () => {
+  assert.equal(normalizeError(errnoError('ENOENT')).exitCode, 3);
+  assert.equal(normalizeError(errnoError('EEXIST')).exitCode, 4);
+  assert.equal(normalizeError(errnoError('EACCES')).exitCode, 15);
+  assert.equal(normalizeError(errnoError('EPERM')).exitCode, 15);
+  assert.equal(normalizeError(new Error('Passphrase required')).exitCode, 6);
+  assert.equal(normalizeError(new Error('Unable to decrypt private key')).exitCode, 7);
+  assert.equal(normalizeError(new Error('boom')).exitCode, 1);
+  assert.equal(normalizeError('not an error').exitCode, 1);
+
+  const typed = new NotFoundError('x');
+  assert.equal(normalizeError(typed), typed);
+});
+
+test('verification failure reasons are classified', () => {
+  assert.equal(verificationFailureCode('Invalid signature'), 'INVALID_SIGNATURE');
+  assert.equal(verificationFailureCode('Challenge has expired'), 'CHALLENGE_EXPIRED');
+  assert.equal(verificationFailureCode('Credential expired'), 'CREDENTIAL_EXPIRED');
+  assert.equal(verificationFailureCode('Issuer mismatch'), 'WRONG_ISSUER');
+  assert.equal(verificationFailureCode('Nonce mismatch'), 'VERIFICATION_FAILED');
+  assert.equal(verificationFailureCode(undefined), 'VERIFICATION_FAILED');
+});
+
+test('JSON errors carry the code, message and details', () => {
+  assert.deepEqual(JSON.parse(formatError(new MissingKeyError('did:ex:a'), true)), {
+    error: { code: 'MISSING_KEY', message: 'Private key not found for: did:ex:a', details: { did: 'did:ex:a' } },
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Identity metadata updates through the journal
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Keystore } = require('agent-did');
+const { registerKeystore, updateIdentityMetadata } = require('../dist/utils/identity-store.js');
+
+const DID = 'did:key:zAgent';
+
+const openStore = async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-did-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const keystore = new Keystore(dir, null, false);
+  await keystore.init();
+  registerKeystore(keystore, dir, null);
+  await keystore.storeIdentity(
+    { did: DID, name: 'agent' },
+    { publicKey: new Uint8Array([1, 2]), privateKey: new Uint8Array([3, 4]) }
+  );
+  return { dir, keystore };
+};
+
+test('concurrent metadata updates are all kept', async (t) => {
+  const { dir, keystore } = await openStore(t);
+  const tags = ['a', 'b', 'c', 'd'];
+  await Promise.all(
+    tags.map((tag) =>
+      updateIdentityMetadata(keystore, DID, (metadata) => ({ ...metadata, tags: [...(metadata.tags ?? []), tag] }))
+    )
+  );
+
+  const identity = await keystore.getIdentity(DID);
+  assert.deepEqual([...identity.tags].sort(), tags);
+  assert.deepEqual(Buffer.from((await keystore.getKeyPair(DID)).privateKey), Buffer.from([3, 4]));
+  assert.ok(!fs.existsSync(path.join(dir, 'identity-journal')));
+});
+
+test('an update may not change the DID', async (t) => {
+  const { keystore } = await openStore(t);
+  await assert.rejects(
+    updateIdentityMetadata(keystore, DID, (metadata) => ({ ...metadata, did: 'did:key:zOther' })),
+    { code: 'INVALID_ARGUMENT' }
+  );
+  assert.equal((await keystore.getIdentity(DID)).name, 'agent');
+});
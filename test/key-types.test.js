@@ -0,0 +1,125 @@
+/**
+ * P-256 and secp256k1 keys: DER encodings, did:key multicodecs and ES256/ES256K signatures
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const {
+  generateEcKeyPair,
+  signBytes,
+  verifyBytes,
+  decodeMulticodecKey,
+} = require('../dist/utils/key-types.js');
+const { publicKeyToDidKey, decodeDidKey, base58Encode, base58Decode } = require('../dist/utils/did-key.js');
+const { signJwt, decodeJwt, verifyJwtSignature } = require('../dist/utils/jwt.js');
+const { signAuthChallengeAs } = require('../dist/utils/signing.js');
+const { verifyAuthResponse } = require('../dist/utils/verification.js');
+
+const CURVES = { p256: 'prime256v1', secp256k1: 'secp256k1' };
+const ALGORITHMS = { p256: 'ES256', secp256k1: 'ES256K' };
+const data = Buffer.from('agent-did test message');
+
+for (const keyType of ['p256', 'secp256k1']) {
+  test(`${keyType}: raw keys match the DER prefixes Node reads`, () => {
+    const { privateKey, publicKey } = generateEcKeyPair(keyType);
+    assert.equal(privateKey.length, 32);
+    assert.equal(publicKey.length, 33);
+    assert.ok(publicKey[0] === 0x02 || publicKey[0] === 0x03);
+
+    // Signed with the SEC1-wrapped private key, verified by Node with the same public key
+    const nodeKey = crypto.createPublicKey({
+      key: { kty: 'EC', crv: keyType === 'p256' ? 'P-256' : 'secp256k1', ...jwkPoint(keyType, privateKey) },
+      format: 'jwk',
+    });
+    const signature = signBytes(keyType, data, privateKey, publicKey);
+    assert.equal(signature.length, 64);
+    assert.ok(crypto.verify('sha256', data, { key: nodeKey, dsaEncoding: 'ieee-p1363' }, signature));
+
+    // Signed by Node, verified with the SPKI-wrapped compressed public key
+    const nodeSignature = crypto.sign('sha256', data, {
+      key: crypto.createPrivateKey({
+        key: { kty: 'EC', crv: keyType === 'p256' ? 'P-256' : 'secp256k1', d: Buffer.from(privateKey).toString('base64url'), ...jwkPoint(keyType, privateKey) },
+        format: 'jwk',
+      }),
+      dsaEncoding: 'ieee-p1363',
+    });
+    assert.ok(verifyBytes(keyType, data, publicKey, nodeSignature));
+  });
+
+  test(`${keyType}: did:key round-trips through its multicodec prefix`, () => {
+    const { publicKey } = generateEcKeyPair(keyType);
+    const did = publicKeyToDidKey(publicKey, keyType);
+    assert.ok(did.startsWith(keyType === 'p256' ? 'did:key:zDn' : 'did:key:zQ3s'));
+
+    const decoded = decodeDidKey(did);
+    assert.equal(decoded.keyType, keyType);
+    assert.deepEqual(Buffer.from(decoded.publicKey), Buffer.from(publicKey));
+  });
+
+  test(`${keyType}: ${ALGORITHMS[keyType]} signatures verify and reject tampering`, () => {
+    const { privateKey, publicKey } = generateEcKeyPair(keyType);
+    const signature = signBytes(keyType, data, privateKey, publicKey);
+    assert.ok(verifyBytes(keyType, data, publicKey, signature));
+    assert.ok(!verifyBytes(keyType, Buffer.from('other message'), publicKey, signature));
+    assert.ok(!verifyBytes(keyType, data, generateEcKeyPair(keyType).publicKey, signature));
+  });
+
+  test(`${keyType}: JWTs carry ${ALGORITHMS[keyType]} and verify only with that algorithm`, () => {
+    const { privateKey, publicKey } = generateEcKeyPair(keyType);
+    const decoded = decodeJwt(signJwt({ kid: 'k' }, { sub: 'x' }, privateKey, publicKey, keyType));
+    assert.equal(decoded.header.alg, ALGORITHMS[keyType]);
+    assert.ok(verifyJwtSignature(decoded, publicKey, keyType));
+
+    const other = keyType === 'p256' ? 'secp256k1' : 'p256';
+    assert.ok(!verifyJwtSignature(decoded, publicKey, other));
+  });
+
+  test(`${keyType}: a signed challenge verifies against its did:key`, async () => {
+    const keyPair = { ...generateEcKeyPair(keyType), keyType };
+    const did = publicKeyToDidKey(keyPair.publicKey, keyType);
+    const response = await signAuthChallengeAs(did, keyPair, 'nonce-1', { audience: 'svc', expiresIn: 60 });
+    assert.equal(response.alg, ALGORITHMS[keyType]);
+
+    const valid = await verifyAuthResponse(did, response.payloadEncoded, response.signature, {
+      expectedNonce: 'nonce-1',
+      expectedAudience: 'svc',
+    });
+    assert.equal(valid.valid, true, valid.reason);
+
+    const wrongNonce = await verifyAuthResponse(did, response.payloadEncoded, response.signature, {
+      expectedNonce: 'nonce-2',
+    });
+    assert.equal(wrongNonce.valid, false);
+
+    const otherDid = publicKeyToDidKey(generateEcKeyPair(keyType).publicKey, keyType);
+    const forged = await verifyAuthResponse(otherDid, response.payloadEncoded, response.signature);
+    assert.equal(forged.code, 'INVALID_SIGNATURE');
+  });
+}
+
+test('multicodec prefixes identify each key type', () => {
+  assert.equal(decodeMulticodecKey(new Uint8Array([0xed, 0x01, 1, 2])).keyType, 'ed25519');
+  assert.equal(decodeMulticodecKey(new Uint8Array([0x80, 0x24, 1, 2])).keyType, 'p256');
+  assert.equal(decodeMulticodecKey(new Uint8Array([0xe7, 0x01, 1, 2])).keyType, 'secp256k1');
+  assert.equal(decodeMulticodecKey(new Uint8Array([0x12, 0x00, 1, 2])), null);
+});
+
+test('base58 keeps leading zero bytes', () => {
+  const bytes = new Uint8Array([0, 0, 1, 2, 255]);
+  assert.ok(base58Encode(bytes).startsWith('11'));
+  assert.deepEqual(Buffer.from(base58Decode(base58Encode(bytes))), Buffer.from(bytes));
+});
+
+/**
+ * Helper: The public point of a private scalar as JWK x/y coordinates
+ */
+function jwkPoint(keyType, privateKey) {
+  const ecdh = crypto.createECDH(CURVES[keyType]);
+  ecdh.setPrivateKey(Buffer.from(privateKey));
+  const point = ecdh.getPublicKey();
+  return {
+    x: point.subarray(1, 33).toString('base64url'),
+    y: point.subarray(33).toString('base64url'),
+  };
+}
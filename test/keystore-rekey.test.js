@@ -0,0 +1,103 @@
+/**
+ * Recovery of interrupted keystore rekeys
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Keystore } = require('agent-did');
+const { recoverInterruptedRekey, rekeyKeystore } = require('../dist/utils/keystore-rekey.js');
+
+const tempStore = (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-did-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'store');
+};
+const makeStore = (dir, marker) => {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'marker'), marker);
+};
+const markerOf = (dir) => fs.readFileSync(path.join(dir, 'marker'), 'utf8');
+
+test('a crash after moving the store aside rolls back to the backup', (t) => {
+  const store = tempStore(t);
+  makeStore(`${store}.rekey-backup`, 'old');
+  makeStore(`${store}.rekey-staging`, 'new');
+
+  recoverInterruptedRekey(store);
+  assert.equal(markerOf(store), 'old');
+  assert.ok(!fs.existsSync(`${store}.rekey-backup`));
+  assert.ok(!fs.existsSync(`${store}.lock`));
+});
+
+test('a crash after the swap keeps the new store and drops the backup', (t) => {
+  const store = tempStore(t);
+  makeStore(store, 'new');
+  makeStore(`${store}.rekey-backup`, 'old');
+
+  recoverInterruptedRekey(store);
+  assert.equal(markerOf(store), 'new');
+  assert.ok(!fs.existsSync(`${store}.rekey-backup`));
+});
+
+test('a staging copy is only discarded when asked to', (t) => {
+  const store = tempStore(t);
+  makeStore(store, 'old');
+  makeStore(`${store}.rekey-staging`, 'new');
+
+  recoverInterruptedRekey(store);
+  assert.ok(fs.existsSync(`${store}.rekey-staging`));
+  recoverInterruptedRekey(store, true);
+  assert.ok(!fs.existsSync(`${store}.rekey-staging`));
+  assert.equal(markerOf(store), 'old');
+});
+
+test('recovery waits for the store lock of a running rekey', (t) => {
+  const store = tempStore(t);
+  makeStore(`${store}.rekey-backup`, 'old');
+  fs.writeFileSync(`${store}.lock`, String(process.pid));
+
+  assert.throws(() => recoverInterruptedRekey(store), /Keystore is locked/);
+  assert.ok(fs.existsSync(`${store}.rekey-backup`));
+  assert.ok(!fs.existsSync(store));
+
+  fs.rmSync(`${store}.lock`);
+  recoverInterruptedRekey(store);
+  assert.equal(markerOf(store), 'old');
+});
+
+test('a rekey replaces the store and leaves no staging, backup or lock behind', async (t) => {
+  const store = tempStore(t);
+  const keystore = new Keystore(store, null, false);
+  await keystore.init();
+  fs.writeFileSync(path.join(store, 'plugin-file.json'), '{}');
+
+  const summary = await rekeyKeystore(store, keystore, null);
+  assert.deepEqual(summary, { identities: 0, credentials: 0, encrypted: false });
+  assert.ok(fs.existsSync(path.join(store, 'plugin-file.json')));
+  for (const suffix of ['.rekey-staging', '.rekey-backup', '.lock']) {
+    assert.ok(!fs.existsSync(`${store}${suffix}`), suffix);
+  }
+});
+
+test('a rekey is abandoned when another command writes to the store meanwhile', async (t) => {
+  const store = tempStore(t);
+  const keystore = new Keystore(store, null, false);
+  await keystore.init();
+  fs.writeFileSync(path.join(store, 'plugin-file.json'), '{"revoked":[]}');
+
+  const listCredentials = keystore.listCredentials.bind(keystore);
+  keystore.listCredentials = async () => {
+    const credentials = await listCredentials();
+    fs.writeFileSync(path.join(store, 'plugin-file.json'), '{"revoked":[0]}');
+    return credentials;
+  };
+
+  await assert.rejects(rekeyKeystore(store, keystore, null), { code: 'KEYSTORE_CHANGED' });
+  assert.equal(fs.readFileSync(path.join(store, 'plugin-file.json'), 'utf8'), '{"revoked":[0]}');
+  for (const suffix of ['.rekey-staging', '.rekey-backup', '.lock']) {
+    assert.ok(!fs.existsSync(`${store}${suffix}`), suffix);
+  }
+});
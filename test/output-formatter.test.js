@@ -0,0 +1,93 @@
+/**
+ * Structured output renderers (--format)
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { setOutputFormat, renderOutput, renderEvent } = require('../dist/utils/output-formatter.js');
+
+const render = (format, data) => {
+  setOutputFormat(format);
+  try {
+    return renderOutput(data);
+  } finally {
+    setOutputFormat('text');
+  }
+};
+
+test('yaml nests mappings and lists', () => {
+  const yaml = render('yaml', { did: 'did:key:z6Mk', tags: ['a', 'b'], owner: { name: 'Alice' }, empty: [] });
+  assert.equal(
+    yaml,
+    ['did: did:key:z6Mk', 'tags:', '  - a', '  - b', 'owner:', '  name: Alice', 'empty: []'].join('\n')
+  );
+});
+
+test('yaml quotes strings that would read as another type', () => {
+  const yaml = render('yaml', {
+    flag: 'yes',
+    number: '0123',
+    date: '2026-01-01',
+    colon: 'a: b',
+    lead: '- x',
+    blank: '',
+    real: 12,
+    none: null,
+  });
+  assert.equal(
+    yaml,
+    [
+      'flag: "yes"',
+      'number: "0123"',
+      'date: "2026-01-01"',
+      'colon: "a: b"',
+      'lead: "- x"',
+      'blank: ""',
+      'real: 12',
+      'none: null',
+    ].join('\n')
+  );
+});
+
+test('yaml writes lists of mappings as block items', () => {
+  assert.equal(
+    render('yaml', [{ did: 'a', type: 'agent' }, { did: 'b', type: 'owner' }]),
+    ['- did: a', '  type: agent', '- did: b', '  type: owner'].join('\n')
+  );
+});
+
+test('csv has a header row and quotes special cells', () => {
+  const csv = render('csv', [
+    { did: 'a', name: 'Plain' },
+    { did: 'b', name: 'Comma, "quoted"', scopes: ['x', 'y'] },
+  ]);
+  assert.equal(csv, ['did,name,scopes', 'a,Plain,', 'b,"Comma, ""quoted""","x,y"'].join('\n'));
+  assert.equal(render('csv', []), '');
+});
+
+test('templates render fields, nested paths and json', () => {
+  const data = [
+    { did: 'a', owner: { name: 'Alice' }, tags: ['x'] },
+    { did: 'b', tags: [] },
+  ];
+  assert.equal(
+    render('{{.did}}\\t{{.owner.name}}\\t{{json .tags}}', data),
+    'a\tAlice\t["x"]\nb\t\t[]'
+  );
+  assert.equal(render('{{.tags.0}}', data[0]), 'x');
+});
+
+test('unknown formats and template actions are rejected', () => {
+  assert.throws(() => setOutputFormat('xml'), { code: 'INVALID_ARGUMENT' });
+  assert.throws(() => setOutputFormat('{{range .}}'), { code: 'INVALID_ARGUMENT' });
+});
+
+test('events render as one line', () => {
+  assert.equal(renderEvent({ type: 'login', did: 'a' }), '{"type":"login","did":"a"}');
+  setOutputFormat('{{.type}} {{.did}}');
+  try {
+    assert.equal(renderEvent({ type: 'login', did: 'a' }), 'login a');
+  } finally {
+    setOutputFormat('text');
+  }
+});
@@ -0,0 +1,107 @@
+/**
+ * Verifiable Presentations: embedded credentials get the full credential checks
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const http = require('http');
+const { createPresentation } = require('../dist/utils/presentation.js');
+const { signCredentialAs } = require('../dist/utils/signing.js');
+const { generateEcKeyPair } = require('../dist/utils/key-types.js');
+const { publicKeyToDidKey } = require('../dist/utils/did-key.js');
+const { attachDelegation } = require('../dist/utils/delegation.js');
+const {
+  loadOrCreateStatusList,
+  allocateStatusEntry,
+  revokeStatusIndex,
+  buildStatusListCredential,
+} = require('../dist/utils/status-list.js');
+const { verifyPresentation } = require('../dist/services/credentials.js');
+
+const identity = () => {
+  const keyPair = { ...generateEcKeyPair('p256'), keyType: 'p256' };
+  return { did: publicKeyToDidKey(keyPair.publicKey, 'p256'), keyPair };
+};
+const capability = (subject, scopes) => ({
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  type: ['VerifiableCredential', 'CapabilityCredential'],
+  validFrom: new Date().toISOString(),
+  credentialSubject: { id: subject, scopes },
+});
+
+/**
+ * Helper: Serve one status list credential over HTTP; resolves with its URL
+ */
+async function serveStatusList(t, body) {
+  const server = http.createServer((req, res) => res.end(body()));
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => server.close());
+  return `http://127.0.0.1:${server.address().port}/status.jwt`;
+}
+
+test('a revoked credential inside a presentation is rejected', async (t) => {
+  const owner = identity();
+  const holder = identity();
+  const store = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-did-test-'));
+  t.after(() => fs.rmSync(store, { recursive: true, force: true }));
+
+  let listJwt = '';
+  const url = await serveStatusList(t, () => listJwt);
+  const state = loadOrCreateStatusList(store, owner.did, url);
+
+  const issue = async () => {
+    const credential = capability(holder.did, ['api:read']);
+    credential.credentialStatus = allocateStatusEntry(state, `urn:uuid:${state.nextIndex}`);
+    return signCredentialAs(owner.did, credential, owner.keyPair);
+  };
+  const revoked = await issue();
+  const active = await issue();
+  revokeStatusIndex(state, 0);
+  listJwt = await signCredentialAs(owner.did, buildStatusListCredential(state), owner.keyPair);
+
+  const valid = await verifyPresentation(createPresentation(holder.did, [active], holder.keyPair));
+  assert.equal(valid.valid, true, valid.reason);
+
+  const result = await verifyPresentation(createPresentation(holder.did, [active, revoked], holder.keyPair));
+  assert.equal(result.valid, false);
+  assert.equal(result.code, 'CREDENTIAL_REVOKED');
+  assert.equal(result.credentials[0].valid, true);
+  assert.equal(result.credentials[1].reason, 'revoked');
+});
+
+test('a widened delegated capability inside a presentation is rejected', async () => {
+  const owner = identity();
+  const agent = identity();
+  const holder = identity();
+
+  const parentJwt = await signCredentialAs(owner.did, capability(agent.did, ['api:read']), owner.keyPair);
+  const widened = capability(holder.did, ['api:*']);
+  attachDelegation(widened, parentJwt);
+  const childJwt = await signCredentialAs(agent.did, widened, agent.keyPair);
+
+  const result = await verifyPresentation(createPresentation(holder.did, [childJwt], holder.keyPair));
+  assert.equal(result.valid, false);
+  assert.match(result.reason, /Invalid delegation: Scope "api:\*" is not covered/);
+});
+
+test('allowed issuers apply to the root of a delegation chain', async () => {
+  const owner = identity();
+  const agent = identity();
+  const holder = identity();
+
+  const parentJwt = await signCredentialAs(owner.did, capability(agent.did, ['api:*']), owner.keyPair);
+  const narrowed = capability(holder.did, ['api:read']);
+  attachDelegation(narrowed, parentJwt);
+  const childJwt = await signCredentialAs(agent.did, narrowed, agent.keyPair);
+  const presentation = createPresentation(holder.did, [childJwt], holder.keyPair);
+
+  const trusted = await verifyPresentation(presentation, { issuers: [owner.did] });
+  assert.equal(trusted.valid, true, trusted.reason);
+
+  const untrusted = await verifyPresentation(presentation, { issuers: [agent.did] });
+  assert.equal(untrusted.valid, false);
+  assert.match(untrusted.reason, /Parent credential is invalid: Issuer not allowed/);
+});
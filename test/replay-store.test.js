@@ -0,0 +1,61 @@
+/**
+ * Replay store: single use of nonces, across processes
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+const { recordNonce, purgeReplayStore } = require('../dist/utils/replay-store.js');
+
+const MODULE = path.join(__dirname, '../dist/utils/replay-store.js');
+
+const tempFile = (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-did-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'replay.json');
+};
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+test('a nonce is accepted once', (t) => {
+  const store = tempFile(t);
+  assert.equal(recordNonce(store, 'did:ex:a\nnonce-1', inOneHour()), true);
+  assert.equal(recordNonce(store, 'did:ex:a\nnonce-1', inOneHour()), false);
+  assert.equal(recordNonce(store, 'did:ex:a\nnonce-2', inOneHour()), true);
+  assert.ok(!fs.readFileSync(store, 'utf8').includes('nonce-1'));
+});
+
+test('expired nonces are purged and may be seen again', (t) => {
+  const store = tempFile(t);
+  const past = Math.floor(Date.now() / 1000) - 10;
+  recordNonce(store, 'fresh', inOneHour());
+  recordNonce(store, 'old', past);
+
+  assert.deepEqual(purgeReplayStore(store), { removed: 1, remaining: 1 });
+  assert.equal(recordNonce(store, 'old', inOneHour()), true);
+});
+
+test('concurrent processes accept a nonce exactly once', async (t) => {
+  const store = tempFile(t);
+  const script =
+    `const { recordNonce } = require(${JSON.stringify(MODULE)});` +
+    `process.stdout.write(String(recordNonce(process.argv[1], 'shared', ${inOneHour()})));`;
+
+  const results = await Promise.all(
+    Array.from(
+      { length: 6 },
+      () =>
+        new Promise((resolve, reject) => {
+          execFile(process.execPath, ['-e', script, store], (error, stdout) =>
+            error ? reject(error) : resolve(stdout)
+          );
+        })
+    )
+  );
+
+  assert.equal(results.filter((result) => result === 'true').length, 1);
+  assert.equal(results.filter((result) => result === 'false').length, 5);
+  assert.ok(!fs.existsSync(`${store}.lock`));
+});
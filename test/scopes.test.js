@@ -0,0 +1,110 @@
+/**
+ * Scope language, scope subsets and delegation attenuation
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  parseScope,
+  isScopeSubset,
+  findUncoveredScope,
+  evaluateScopes,
+} = require('../dist/utils/scopes.js');
+const { checkAttenuation } = require('../dist/utils/delegation.js');
+
+const subset = (child, parent) => isScopeSubset(parseScope(child), parseScope(parent));
+
+test('parseScope splits resource, action and constraints', () => {
+  const scope = parseScope('repo:acme/*:write;rate=10/m;days=mon-fri');
+  assert.equal(scope.resource, 'repo:acme/*');
+  assert.equal(scope.action, 'write');
+  assert.deepEqual(scope.constraints.rate, { limit: 10, per: 'minute' });
+
+  assert.equal(parseScope('read').resource, undefined);
+  assert.equal(parseScope('*:read').resource, '*');
+});
+
+test('parseScope rejects malformed scopes', () => {
+  for (const scope of ['', ':read', 'api:', 'api read', 'api:read;rate']) {
+    assert.throws(() => parseScope(scope), { code: 'INVALID_ARGUMENT' }, scope);
+  }
+  assert.throws(() => parseScope('api:read;hours=25:00-26:00'), /Invalid hours constraint/);
+  assert.throws(() => parseScope('api:read;rate=10/w'), /Invalid rate constraint/);
+});
+
+test('isScopeSubset narrows actions and resources', () => {
+  assert.ok(subset('api:read', 'api:*'));
+  assert.ok(subset('repo:acme/web:write', 'repo:acme/*:write'));
+  assert.ok(subset('repo:acme/a/b:write', 'repo:acme/**:write'));
+  assert.ok(!subset('repo:acme/a/b:write', 'repo:acme/*:write'));
+  assert.ok(!subset('repo:acme/**:write', 'repo:acme/*:write'));
+  assert.ok(!subset('api:*', 'api:read'));
+  assert.ok(!subset('other:read', 'api:read'));
+});
+
+test('isScopeSubset keeps bare and resource scopes apart', () => {
+  assert.ok(subset('read', 'read'));
+  assert.ok(subset('read', '*:read'));
+  assert.ok(!subset('api:read', 'read'));
+  assert.ok(!subset('*:read', 'read'));
+  assert.ok(!subset('read', 'api:read'));
+});
+
+test('isScopeSubset requires constraints at least as strict', () => {
+  assert.ok(subset('api:read;rate=5/m', 'api:read;rate=10/m'));
+  assert.ok(!subset('api:read;rate=20/m', 'api:read;rate=10/m'));
+  assert.ok(!subset('api:read', 'api:read;rate=10/m'));
+  assert.ok(subset('api:read;hours=10:00-12:00', 'api:read;hours=09:00-17:00'));
+  assert.ok(!subset('api:read;hours=08:00-12:00', 'api:read;hours=09:00-17:00'));
+});
+
+test('findUncoveredScope reports the first scope no parent covers', () => {
+  assert.equal(findUncoveredScope(['api:read', 'api:write'], ['api:read']), 'api:write');
+  assert.equal(findUncoveredScope(['api:read'], ['api:*', 'db:read']), undefined);
+});
+
+test('evaluateScopes grants matching scopes only', () => {
+  const decision = evaluateScopes(['api:read;rate=10/m'], { action: 'read', resource: 'api' });
+  assert.equal(decision.allowed, true);
+  assert.equal(decision.matchedScope, 'api:read;rate=10/m');
+  assert.deepEqual(decision.obligations, ['rate limit: 10 per minute']);
+
+  assert.equal(evaluateScopes(['api:read'], { action: 'write', resource: 'api' }).allowed, false);
+  assert.equal(evaluateScopes(['api:read'], { action: 'read', resource: 'db' }).allowed, false);
+  assert.equal(evaluateScopes(['api:read'], { action: 'read' }).allowed, false);
+  assert.equal(evaluateScopes(['*:read'], { action: 'read' }).allowed, true);
+});
+
+test('evaluateScopes does not let a bare scope match a named resource', () => {
+  const decision = evaluateScopes(['read'], { action: 'read', resource: 'api' });
+  assert.equal(decision.allowed, false);
+  assert.match(decision.evaluated[0].reason, /names no resource/);
+  assert.equal(evaluateScopes(['read'], { action: 'read' }).allowed, true);
+});
+
+test('evaluateScopes enforces time windows', () => {
+  const scopes = ['api:read;hours=09:00-17:00'];
+  const inside = new Date('2026-01-05T10:00:00Z');
+  const outside = new Date('2026-01-05T20:00:00Z');
+  assert.equal(evaluateScopes(scopes, { action: 'read', resource: 'api', at: inside }).allowed, true);
+  assert.equal(evaluateScopes(scopes, { action: 'read', resource: 'api', at: outside }).allowed, false);
+});
+
+test('checkAttenuation accepts a strictly narrower delegation', () => {
+  const parent = { issuer: 'did:ex:owner', subject: 'did:ex:a', scopes: ['api:*'], audience: 'svc', expiresAt: 2000 };
+  const child = { issuer: 'did:ex:a', subject: 'did:ex:b', scopes: ['api:read'], audience: 'svc', expiresAt: 1500 };
+  assert.equal(checkAttenuation(child, parent), undefined);
+});
+
+test('checkAttenuation rejects widened delegations', () => {
+  const parent = { issuer: 'did:ex:owner', subject: 'did:ex:a', scopes: ['api:read'], audience: 'svc', expiresAt: 2000 };
+  const child = { issuer: 'did:ex:a', subject: 'did:ex:b', scopes: ['api:read'], audience: 'svc', expiresAt: 1500 };
+
+  assert.match(checkAttenuation({ ...child, issuer: 'did:ex:c' }, parent), /not the subject/);
+  assert.match(checkAttenuation({ ...child, scopes: ['api:write'] }, parent), /not covered/);
+  assert.match(checkAttenuation({ ...child, scopes: ['read'] }, parent), /not covered/);
+  assert.match(checkAttenuation({ ...child, audience: 'other' }, parent), /Audience/);
+  assert.match(checkAttenuation({ ...child, expiresAt: 2500 }, parent), /Expiry/);
+  assert.match(checkAttenuation({ ...child, expiresAt: undefined }, parent), /Expiry/);
+  assert.match(checkAttenuation(child, { ...parent, scopes: [] }), /grants no scopes/);
+});
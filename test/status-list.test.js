@@ -0,0 +1,171 @@
+/**
+ * Bitstring status lists: bit encoding, index allocation, merging and fetching
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+const {
+  loadOrCreateStatusList,
+  loadStatusList,
+  saveStatusList,
+  allocateStatusEntry,
+  revokeStatusIndex,
+  mergeStatusLists,
+  localRevocationStatus,
+  attachCredentialStatus,
+  checkCredentialStatus,
+} = require('../dist/utils/status-list.js');
+const { generateEcKeyPair } = require('../dist/utils/key-types.js');
+const { publicKeyToDidKey } = require('../dist/utils/did-key.js');
+
+const ISSUER = 'did:key:zIssuer';
+const URL = 'https://example.com/status/1.jwt';
+
+const bitsOf = (state) => zlib.gunzipSync(Buffer.from(state.encodedList.slice(1), 'base64url'));
+const tempStore = (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-did-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+};
+
+test('a new list is an empty 16KB bitstring, multibase base64url and gzipped', (t) => {
+  const state = loadOrCreateStatusList(tempStore(t), ISSUER, URL);
+  assert.equal(state.url, URL);
+  assert.equal(state.nextIndex, 0);
+  assert.ok(state.encodedList.startsWith('u'));
+  const bits = bitsOf(state);
+  assert.equal(bits.length, 16384);
+  assert.ok(bits.every((byte) => byte === 0));
+});
+
+test('a new list needs a URL or a configured base URL', (t) => {
+  const store = tempStore(t);
+  const previous = process.env.AGENT_DID_STATUS_LIST_BASE_URL;
+  t.after(() => {
+    if (previous === undefined) delete process.env.AGENT_DID_STATUS_LIST_BASE_URL;
+    else process.env.AGENT_DID_STATUS_LIST_BASE_URL = previous;
+  });
+
+  delete process.env.AGENT_DID_STATUS_LIST_BASE_URL;
+  assert.throws(() => loadOrCreateStatusList(store, ISSUER), { code: 'INVALID_ARGUMENT' });
+
+  process.env.AGENT_DID_STATUS_LIST_BASE_URL = 'https://example.com/status/';
+  assert.equal(
+    loadOrCreateStatusList(store, ISSUER).url,
+    'https://example.com/status/did_key_zIssuer.jwt'
+  );
+});
+
+test('allocateStatusEntry hands out sequential indices', (t) => {
+  const state = loadOrCreateStatusList(tempStore(t), ISSUER, URL);
+  const first = allocateStatusEntry(state, 'urn:a');
+  const second = allocateStatusEntry(state, 'urn:b');
+
+  assert.deepEqual(first, {
+    id: `${URL}#0`,
+    type: 'BitstringStatusListEntry',
+    statusPurpose: 'revocation',
+    statusListIndex: '0',
+    statusListCredential: URL,
+  });
+  assert.equal(second.statusListIndex, '1');
+  assert.deepEqual(state.entries, { 'urn:a': 0, 'urn:b': 1 });
+  assert.equal(state.nextIndex, 2);
+});
+
+test('revokeStatusIndex sets the bit, left-most bit first', (t) => {
+  const state = loadOrCreateStatusList(tempStore(t), ISSUER, URL);
+  assert.equal(revokeStatusIndex(state, 0), true);
+  assert.equal(revokeStatusIndex(state, 9), true);
+  assert.equal(revokeStatusIndex(state, 9), false);
+
+  const bits = bitsOf(state);
+  assert.equal(bits[0], 0x80);
+  assert.equal(bits[1], 0x40);
+  assert.throws(() => revokeStatusIndex(state, 131072), /out of range/);
+});
+
+test('localRevocationStatus reads the saved bit of a credential', (t) => {
+  const store = tempStore(t);
+  const state = loadOrCreateStatusList(store, ISSUER, URL);
+  const revoked = allocateStatusEntry(state, 'urn:a');
+  const active = allocateStatusEntry(state, 'urn:b');
+  revokeStatusIndex(state, 0);
+  saveStatusList(store, state, 'jwt');
+
+  const payload = (credentialStatus) => ({ iss: ISSUER, vc: { credentialStatus } });
+  assert.equal(localRevocationStatus(store, payload(revoked)), true);
+  assert.equal(localRevocationStatus(store, payload(active)), false);
+  assert.equal(localRevocationStatus(store, payload({ ...active, statusListCredential: 'https://other' })), undefined);
+  assert.equal(localRevocationStatus(store, payload(undefined)), undefined);
+});
+
+test('mergeStatusLists keeps the revocations and indices of both lists', (t) => {
+  const store = tempStore(t);
+  const ours = loadOrCreateStatusList(store, ISSUER, URL);
+  allocateStatusEntry(ours, 'urn:a');
+  revokeStatusIndex(ours, 0);
+
+  const theirs = loadOrCreateStatusList(store, ISSUER, URL);
+  for (const id of ['urn:a', 'urn:b', 'urn:c']) allocateStatusEntry(theirs, id);
+  revokeStatusIndex(theirs, 2);
+
+  assert.equal(mergeStatusLists(ours, theirs), true);
+  assert.equal(ours.nextIndex, 3);
+  assert.deepEqual(ours.entries, { 'urn:a': 0, 'urn:b': 1, 'urn:c': 2 });
+  assert.equal(bitsOf(ours)[0], 0xa0);
+  assert.equal(mergeStatusLists(ours, theirs), false);
+});
+
+test('concurrent issuance never reuses an index', async (t) => {
+  const store = tempStore(t);
+  const keyPair = { ...generateEcKeyPair('p256'), keyType: 'p256' };
+  const issuer = publicKeyToDidKey(keyPair.publicKey, 'p256');
+
+  const credentials = Array.from({ length: 10 }, () => ({ credentialSubject: {} }));
+  await Promise.all(
+    credentials.map((credential) => attachCredentialStatus(store, credential, issuer, keyPair, URL))
+  );
+
+  const indices = credentials.map((credential) => credential.credentialStatus.statusListIndex);
+  assert.equal(new Set(indices).size, 10);
+  assert.equal(loadStatusList(store, issuer).nextIndex, 10);
+  assert.ok(fs.existsSync(path.join(store, 'status-lists', `${issuer.replace(/[^a-zA-Z0-9]/g, '_')}.jwt`)));
+});
+
+test('a status list URL from the credential must be http(s)', async () => {
+  for (const statusListCredential of ['file:///etc/passwd', '/etc/passwd', '../status.jwt']) {
+    const payload = {
+      iss: ISSUER,
+      vc: {
+        credentialStatus: {
+          id: `${statusListCredential}#0`,
+          type: 'BitstringStatusListEntry',
+          statusPurpose: 'revocation',
+          statusListIndex: '0',
+          statusListCredential,
+        },
+      },
+    };
+    const result = await checkCredentialStatus(payload);
+    assert.equal(result.checked, true);
+    assert.equal(result.revoked, false);
+    assert.equal(result.reason, `Status list unavailable: Status list URL must be http(s): ${statusListCredential}`);
+  }
+});
+
+test('an operator-named local status list is read', async (t) => {
+  const store = tempStore(t);
+  const file = path.join(store, 'list.jwt');
+  fs.writeFileSync(file, 'not-a-jwt');
+  const payload = {
+    iss: ISSUER,
+    vc: { credentialStatus: { type: 'BitstringStatusListEntry', statusListIndex: '0', statusListCredential: URL } },
+  };
+  const result = await checkCredentialStatus(payload, file);
+  assert.match(result.reason, /^Status list credential is invalid/);
+});